@@ -483,3 +483,38 @@ test("accept fails when summary indicates errored scenarios", async () => {
 
   fs.rmSync(runDir, { recursive: true, force: true });
 });
+
+test("accept --format writes the exports before exiting 1 on a failing run", async () => {
+  const runId = `test-accept-exports-${Date.now()}`;
+  const trace = makeTrace({
+    run_id: runId,
+    trace_id: "trace_export_000",
+    server_logs: {
+      "fantasy-mcp": [{ timestamp: "2026-02-07T00:00:00.000Z", status: 200, wall_time_ms: 1, trace_id: "trace_export_000", run_id: runId }],
+    },
+  });
+  const runDir = writeRun(runId, [trace], { summaryErrored: 1 });
+  const exportPaths = [path.join(runDir, "junit.xml"), path.join(runDir, "results.tap")];
+
+  const prevArgv = [...process.argv];
+  const prevExit = process.exit;
+  let existingAtExit: boolean[] = [];
+  process.argv = [process.argv[0] || "node", "accept.ts", runId, "--format", "junit,tap"];
+  process.exit = ((code?: number) => {
+    existingAtExit = exportPaths.map((exportPath) => fs.existsSync(exportPath));
+    throw new Error(`EXIT_${code ?? 0}`);
+  }) as unknown as typeof process.exit;
+  try {
+    await assert.rejects(async () => runCli(), /EXIT_1/);
+  } finally {
+    process.argv = prevArgv;
+    process.exit = prevExit;
+  }
+
+  assert.deepEqual(existingAtExit, [true, true]);
+  assert.match(fs.readFileSync(exportPaths[0], "utf8"), /<property name="acceptance" value="fail"\/>/);
+  assert.match(fs.readFileSync(exportPaths[0], "utf8"), /<failure type="RUN_HAS_ERRORS"/);
+  assert.match(fs.readFileSync(exportPaths[1], "utf8"), /^not ok \d+ - acceptance /m);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
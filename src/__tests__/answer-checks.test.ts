@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkAnswer, detectRefusal, hasAnswerChecks } from "../answer-checks.js";
+
+const CBS_ANSWER =
+  "Sorry, CBS isn't supported. Flaim currently works with ESPN, Yahoo and Sleeper leagues — connect one of those and I can pull your roster.";
+
+test("detectRefusal recognises common decline phrasing", () => {
+  assert.equal(detectRefusal(CBS_ANSWER), true);
+  assert.equal(detectRefusal("Curling is not supported yet."), true);
+  assert.equal(detectRefusal("I can’t place trades for you."), true);
+  assert.equal(detectRefusal("All Flaim tools are read-only, so I can't make trades."), true);
+  assert.equal(detectRefusal("Your team is 7-3 and sits second in the standings."), false);
+});
+
+test("checkAnswer evaluates each configured check case-insensitively", () => {
+  const results = checkAnswer(CBS_ANSWER, {
+    must_contain: ["cbs"],
+    must_not_contain: ["here is your roster"],
+    regex: ["espn,\\s+yahoo"],
+    mentions_platforms: ["ESPN", "Yahoo", "Sleeper"],
+    refusal: true,
+  });
+  assert.ok(results.every((result) => result.passed));
+  assert.deepEqual(
+    results.map((result) => result.check),
+    ["must_contain", "must_not_contain", "regex", "mentions_platforms", "refusal"]
+  );
+});
+
+test("checkAnswer explains failures", () => {
+  const results = checkAnswer("Your ESPN roster: Mahomes, Kelce.", {
+    mentions_platforms: ["ESPN", "Yahoo", "Sleeper"],
+    refusal: true,
+  });
+  assert.deepEqual(results, [
+    { check: "mentions_platforms", expected: "ESPN, Yahoo, Sleeper", passed: false, detail: "missing Yahoo, Sleeper" },
+    { check: "refusal", expected: "refusal", passed: false, detail: "no refusal detected" },
+  ]);
+});
+
+test("hasAnswerChecks ignores empty check blocks", () => {
+  assert.equal(hasAnswerChecks(undefined), false);
+  assert.equal(hasAnswerChecks({ must_contain: [] }), false);
+  assert.equal(hasAnswerChecks({ refusal: false }), true);
+});
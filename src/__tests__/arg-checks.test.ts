@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkArg, checkExpectedCalls } from "../arg-checks.js";
+import { validateSchema } from "../json-schema.js";
+import type { CapturedToolCall } from "../types.js";
+
+function call(toolName: string, args: Record<string, unknown>): CapturedToolCall {
+  return { tool_name: toolName, args, result_preview: "", result_full: "" };
+}
+
+test("checkArg supports literals, patterns, equals and schema matchers", () => {
+  assert.equal(checkArg("platform", "sleeper", "sleeper"), null);
+  assert.deepEqual(checkArg("platform", "sleeper", "espn"), { arg: "platform", expected: '"sleeper"', actual: "espn" });
+  assert.deepEqual(checkArg("week", 5, undefined), { arg: "week", expected: "5" });
+
+  // Patterns see non-strings as JSON, so numeric and string years both match.
+  assert.equal(checkArg("season_year", { pattern: "^2025$" }, 2025), null);
+  assert.equal(checkArg("season_year", { pattern: "^2025$" }, "2025"), null);
+  assert.ok(checkArg("season_year", { pattern: "^2025$" }, 2024));
+
+  assert.equal(checkArg("ids", { equals: ["a", "b"] }, ["a", "b"]), null);
+
+  const mismatch = checkArg("week", { schema: { type: "integer", minimum: 1, maximum: 18 } }, 19);
+  assert.equal(mismatch?.expected, "week must be <= 18");
+});
+
+test("checkExpectedCalls pairs each expectation with a distinct matching call", () => {
+  const results = checkExpectedCalls(
+    [
+      { tool: "get_roster", args: { platform: "sleeper", league_id: "1180208192901685248" } },
+      { tool: "get_roster", args: { platform: "sleeper" } },
+      { tool: "get_standings" },
+    ],
+    [
+      call("get_user_session", {}),
+      call("get_roster", { platform: "espn", league_id: "1180208192901685248" }),
+      call("get_roster", { platform: "sleeper", league_id: "1180208192901685248" }),
+    ]
+  );
+
+  assert.deepEqual(results[0], { tool: "get_roster", passed: true, call_index: 2, mismatches: [] });
+  // The matching call is already used, so the closest remaining one is reported.
+  assert.deepEqual(results[1], {
+    tool: "get_roster",
+    passed: false,
+    call_index: 1,
+    mismatches: [{ arg: "platform", expected: '"sleeper"', actual: "espn" }],
+  });
+  assert.deepEqual(results[2], { tool: "get_standings", passed: false, call_index: null, mismatches: [] });
+});
+
+test("validateSchema reports paths for nested violations", () => {
+  const schema = {
+    type: "object" as const,
+    required: ["id", "tags"],
+    additionalProperties: false,
+    properties: {
+      id: { type: "string" as const, pattern: "^[a-z_]+$" },
+      tags: { type: "array" as const, items: { type: "string" as const } },
+    },
+  };
+
+  assert.deepEqual(validateSchema({ id: "ok_id", tags: ["a"] }, schema), []);
+  assert.deepEqual(validateSchema({ id: "Bad-Id", tags: [1], extra: true }, schema), [
+    { path: "/id", message: "must match /^[a-z_]+$/" },
+    { path: "/tags/0", message: "expected string, got integer" },
+    { path: "/extra", message: "is not an allowed property" },
+  ]);
+  assert.deepEqual(validateSchema({}, schema).map((error) => error.path), ["/id", "/tags"]);
+});
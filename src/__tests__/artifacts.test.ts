@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { appendProgress, readCompleteTraceArtifact, writeTraceArtifact } from "../artifacts.js";
+import type { TraceArtifact } from "../types.js";
+
+const TRACE_ID = "trace_who_is_on_my_roster_000_2026_02_07t02_28_06z";
+
+const ARTIFACT: TraceArtifact = {
+  schema_version: "1.2",
+  run_id: "2026-02-07T02-28-06Z",
+  trace_id: TRACE_ID,
+  scenario_id: "who_is_on_my_roster",
+  timestamp_utc: "2026-02-07T02:28:06.000Z",
+  model: "gpt-5-mini",
+  prompt: "Who is on my roster?",
+  instructions_file: null,
+  expected_tools: ["get_user_session", "get_roster"],
+  llm_response: {
+    response_id: "resp_1",
+    tool_calls: [],
+    final_text: "",
+    raw_output: [],
+    usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+  },
+  duration_ms: 10,
+  notes: [],
+};
+
+test("writeTraceArtifact leaves only a complete trace.json behind", () => {
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-artifacts-"));
+  writeTraceArtifact(runDir, ARTIFACT);
+  assert.deepEqual(fs.readdirSync(path.join(runDir, TRACE_ID)), ["trace.json"]);
+  assert.deepEqual(readCompleteTraceArtifact(runDir, TRACE_ID), ARTIFACT);
+});
+
+test("readCompleteTraceArtifact rejects missing, truncated and mismatched traces", () => {
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-artifacts-"));
+  assert.equal(readCompleteTraceArtifact(runDir, TRACE_ID), null);
+
+  fs.mkdirSync(path.join(runDir, TRACE_ID));
+  fs.writeFileSync(path.join(runDir, TRACE_ID, "trace.json"), '{"schema_version": "1.2", "run_');
+  assert.equal(readCompleteTraceArtifact(runDir, TRACE_ID), null);
+
+  fs.writeFileSync(path.join(runDir, TRACE_ID, "trace.json"), JSON.stringify({ ...ARTIFACT, trace_id: "trace_other" }));
+  assert.equal(readCompleteTraceArtifact(runDir, TRACE_ID), null);
+});
+
+test("appendProgress writes one JSON line per finished trace", () => {
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-artifacts-"));
+  appendProgress(runDir, { trace_id: "a", scenario_id: "s", status: "ok", finished_at: "t1" });
+  appendProgress(runDir, { trace_id: "b", scenario_id: "s", status: "error", error: "boom", finished_at: "t2" });
+
+  const lines = fs.readFileSync(path.join(runDir, "progress.jsonl"), "utf8").trim().split("\n");
+  assert.deepEqual(
+    lines.map((line) => JSON.parse(line).trace_id),
+    ["a", "b"]
+  );
+});
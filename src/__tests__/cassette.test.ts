@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildInteractionKey, createRecordingCassette, loadReplayCassette } from "../cassette.js";
+import type { CassetteFile } from "../types.js";
+
+const CF_URL = "https://api.cloudflare.com/client/v4/accounts/acc_123/workers/observability/telemetry/query";
+
+function cloudflareBody(traceId: string, from: number) {
+  return JSON.stringify({
+    queryId: "flaim-eval-fantasy-mcp",
+    parameters: { filters: [{ key: "$metadata.traceId", operation: "eq", type: "string", value: traceId }] },
+    timeframe: { from, to: from + 1000 },
+  });
+}
+
+test("buildInteractionKey ignores Cloudflare account and timeframe", () => {
+  const a = buildInteractionKey("post", CF_URL, JSON.parse(cloudflareBody("t", 1)));
+  const b = buildInteractionKey(
+    "POST",
+    CF_URL.replace("acc_123", "replay"),
+    JSON.parse(cloudflareBody("t", 999))
+  );
+  assert.equal(a, b);
+});
+
+test("cassette records with placeholders and replays under fresh IDs", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-cassette-"));
+  const filePath = path.join(dir, "cassette.json");
+  const recordContext = {
+    scenarioId: "who_is_on_my_roster",
+    runId: "2026-02-07T02-11-12Z",
+    traceId: "trace_who_is_on_my_roster_000_02_07t02_11_12z",
+    accessToken: "secret_token_abc",
+  };
+
+  const baseFetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as { parameters?: unknown };
+    if (body.parameters) {
+      return Response.json({ events: [{ trace_id: recordContext.traceId }] });
+    }
+    return Response.json({ id: "resp_1", echo: `eval=${recordContext.runId}` });
+  }) as typeof fetch;
+
+  const recorder = createRecordingCassette(filePath, recordContext, { cloudflareEnabled: true, baseFetch });
+  await recorder.fetch("https://api.openai.com/v1/responses", {
+    method: "POST",
+    body: JSON.stringify({ model: "m", headers: { Authorization: `Bearer ${recordContext.accessToken}` } }),
+  });
+  await recorder.fetch(CF_URL, { method: "POST", body: cloudflareBody(recordContext.traceId, 1000) });
+  recorder.save();
+
+  const saved = fs.readFileSync(filePath, "utf8");
+  assert.doesNotMatch(saved, /secret_token_abc/);
+  assert.doesNotMatch(saved, /trace_who_is_on_my_roster_000/);
+  const file = JSON.parse(saved) as CassetteFile;
+  assert.equal(file.interactions.length, 2);
+  assert.deepEqual(file.interactions.map((i) => i.kind), ["openai", "cloudflare"]);
+
+  const replayContext = {
+    scenarioId: "who_is_on_my_roster",
+    runId: "2026-03-01T00-00-00Z",
+    traceId: "trace_who_is_on_my_roster_000_03_01t00_00_00z",
+    accessToken: "flaim-eval-replay-token",
+  };
+  const player = loadReplayCassette(filePath, replayContext);
+  assert.equal(player.cloudflareEnabled, true);
+
+  const cfResponse = await player.fetch(CF_URL.replace("acc_123", "replay"), {
+    method: "POST",
+    body: cloudflareBody(replayContext.traceId, 5000),
+  });
+  assert.deepEqual(await cfResponse.json(), { events: [{ trace_id: replayContext.traceId }] });
+
+  const openaiResponse = await player.fetch("https://api.openai.com/v1/responses", {
+    method: "POST",
+    body: JSON.stringify({ model: "m", headers: { Authorization: `Bearer ${replayContext.accessToken}` } }),
+  });
+  assert.deepEqual(await openaiResponse.json(), { id: "resp_1", echo: `eval=${replayContext.runId}` });
+
+  await assert.rejects(
+    async () =>
+      player.fetch("https://api.openai.com/v1/responses", {
+        method: "POST",
+        body: JSON.stringify({ model: "m", headers: { Authorization: `Bearer ${replayContext.accessToken}` } }),
+      }),
+    /Cassette miss/
+  );
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,142 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildDiffMarkdown, diffLines, diffRuns, formatDiffTerminal, hasBehaviorChange } from "../diff.js";
+import type { CapturedToolCall, RunSummary, ScenarioResult, TraceArtifact } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+function makeTrace(runId: string, traceId: string, calls: CapturedToolCall[], finalText: string, workers: string[]): TraceArtifact {
+  return {
+    schema_version: "1.1",
+    run_id: runId,
+    trace_id: traceId,
+    scenario_id: "roster",
+    timestamp_utc: "2026-02-07T02:28:06.000Z",
+    model: "gpt-5-mini",
+    prompt: "prompt",
+    instructions_file: null,
+    expected_tools: ["get_roster"],
+    llm_response: {
+      response_id: "resp_1",
+      tool_calls: calls,
+      final_text: finalText,
+      raw_output: [],
+      usage: { input_tokens: 10, output_tokens: 2, total_tokens: 12 },
+    },
+    duration_ms: 1000,
+    notes: [],
+    server_logs: Object.fromEntries(workers.map((worker) => [worker, []])),
+  };
+}
+
+function writeRun(root: string, runId: string, rows: ScenarioResult[], traces: TraceArtifact[]): string {
+  const runDir = path.join(root, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+  const summary: RunSummary = {
+    run_id: runId,
+    model: "gpt-5-mini",
+    total_scenarios: rows.length,
+    completed: rows.length,
+    errored: 0,
+    total_duration_ms: 0,
+    total_tokens: { input: 0, output: 0, total: 0 },
+    scenarios: rows,
+  };
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary));
+  for (const trace of traces) {
+    fs.mkdirSync(path.join(runDir, trace.trace_id), { recursive: true });
+    fs.writeFileSync(path.join(runDir, trace.trace_id, "trace.json"), JSON.stringify(trace));
+  }
+  return runDir;
+}
+
+test("diffLines keeps common lines and marks removals and additions", () => {
+  assert.deepEqual(diffLines("same", "same"), []);
+  assert.deepEqual(diffLines("a\nb\nc", "a\nx\nc"), [
+    { op: " ", text: "a" },
+    { op: "-", text: "b" },
+    { op: "+", text: "x" },
+    { op: " ", text: "c" },
+  ]);
+});
+
+test("diffRuns aligns by scenario and reports args, workers, verdict and answer changes", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-diff-"));
+  try {
+    const call = (week: number): CapturedToolCall => ({
+      tool_name: "get_roster",
+      args: { platform: "espn", week },
+      result_preview: "",
+      result_full: "",
+    });
+    const baseDir = writeRun(
+      root,
+      "base",
+      [
+        makeRow("roster", { trace_id: "trace_roster_base" }),
+        makeRow("standings", { trace_id: "trace_standings_base" }),
+        makeRow("gone", { trace_id: "trace_gone" }),
+      ],
+      [makeTrace("base", "trace_roster_base", [call(4)], "Start Chase.\nBench Hill.", ["fantasy-mcp"])]
+    );
+    const headDir = writeRun(
+      root,
+      "head",
+      [
+        makeRow("roster", { trace_id: "trace_roster_head", passed: false, total_tokens: 150, duration_ms: 1500 }),
+        makeRow("standings", { trace_id: "trace_standings_head" }),
+        makeRow("new_one", { trace_id: "trace_new" }),
+      ],
+      [makeTrace("head", "trace_roster_head", [call(5)], "Start Chase.\nBench Smith.", ["espn-client", "fantasy-mcp"])]
+    );
+
+    const diff = diffRuns(baseDir, headDir);
+    assert.deepEqual(diff.added, ["new_one"]);
+    assert.deepEqual(diff.removed, ["gone"]);
+    assert.equal(diff.scenarios.length, 2);
+
+    const roster = diff.scenarios[0];
+    assert.deepEqual(roster.passed, { before: true, after: false });
+    assert.deepEqual(roster.arg_changes, [{ call_index: 0, tool: "get_roster", arg: "week", before: 4, after: 5 }]);
+    assert.deepEqual(roster.workers, { before: ["fantasy-mcp"], after: ["espn-client", "fantasy-mcp"] });
+    assert.deepEqual(roster.tokens, { before: 100, after: 150 });
+    assert.ok(roster.final_text_diff.some((line) => line.op === "+" && line.text === "Bench Smith."));
+    assert.equal(hasBehaviorChange(roster), true);
+    assert.equal(hasBehaviorChange(diff.scenarios[1]), false);
+
+    const terminal = formatDiffTerminal(diff);
+    assert.match(terminal, /Regressed: 1/);
+    assert.match(terminal, /✗ roster/);
+    assert.match(terminal, /get_roster\[0\]\.week: 4 → 5/);
+    assert.doesNotMatch(terminal, /standings/);
+
+    const markdown = buildDiffMarkdown(diff);
+    assert.match(markdown, /# Run Diff: base → head/);
+    assert.match(markdown, /pass → \*\*fail\*\*/);
+    assert.match(markdown, /100 → 150 \(\+50, \+50%\)/);
+    assert.match(markdown, /```diff\n Start Chase\.\n-Bench Hill\.\n\+Bench Smith\.\n```/);
+    assert.match(markdown, /Only in head: new_one/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("diffRuns pairs repeated trials in order", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-diff-"));
+  try {
+    const baseDir = writeRun(root, "base", [makeRow("roster", { trace_id: "t1", trial: 1 })], []);
+    const headDir = writeRun(
+      root,
+      "head",
+      [makeRow("roster", { trace_id: "t1", trial: 1 }), makeRow("roster", { trace_id: "t2", trial: 2, passed: false })],
+      []
+    );
+    const diff = diffRuns(baseDir, headDir);
+    assert.equal(diff.scenarios.length, 1);
+    assert.deepEqual(diff.added, ["roster #2"]);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -2,7 +2,8 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import fs from "node:fs";
 import path from "node:path";
-import { buildAttemptWindow, buildReenrichWindow, runCli } from "../enrich.js";
+import os from "node:os";
+import { buildAttemptWindow, buildReenrichWindow, enrichTraces, runCli } from "../enrich.js";
 import type { TraceArtifact } from "../types.js";
 
 const RUNS_ROOT = path.resolve(import.meta.dirname, "../../runs");
@@ -382,3 +383,63 @@ test("reenrich accumulates worker coverage across attempts", async () => {
 
   fs.rmSync(runDir, { recursive: true, force: true });
 });
+
+test("deferred enrichment shares backoff rounds across traces", async () => {
+  const runId = "2026-02-07T00-00-00Z";
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-deferred-"));
+  const sessionCall = { tool_name: "get_user_session", args: {}, result_preview: "", result_full: "" };
+  for (const traceId of ["trace_fast_000", "trace_slow_001"]) {
+    const trace = makeTrace({ run_id: runId, trace_id: traceId, scenario_id: traceId });
+    trace.llm_response.tool_calls = [sessionCall];
+    fs.mkdirSync(path.join(runDir, traceId), { recursive: true });
+    fs.writeFileSync(path.join(runDir, traceId, "trace.json"), JSON.stringify(trace, null, 2));
+  }
+
+  // Distinct (trace, attempt window) pairs in the order they were first queried.
+  const rounds: string[] = [];
+  const fetchFor = (traceId: string): typeof fetch =>
+    (async (_url: string | URL | Request, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body)) as {
+        parameters?: { filters?: Array<{ key: string; value?: string }> };
+        timeframe?: { from: number; to: number };
+      };
+      const workerName = body.parameters?.filters?.find((f) => f.key === "$metadata.service")?.value || "";
+      const round = `${traceId}@${body.timeframe?.from}`;
+      if (!rounds.includes(round)) {
+        rounds.push(round);
+      }
+      const attempt = rounds.filter((entry) => entry.startsWith(`${traceId}@`)).length;
+
+      // The slow trace's auth-worker logs only show up on its second attempt.
+      const visible =
+        workerName === "fantasy-mcp" || (workerName === "auth-worker" && (traceId === "trace_fast_000" || attempt > 1));
+      const events = visible ? [makeEvent(workerName, runId, traceId, `${workerName}-${traceId}-${attempt}`)] : [];
+      return Response.json({ success: true, errors: [], result: { events: { count: events.length, events } } });
+    }) as typeof fetch;
+
+  const outcomes = await enrichTraces(runDir, ["trace_fast_000", "trace_slow_001"], {
+    mode: "deferred",
+    schedule: { maxAttempts: 3, delayMs: 1, expandMs: 1000 },
+    resolveConfig: (artifact) => ({ accountId: "acc", apiToken: "tok", fetch: fetchFor(artifact.trace_id) }),
+  });
+
+  assert.deepEqual(
+    outcomes.map((outcome) => [outcome.traceId, outcome.result?.attempts]),
+    [
+      ["trace_fast_000", 1],
+      ["trace_slow_001", 2],
+    ]
+  );
+  // Round 1 queries both traces; round 2 only the one still missing workers.
+  assert.deepEqual(
+    rounds.map((entry) => entry.split("@")[0]),
+    ["trace_fast_000", "trace_slow_001", "trace_slow_001"]
+  );
+
+  const slow = JSON.parse(fs.readFileSync(path.join(runDir, "trace_slow_001", "trace.json"), "utf8")) as TraceArtifact;
+  assert.equal(slow.enrichment?.mode, "deferred");
+  assert.deepEqual(slow.enrichment?.actual_workers, ["auth-worker", "fantasy-mcp"]);
+  assert.deepEqual(slow.enrichment?.missing_workers, []);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
@@ -0,0 +1,110 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  buildExportCases,
+  buildJunitXml,
+  buildTap,
+  parseExportArgs,
+  writeExports,
+  type ExportAcceptance,
+} from "../exporters.js";
+import type { RunSummary } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+const SUMMARY: RunSummary = {
+  run_id: "2026-02-07T02-11-12Z",
+  model: "gpt-5-mini",
+  provider: "openai",
+  total_scenarios: 3,
+  completed: 2,
+  errored: 1,
+  total_duration_ms: 3000,
+  total_tokens: { input: 0, output: 0, total: 0 },
+  scenarios: [
+    makeRow("roster", { trace_id: "trace_roster_000" }),
+    makeRow("standings", {
+      trace_id: "trace_standings_001",
+      tool_calls: [],
+      expected_tools_hit: false,
+      passed: false,
+      routing_violations: ["missing get_standings"],
+    }),
+    makeRow("matchup", { trace_id: "trace_matchup_002", status: "error", tool_calls: [], error: "Connection <error>" }),
+  ],
+};
+
+const ACCEPTANCE: ExportAcceptance = {
+  final_status: "fail",
+  fail_reasons: [{ code: "RUN_HAS_ERRORS", message: "Run has 1 errored scenarios.", trace_ids: [] }],
+  warn_reasons: [
+    { code: "MISSING_ESPN_CLIENT", message: "Trace trace_roster_000 warning: MISSING_ESPN_CLIENT.", trace_ids: ["trace_roster_000"] },
+  ],
+};
+
+test("parseExportArgs reads the run id and formats", () => {
+  assert.deepEqual(parseExportArgs(["run-1"]), { runId: "run-1", formats: [] });
+  assert.deepEqual(parseExportArgs(["run-1", "--format", "junit,tap,junit"]), { runId: "run-1", formats: ["junit", "tap"] });
+  assert.throws(() => parseExportArgs(["run-1", "--format", "xml"]), /Unknown format: xml/);
+  assert.throws(() => parseExportArgs(["run-1", "--format"]), /--format requires a value/);
+  assert.throws(() => parseExportArgs(["run-1", "--bogus"]), /Unknown option: --bogus/);
+});
+
+test("buildExportCases attaches scenario and acceptance reasons to each trace", () => {
+  const cases = buildExportCases(SUMMARY, ACCEPTANCE);
+  assert.deepEqual(
+    cases.map((testCase) => [testCase.classname, testCase.status]),
+    [
+      ["roster", "passed"],
+      ["standings", "failed"],
+      ["matchup", "error"],
+      ["acceptance", "failed"],
+    ]
+  );
+  assert.deepEqual(cases[0].warnings.map((reason) => reason.code), ["MISSING_ESPN_CLIENT"]);
+  assert.deepEqual(cases[1].failures, [{ code: "ROUTING_MISMATCH", message: "missing get_standings" }]);
+  assert.equal(buildExportCases(SUMMARY, null).length, 3);
+});
+
+test("buildJunitXml writes failures, errors and warnings as system-out", () => {
+  const xml = buildJunitXml(SUMMARY, ACCEPTANCE);
+  assert.match(xml, /<testsuite name="2026-02-07T02-11-12Z" tests="4" failures="2" errors="1" skipped="0" time="3\.000">/);
+  assert.match(xml, /<property name="acceptance" value="fail"\/>/);
+  assert.match(xml, /<testcase classname="roster" name="trace_roster_000" time="1\.000">\n\s+<system-out>WARN MISSING_ESPN_CLIENT: /);
+  assert.match(xml, /<failure type="ROUTING_MISMATCH" message="missing get_standings">/);
+  assert.match(xml, /<error type="SCENARIO_ERROR" message="Connection &lt;error&gt;">/);
+  assert.match(xml, /<testcase classname="acceptance" name="acceptance 2026-02-07T02-11-12Z" time="0\.000">\n\s+<failure type="RUN_HAS_ERRORS"/);
+});
+
+test("buildJunitXml drops ANSI codes and replaces characters XML 1.0 forbids", () => {
+  const summary: RunSummary = {
+    ...SUMMARY,
+    scenarios: [makeRow("matchup", { trace_id: "trace_matchup_002", status: "error", error: "\u001b[31mfetch failed\u001b[0m\u0000\tcode\u0007" })],
+  };
+  const xml = buildJunitXml(summary, null);
+  assert.match(xml, /<error type="SCENARIO_ERROR" message="fetch failed\ufffd\tcode\ufffd">/);
+  assert.doesNotMatch(xml, /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/);
+});
+
+test("buildTap numbers each case and puts reasons in YAML blocks", () => {
+  const tap = buildTap(SUMMARY, ACCEPTANCE);
+  const lines = tap.split("\n");
+  assert.deepEqual(lines.slice(0, 3), ["TAP version 13", "1..4", "ok 1 - roster trace_roster_000"]);
+  assert.match(tap, /not ok 2 - standings trace_standings_001\n  ---\n  failures:\n    - code: ROUTING_MISMATCH\n      message: "missing get_standings"\n  \.\.\./);
+  assert.match(tap, /not ok 3 - matchup trace_matchup_002\n  ---\n  severity: error/);
+  assert.match(tap, /not ok 4 - acceptance 2026-02-07T02-11-12Z/);
+  assert.match(tap, /# run 2026-02-07T02-11-12Z: 1\/4 passed/);
+});
+
+test("writeExports writes the requested files into the run directory", () => {
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-exports-"));
+  try {
+    const paths = writeExports(runDir, ["junit", "tap"], SUMMARY, null);
+    assert.deepEqual(paths, [path.join(runDir, "junit.xml"), path.join(runDir, "results.tap")]);
+    assert.match(fs.readFileSync(paths[0], "utf8"), /value="not generated"/);
+  } finally {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  }
+});
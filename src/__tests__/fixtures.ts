@@ -0,0 +1,20 @@
+import type { ScenarioResult } from "../types.js";
+
+/**
+ * summary.json row for a passing get_roster trace; override what a test needs.
+ */
+export function makeRow(id: string, overrides: Partial<ScenarioResult> = {}): ScenarioResult {
+  return {
+    id,
+    trace_id: `trace_${id}`,
+    status: "ok",
+    tool_calls: ["get_roster"],
+    expected_tools: ["get_roster"],
+    tools_match: true,
+    expected_tools_hit: true,
+    passed: true,
+    duration_ms: 1000,
+    total_tokens: 100,
+    ...overrides,
+  };
+}
@@ -0,0 +1,135 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { baselineKey, loadBaseline, pinBaseline, snapshotRun, type BaselineRecord } from "../baseline.js";
+import { evaluateGate, parseGateArgs } from "../gate.js";
+import type { ScenarioResult } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+function writeRun(root: string, runId: string, rows: ScenarioResult[], acceptance?: "pass" | "fail"): string {
+  const runDir = path.join(root, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+  fs.writeFileSync(
+    path.join(runDir, "summary.json"),
+    JSON.stringify({ run_id: runId, model: "gpt-5-mini", scenarios: rows })
+  );
+  fs.writeFileSync(
+    path.join(runDir, "manifest.json"),
+    JSON.stringify({ run_id: runId, model: "gpt-5-mini", instructions_files: ["instructions/fantasy-analyst-v1.md"] })
+  );
+  if (acceptance) {
+    fs.writeFileSync(path.join(runDir, "acceptance-summary.json"), JSON.stringify({ final_status: acceptance }));
+  }
+  return runDir;
+}
+
+test("baselineKey combines model and instruction file names", () => {
+  assert.equal(baselineKey("gpt-5-mini", ["instructions/b.md", "instructions/a.md"]), "gpt-5-mini__a+b");
+  assert.equal(baselineKey("chat:llama 3", []), "chat-llama-3__none");
+});
+
+test("pinBaseline snapshots per-scenario pass counts and means", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-gate-"));
+  try {
+    const runDir = writeRun(
+      root,
+      "base",
+      [makeRow("a", { trial: 1 }), makeRow("a", { trial: 2, passed: false, total_tokens: 200 }), makeRow("b")],
+      "pass"
+    );
+    const record = pinBaseline(runDir, path.join(root, "baselines"));
+    assert.equal(record.key, "gpt-5-mini__fantasy-analyst-v1");
+    assert.equal(record.pass_rate, 0.667);
+    assert.deepEqual(record.scenarios[0], { id: "a", runs: 2, passed: 1, ok_runs: 2, mean_tokens: 150, mean_duration_ms: 1000 });
+    assert.deepEqual(loadBaseline(record.key, path.join(root, "baselines")), record);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("evaluateGate flags newly failing scenarios, pass-rate drops and budgets", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-gate-"));
+  try {
+    const baseline: BaselineRecord = {
+      ...snapshotRun(writeRun(root, "base", [makeRow("a"), makeRow("b"), makeRow("c"), makeRow("gone")], "pass")),
+      pinned_at: "2026-02-07T00:00:00.000Z",
+    };
+
+    const same = evaluateGate(baseline, snapshotRun(writeRun(root, "same", [makeRow("a"), makeRow("b"), makeRow("c")], "pass")));
+    assert.equal(same.verdict, "pass");
+    assert.deepEqual(same.regressions, []);
+    assert.deepEqual(same.warnings.map((reason) => reason.code), ["SCENARIOS_NOT_RUN"]);
+
+    const worse = evaluateGate(
+      baseline,
+      snapshotRun(
+        writeRun(
+          root,
+          "worse",
+          [makeRow("a", { passed: false }), makeRow("b", { total_tokens: 200 }), makeRow("c", { duration_ms: 4000 })],
+          "fail"
+        )
+      )
+    );
+    assert.equal(worse.verdict, "fail");
+    assert.deepEqual(worse.regressions.map((reason) => reason.code), [
+      "NEWLY_FAILING",
+      "PASS_RATE_DROP",
+      "TOKEN_BUDGET_EXCEEDED",
+      "LATENCY_BUDGET_EXCEEDED",
+      "ACCEPTANCE_FAILED",
+    ]);
+    assert.deepEqual(worse.regressions[0].scenario_ids, ["a"]);
+    assert.deepEqual(worse.metrics.pass_rate, { baseline: 1, current: 0.667 });
+
+    const lenient = evaluateGate(baseline, snapshotRun(path.join(root, "worse")), {
+      max_pass_rate_drop: 0.5,
+      max_token_increase: 1,
+      max_latency_increase: 2,
+    });
+    assert.deepEqual(lenient.regressions.map((reason) => reason.code), ["NEWLY_FAILING", "ACCEPTANCE_FAILED"]);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("snapshotRun leaves errored traces out of the token and latency means", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-gate-"));
+  try {
+    const baseline: BaselineRecord = {
+      ...snapshotRun(writeRun(root, "base", [makeRow("a"), makeRow("b")], "pass")),
+      pinned_at: "2026-02-07T00:00:00.000Z",
+    };
+    const errored = { status: "error" as const, passed: false, total_tokens: undefined, duration_ms: 0 };
+    const current = snapshotRun(
+      writeRun(
+        root,
+        "current",
+        [makeRow("a", { trial: 1 }), makeRow("a", { trial: 2, ...errored }), makeRow("b", { trial: 1, ...errored })],
+        "fail"
+      )
+    );
+    assert.deepEqual(current.scenarios, [
+      { id: "a", runs: 2, passed: 1, ok_runs: 1, mean_tokens: 100, mean_duration_ms: 1000 },
+      { id: "b", runs: 1, passed: 0, ok_runs: 0, mean_tokens: 0, mean_duration_ms: 0 },
+    ]);
+
+    const result = evaluateGate(baseline, current);
+    assert.deepEqual(result.metrics.mean_tokens, { baseline: 100, current: 100 });
+    assert.deepEqual(result.metrics.mean_duration_ms, { baseline: 1000, current: 1000 });
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("parseGateArgs reads thresholds and rejects bad values", () => {
+  const options = parseGateArgs(["run_1Z", "--max-token-increase", "0.1", "--baseline", "run_0Z"]);
+  assert.equal(options.runId, "run_1Z");
+  assert.equal(options.baselineRunId, "run_0Z");
+  assert.equal(options.thresholds.max_token_increase, 0.1);
+  assert.equal(options.thresholds.max_pass_rate_drop, 0.05);
+  assert.throws(() => parseGateArgs(["run_1Z", "--max-pass-rate-drop", "-1"]), /non-negative fraction/);
+  assert.throws(() => parseGateArgs([]), /Usage/);
+});
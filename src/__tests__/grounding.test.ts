@@ -0,0 +1,100 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkGrounding, extractNames, extractNumbers, meanGroundingScore } from "../grounding.js";
+import { summarizeTrace } from "../summary.js";
+import type { CapturedToolCall, Scenario, ScenarioResult, TraceArtifact } from "../types.js";
+
+const SCENARIO: Scenario = {
+  id: "standings_and_playoff_outlook",
+  prompt: "How am I doing in my league?",
+  description: "",
+  expected_tools: ["get_user_session", "get_standings"],
+  tags: [],
+};
+
+const STANDINGS_RESULT = JSON.stringify({
+  standings: [
+    { rank: 1, team_name: "Bronx Bombers", wins: 9, losses: 4, ties: 0 },
+    { rank: 2, team_name: "Diamond Kings", wins: 8, losses: 5, ties: 0 },
+  ],
+});
+
+function artifactWith(toolCalls: CapturedToolCall[], finalText: string): TraceArtifact {
+  return {
+    schema_version: "1.2",
+    run_id: "2026-02-07T02-28-06Z",
+    trace_id: "trace_standings_and_playoff_outlook_000",
+    scenario_id: SCENARIO.id,
+    timestamp_utc: "2026-02-07T02:28:06.000Z",
+    model: "gpt-5-mini",
+    prompt: SCENARIO.prompt,
+    instructions_file: null,
+    expected_tools: SCENARIO.expected_tools,
+    llm_response: {
+      response_id: "resp_1",
+      tool_calls: toolCalls,
+      final_text: finalText,
+      raw_output: [],
+      usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+    },
+    duration_ms: 10,
+    notes: [],
+  };
+}
+
+const STANDINGS_CALL: CapturedToolCall = {
+  tool_name: "get_standings",
+  args: {},
+  result_preview: "",
+  result_full: STANDINGS_RESULT,
+};
+
+test("extractNames keeps multi-word capitalized runs and drops headings and filler", () => {
+  const answer = "## Standings Summary\n**Your Bronx Bombers** lead. Start Ja’Marr Chase over Free Agents.";
+  assert.deepEqual(extractNames(answer), ["Bronx Bombers", "Ja'Marr Chase"]);
+});
+
+test("extractNumbers separates records from standalone numbers and skips list markers", () => {
+  assert.deepEqual(extractNumbers("1. Bronx Bombers 9-4, 41.2% owned in week 14\n2. Kings 8-5-1"), {
+    records: ["9-4", "8-5-1"],
+    numbers: ["41.2", "14"],
+  });
+});
+
+test("checkGrounding scores answers built from tool output", () => {
+  const result = checkGrounding(
+    SCENARIO,
+    artifactWith([STANDINGS_CALL], "You're in first: the Bronx Bombers are 9-4, one game ahead of the Diamond Kings (8-5).")
+  );
+  assert.deepEqual(result, { score: 1, entities: 4, ungrounded: [] });
+});
+
+test("checkGrounding flags invented names and numbers", () => {
+  const result = checkGrounding(
+    SCENARIO,
+    artifactWith([STANDINGS_CALL], "The Bronx Bombers are 10-3 with 112 points, ahead of the Gotham Giants.")
+  );
+  assert.deepEqual(result, {
+    score: 0.25,
+    entities: 4,
+    ungrounded: [
+      { kind: "name", text: "Gotham Giants" },
+      { kind: "record", text: "10-3" },
+      { kind: "number", text: "112" },
+    ],
+  });
+});
+
+test("checkGrounding skips traces without tool output", () => {
+  assert.equal(checkGrounding(SCENARIO, artifactWith([], "CBS isn't supported yet.")), null);
+});
+
+test("summarizeTrace records the grounding score and meanGroundingScore averages it", () => {
+  const grounded = summarizeTrace(SCENARIO, artifactWith([STANDINGS_CALL], "Bronx Bombers: 9-4."));
+  const invented = summarizeTrace(SCENARIO, artifactWith([STANDINGS_CALL], "Gotham Giants: 9-4."));
+  assert.equal(grounded.grounding_score, 1);
+  assert.deepEqual(invented.ungrounded_entities, [{ kind: "name", text: "Gotham Giants" }]);
+  const ungraded = { ...grounded, grounding_score: undefined } as ScenarioResult;
+  assert.equal(meanGroundingScore([grounded, invented, ungraded]), 0.75);
+  assert.equal(meanGroundingScore([ungraded]), null);
+});
@@ -0,0 +1,103 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildHtmlReport, buildTimeline, prettyResult, type HtmlReportInput } from "../html-report.js";
+import type { RunSummary, TraceArtifact } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+function makeTrace(traceId: string): TraceArtifact {
+  return {
+    schema_version: "1.2",
+    run_id: "2026-02-07T02-11-12Z",
+    trace_id: traceId,
+    scenario_id: "roster",
+    timestamp_utc: "2026-02-07T02:11:13.000Z",
+    model: "gpt-5-mini",
+    prompt: "Who is on my <roster>?",
+    instructions_file: "instructions/fantasy-analyst-v1.md",
+    expected_tools: ["get_roster"],
+    llm_response: {
+      response_id: "resp_1",
+      tool_calls: [
+        { tool_name: "get_roster", args: { platform: "espn" }, result_preview: "", result_full: '{"players":["A"]}' },
+      ],
+      final_text: "You have A.",
+      raw_output: [],
+      usage: { input_tokens: 100, output_tokens: 20, total_tokens: 120 },
+    },
+    duration_ms: 900,
+    server_logs: {
+      "espn-client": [
+        { timestamp: "2026-02-07T02:11:13.250Z", status: 502, wall_time_ms: 100, phase: "fetch", message: "upstream" },
+      ],
+      "fantasy-mcp": [{ timestamp: "2026-02-07T02:11:13.000Z", status: 200, wall_time_ms: 500, tool: "get_roster" }],
+    },
+    notes: [],
+  };
+}
+
+function makeInput(): HtmlReportInput {
+  const summary: RunSummary = {
+    run_id: "2026-02-07T02-11-12Z",
+    model: "gpt-5-mini",
+    total_scenarios: 2,
+    completed: 1,
+    errored: 1,
+    total_duration_ms: 900,
+    total_tokens: { input: 100, output: 20, total: 120 },
+    scenarios: [
+      makeRow("roster", { trace_id: "trace_roster_000" }),
+      makeRow("standings", { trace_id: "trace_standings_001", status: "error", tool_calls: [], error: "Connection error" }),
+    ],
+  };
+  return {
+    summary,
+    acceptance: {
+      final_status: "fail",
+      fail_reasons: [{ code: "RUN_HAS_ERRORS", message: "1 trace errored", trace_ids: ["trace_standings_001"] }],
+      warn_reasons: [],
+    },
+    traces: new Map([["trace_roster_000", makeTrace("trace_roster_000")]]),
+    tags: new Map([
+      ["roster", ["happy-path", "espn"]],
+      ["standings", ["sleeper"]],
+    ]),
+    instructions: new Map([["instructions/fantasy-analyst-v1.md", { text: "Be concise.", changed: true }]]),
+  };
+}
+
+test("buildTimeline puts every worker's events on one clock", () => {
+  const timeline = buildTimeline(makeTrace("t").server_logs);
+  assert.deepEqual(
+    timeline.map((entry) => [entry.worker, entry.offset_ms, entry.duration_ms]),
+    [
+      ["fantasy-mcp", 0, 500],
+      ["espn-client", 250, 100],
+    ]
+  );
+  assert.deepEqual(buildTimeline(undefined), []);
+});
+
+test("prettyResult indents JSON and leaves other text alone", () => {
+  assert.equal(prettyResult('{"a":1}'), '{\n  "a": 1\n}');
+  assert.equal(prettyResult("not json"), "not json");
+});
+
+test("buildHtmlReport renders traces with filters and acceptance links", () => {
+  const html = buildHtmlReport(makeInput());
+
+  assert.match(html, /<title>Flaim Eval Report: 2026-02-07T02-11-12Z<\/title>/);
+  assert.match(html, /<details class="trace" id="trace-trace_roster_000" data-status="passed" data-tags="happy-path espn">/);
+  assert.match(html, /<details class="trace" id="trace-trace_standings_001" data-status="error" data-tags="sleeper">/);
+  assert.match(html, /<option value="espn">espn<\/option><option value="happy-path">happy-path<\/option>/);
+  assert.match(html, /RUN_HAS_ERRORS<\/strong>: 1 trace errored \(<a href="#trace-trace_standings_001">/);
+
+  // Trace body: escaped prompt, instructions, pretty-printed args and result, answer, timeline.
+  assert.match(html, /Who is on my &lt;roster&gt;\?/);
+  assert.match(html, /instructions\/fantasy-analyst-v1\.md \(file changed since this run\)/);
+  assert.match(html, /&quot;platform&quot;: &quot;espn&quot;/);
+  assert.match(html, /&quot;players&quot;: \[\n\s+&quot;A&quot;/);
+  assert.match(html, /You have A\./);
+  assert.match(html, /<span class="bar error" style="left:50\.00%;width:20\.00%"/);
+  assert.match(html, /<pre>Connection error<\/pre>/);
+  assert.doesNotMatch(html, /<link |src="http/);
+});
@@ -0,0 +1,179 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildJudgePrompt,
+  createJudgeProvider,
+  gradeTrace,
+  judgeError,
+  loadRubric,
+  parseJudgeReply,
+  summarizeJudgeResults,
+  type JudgePrompt,
+  type JudgeProvider,
+} from "../judge.js";
+import type { Rubric, Scenario, TraceArtifact } from "../types.js";
+
+const RUBRIC: Rubric = {
+  id: "test-rubric",
+  description: "test",
+  pass_threshold: 0.7,
+  criteria: [
+    { id: "leads_with_answer", description: "Answer first." },
+    { id: "faithful_to_tool_results", description: "No invented facts.", weight: 3 },
+  ],
+};
+
+const SCENARIO: Scenario = {
+  id: "who_is_on_my_roster",
+  prompt: "Who is on my roster?",
+  description: "",
+  expected_tools: ["get_roster"],
+  tags: [],
+};
+
+const ARTIFACT: TraceArtifact = {
+  schema_version: "1.2",
+  run_id: "2026-02-07T02-28-06Z",
+  trace_id: "trace_who_is_on_my_roster_000",
+  scenario_id: SCENARIO.id,
+  timestamp_utc: "2026-02-07T02:28:06.000Z",
+  model: "gpt-5-mini",
+  prompt: SCENARIO.prompt,
+  instructions_file: null,
+  expected_tools: SCENARIO.expected_tools,
+  llm_response: {
+    response_id: "resp_1",
+    tool_calls: [
+      {
+        tool_name: "get_roster",
+        args: { platform: "espn" },
+        result_preview: "",
+        result_full: '{"players":[{"name":"Patrick Mahomes"}]}',
+      },
+    ],
+    final_text: "Your roster: Patrick Mahomes.",
+    raw_output: [],
+    usage: { input_tokens: 1, output_tokens: 1, total_tokens: 2 },
+  },
+  duration_ms: 10,
+  notes: [],
+};
+
+const JUDGE_USAGE = { input_tokens: 900, output_tokens: 60, total_tokens: 960 };
+
+function stubJudge(reply: string | Error): JudgeProvider & { prompts: JudgePrompt[] } {
+  const prompts: JudgePrompt[] = [];
+  return {
+    model: "stub-judge",
+    prompts,
+    async complete(prompt) {
+      prompts.push(prompt);
+      if (reply instanceof Error) throw reply;
+      return { text: reply, usage: JUDGE_USAGE };
+    },
+  };
+}
+
+test("buildJudgePrompt includes the conversation, tool results, answer and criteria", () => {
+  const { system, user } = buildJudgePrompt(RUBRIC, SCENARIO, ARTIFACT);
+  assert.match(system, /Reply with JSON only/);
+  assert.match(user, /User \(turn 1\): Who is on my roster\?/);
+  assert.match(user, /get_roster\(\{"platform":"espn"\}\)\n\{"players"/);
+  assert.match(user, /## Final answer\nYour roster: Patrick Mahomes\./);
+  assert.match(user, /- faithful_to_tool_results: No invented facts\./);
+});
+
+test("gradeTrace weights criterion scores and applies the pass threshold", async () => {
+  const judge = stubJudge(
+    '```json\n{"criteria":[{"id":"leads_with_answer","score":0.2,"rationale":"Buried."},' +
+      '{"id":"faithful_to_tool_results","score":1,"rationale":"Matches."}],"rationale":"Accurate."}\n```'
+  );
+  const result = await gradeTrace(judge, RUBRIC, SCENARIO, ARTIFACT);
+
+  assert.equal(judge.prompts.length, 1);
+  assert.equal(result.score, 0.8);
+  assert.equal(result.passed, true);
+  assert.equal(result.judge_model, "stub-judge");
+  assert.deepEqual(result.criteria[1], { id: "faithful_to_tool_results", score: 1, weight: 3, rationale: "Matches." });
+  assert.equal(result.rationale, "Accurate.");
+  assert.deepEqual(result.usage, JUDGE_USAGE);
+});
+
+test("gradeTrace records judge failures instead of throwing", async () => {
+  const missing = await gradeTrace(
+    stubJudge('{"criteria":[{"id":"leads_with_answer","score":1}]}'),
+    RUBRIC,
+    SCENARIO,
+    ARTIFACT
+  );
+  assert.equal(missing.score, null);
+  assert.match(missing.error ?? "", /missing a score for criterion faithful_to_tool_results/);
+  // The reply was paid for even though it could not be used.
+  assert.deepEqual(missing.usage, JUDGE_USAGE);
+
+  const failed = await gradeTrace(stubJudge(new Error("429 rate limited")), RUBRIC, SCENARIO, ARTIFACT);
+  assert.equal(failed.passed, null);
+  assert.equal(failed.error, "429 rate limited");
+  assert.equal("usage" in failed, false);
+});
+
+test("createJudgeProvider rejects unsupported judge specs", () => {
+  assert.throws(
+    () => createJudgeProvider("anthropic:claude-sonnet-4-5", { replay: true }),
+    /Anthropic judges are not supported/
+  );
+  assert.equal(createJudgeProvider("openai:gpt-5-mini", { replay: true }).model, "openai:gpt-5-mini");
+});
+
+test("judgeError records a judge that could not be built as an ungraded result", () => {
+  const result = judgeError("anthropic:claude-sonnet-4-5", RUBRIC, new Error("Anthropic judges are not supported"));
+  assert.equal(result.rubric_id, "test-rubric");
+  assert.equal(result.judge_model, "anthropic:claude-sonnet-4-5");
+  assert.equal(result.score, null);
+  assert.equal(result.passed, null);
+  assert.equal(result.error, "Anthropic judges are not supported");
+  assert.equal("usage" in result, false);
+});
+
+test("parseJudgeReply clamps out-of-range scores", () => {
+  const { criteria } = parseJudgeReply(
+    '{"criteria":[{"id":"leads_with_answer","score":7},{"id":"faithful_to_tool_results","score":"-1"}]}',
+    RUBRIC
+  );
+  assert.deepEqual(
+    criteria.map((criterion) => criterion.score),
+    [1, 0]
+  );
+});
+
+test("summarizeJudgeResults averages scored traces per criterion", async () => {
+  const good = await gradeTrace(
+    stubJudge('{"criteria":[{"id":"leads_with_answer","score":1},{"id":"faithful_to_tool_results","score":1}]}'),
+    RUBRIC,
+    SCENARIO,
+    ARTIFACT
+  );
+  const weak = await gradeTrace(
+    stubJudge('{"criteria":[{"id":"leads_with_answer","score":0},{"id":"faithful_to_tool_results","score":0.5}]}'),
+    RUBRIC,
+    SCENARIO,
+    ARTIFACT
+  );
+  const broken = await gradeTrace(stubJudge("not json"), RUBRIC, SCENARIO, ARTIFACT);
+
+  assert.deepEqual(summarizeJudgeResults("stub-judge", [good, weak, broken]), {
+    model: "stub-judge",
+    graded: 3,
+    errored: 1,
+    passed: 1,
+    mean_score: 0.688,
+    criteria: { leads_with_answer: 0.5, faithful_to_tool_results: 0.75 },
+  });
+});
+
+test("loadRubric reads the bundled fantasy analyst rubric", () => {
+  const rubric = loadRubric("fantasy-analyst-v1");
+  assert.equal(rubric.id, "fantasy-analyst-v1");
+  assert.ok(rubric.criteria.some((criterion) => criterion.id === "player_names_not_ids"));
+  assert.throws(() => loadRubric("missing-rubric"), /Rubric not found/);
+});
@@ -0,0 +1,159 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildMatrixComparisonMarkdown,
+  buildMatrixVariants,
+  childRunId,
+  resumeScenarios,
+  withInstructions,
+} from "../matrix.js";
+import { hashInstructionsFile } from "../scenarios.js";
+import type { MatrixManifest, RunManifest, RunSummary, ScenarioResult } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+function makeSummary(runId: string, rows: ScenarioResult[]): RunSummary {
+  return {
+    run_id: runId,
+    model: "m",
+    total_scenarios: rows.length,
+    completed: rows.length,
+    errored: 0,
+    total_duration_ms: 0,
+    total_tokens: { input: 0, output: 0, total: rows.reduce((sum, row) => sum + (row.total_tokens ?? 0), 0) },
+    scenarios: rows,
+  };
+}
+
+test("childRunId keeps the parent timestamp and trailing Z", () => {
+  assert.equal(childRunId("2026-02-07T02-11-12Z", 0), "2026-02-07T02-11-12-m1Z");
+  assert.equal(childRunId("2026-02-07T02-11-12Z", 11), "2026-02-07T02-11-12-m12Z");
+});
+
+test("buildMatrixVariants crosses models with efforts", () => {
+  const variants = buildMatrixVariants(
+    "2026-02-07T02-11-12Z",
+    { modelSpecs: ["gpt-5-mini", "anthropic:claude-sonnet-4-5"], efforts: ["low", "high"], instructions: [undefined] },
+    "openai"
+  );
+  assert.deepEqual(
+    variants.map((variant) => [variant.label, variant.run_id]),
+    [
+      ["gpt-5-mini@low", "2026-02-07T02-11-12-m1Z"],
+      ["gpt-5-mini@high", "2026-02-07T02-11-12-m2Z"],
+      ["anthropic:claude-sonnet-4-5@low", "2026-02-07T02-11-12-m3Z"],
+      ["anthropic:claude-sonnet-4-5@high", "2026-02-07T02-11-12-m4Z"],
+    ]
+  );
+  assert.equal(variants[2].provider, "anthropic");
+  assert.equal(variants[2].model, "claude-sonnet-4-5");
+
+  const plain = buildMatrixVariants(
+    "2026-02-07T02-11-12Z",
+    { modelSpecs: ["gpt-5-mini"], efforts: [undefined], instructions: [undefined] },
+    "openai"
+  );
+  assert.equal(plain[0].label, "gpt-5-mini");
+  assert.equal("reasoning_effort" in plain[0], false);
+});
+
+test("instruction variants hash their file and override scenario instructions", () => {
+  const [own, v1, none] = buildMatrixVariants(
+    "2026-02-07T02-11-12Z",
+    { modelSpecs: ["gpt-5-mini"], efforts: [undefined], instructions: [undefined, "instructions/fantasy-analyst-v1.md", "none"] },
+    "openai"
+  );
+  assert.equal(own.label, "gpt-5-mini");
+  assert.equal(v1.label, "gpt-5-mini [fantasy-analyst-v1]");
+  assert.match(v1.instructions_sha256 ?? "", /^[0-9a-f]{64}$/);
+  assert.equal(none.instructions, null);
+  assert.throws(
+    () => buildMatrixVariants("P", { modelSpecs: ["m"], efforts: [undefined], instructions: ["instructions/missing.md"] }, "openai"),
+    /Instructions file not found: instructions\/missing.md/
+  );
+
+  const scenario = { id: "s", description: "", tags: [], prompt: "p", expected_tools: [], instructions: "instructions/a.md" };
+  assert.deepEqual(withInstructions([scenario], undefined), [scenario]);
+  assert.equal(withInstructions([scenario], v1.instructions)[0].instructions, "instructions/fantasy-analyst-v1.md");
+  assert.equal("instructions" in withInstructions([scenario], null)[0], false);
+});
+
+test("resumeScenarios reapplies a variant's instructions and refuses changed files", () => {
+  const file = "instructions/fantasy-analyst-v1.md";
+  const manifest: RunManifest = {
+    run_id: "P-m2Z",
+    timestamp_utc: "2026-02-07T02:11:12.000Z",
+    model: "gpt-5-mini",
+    mcp_url: "http://localhost/mcp",
+    scenario_count: 2,
+    scenarios: ["standings", "roster"],
+    traces: [],
+    instructions_files: [file],
+    instructions_hashes: { [file]: hashInstructionsFile(file) as string },
+    parent_run_id: "P",
+    instructions_override: file,
+  };
+  const loaded = [
+    { id: "roster", description: "", tags: [], prompt: "p", expected_tools: [], instructions: "instructions/sleeper-public-direct.md" },
+    { id: "standings", description: "", tags: [], prompt: "p", expected_tools: [] },
+    { id: "unrelated", description: "", tags: [], prompt: "p", expected_tools: [] },
+  ];
+
+  const resumed = resumeScenarios(manifest, loaded);
+  assert.deepEqual(resumed.map((scenario) => [scenario.id, scenario.instructions]), [
+    ["standings", file],
+    ["roster", file],
+  ]);
+  assert.equal(
+    resumeScenarios({ ...manifest, instructions_override: null }, loaded).some((scenario) => "instructions" in scenario),
+    false
+  );
+  assert.equal(resumeScenarios({ ...manifest, instructions_override: undefined }, loaded)[1].instructions, loaded[0].instructions);
+
+  assert.throws(
+    () => resumeScenarios({ ...manifest, instructions_hashes: { [file]: "0".repeat(64) } }, loaded),
+    /Cannot resume P-m2Z: instructions changed since the run started: instructions\/fantasy-analyst-v1\.md/
+  );
+  assert.throws(() => resumeScenarios(manifest, loaded.slice(1)), /scenarios no longer exist: roster/);
+});
+
+test("buildMatrixComparisonMarkdown shows each variant side by side", () => {
+  const manifest: MatrixManifest = {
+    run_id: "P",
+    timestamp_utc: "2026-02-07T02:11:12.000Z",
+    scenarios: ["roster", "standings"],
+    variants: [
+      { label: "a", model: "a", provider: "openai", run_id: "P-m1Z" },
+      { label: "b", model: "b", provider: "openai", run_id: "P-m2Z" },
+      { label: "c", model: "c", provider: "openai", run_id: "P-m3Z" },
+    ],
+  };
+  const markdown = buildMatrixComparisonMarkdown(
+    manifest,
+    new Map([
+      [
+        "P-m1Z",
+        {
+          ...makeSummary("P-m1Z", [
+            makeRow("roster", { cost_usd: 0.00034 }),
+            makeRow("standings", { passed: false, total_tokens: 300, cost_usd: 0.012 }),
+          ]),
+          cost: { pricing_version: "2026-02-01", currency: "USD", total_usd: 0.01234, by_scenario: {} },
+        },
+      ],
+      [
+        "P-m2Z",
+        makeSummary("P-m2Z", [makeRow("roster", { status: "error", total_tokens: undefined }), makeRow("standings")]),
+      ],
+      ["P-m3Z", null],
+    ])
+  );
+
+  assert.match(markdown, /\| a \| P-m1Z \| 50% \(1\/2\) \| 9%–91% \| 0 \| 400 \| 200 \| 1000 \| 0\.0123 \|/);
+  assert.match(markdown, /\| b \| P-m2Z \| .* \| 1000 \| - \|/);
+  assert.match(markdown, /## Pass rate vs a\n/);
+  assert.match(markdown, /\| b \| 50% \(1\/2\) \| 0\.0 pts \| 1\.000 \| no \|/);
+  assert.match(markdown, /\| c \| P-m3Z \| incomplete \|/);
+  assert.match(markdown, /\| Scenario \| a \| b \| c \|/);
+  assert.match(markdown, /\| roster \| ✓ 1\/1 · 100 tok · \$0\.0003 · 1000ms \| error \(1\) \| not run \|/);
+  assert.match(markdown, /\| standings \| ✗ 0\/1 · 300 tok · \$0\.0120 · 1000ms \| ✓ 1\/1 · 100 tok · - · 1000ms \| not run \|/);
+});
@@ -0,0 +1,86 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { fetchWorkerLogs } from "../cloudflare-logs.js";
+import { buildMcpHeaders } from "../runner.js";
+import { callMockTool, createMockFlaimServer, loadMockFixtures } from "../mock-server.js";
+
+const RUN_ID = "2026-02-07T02-11-12Z";
+const TRACE_ID = "trace_who_is_on_my_roster_000_02_07t02_11_12z";
+
+async function rpc(baseUrl: string, method: string, params: Record<string, unknown> = {}, headers = buildMcpHeaders("mock", RUN_ID, TRACE_ID)) {
+  const response = await fetch(`${baseUrl}/mcp`, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  return { status: response.status, body: (await response.json()) as { result?: Record<string, unknown>; error?: { code: number; message: string } } };
+}
+
+test("callMockTool serves fixtures and mirrors gateway error codes", () => {
+  const fixtures = loadMockFixtures();
+
+  const roster = callMockTool(fixtures, "get_roster", {
+    platform: "sleeper",
+    sport: "basketball",
+    league_id: "1284871999146979328",
+  });
+  assert.equal(roster.ok, true);
+
+  const matchups = callMockTool(fixtures, "get_matchups", {
+    platform: "sleeper",
+    sport: "basketball",
+    league_id: "1284871999146979328",
+    week: 5,
+  });
+  assert.ok(matchups.ok && (matchups.data as { matchups: unknown[] }).matchups.length === 1);
+
+  const basketball = callMockTool(fixtures, "get_standings", { platform: "espn", sport: "basketball", league_id: "30201" });
+  assert.deepEqual(basketball.ok ? null : basketball.code, "NOT_SUPPORTED");
+
+  const cbs = callMockTool(fixtures, "get_roster", { platform: "cbs", sport: "football", league_id: "1" });
+  assert.deepEqual(cbs.ok ? null : cbs.code, "UNSUPPORTED_PLATFORM");
+});
+
+test("mock server speaks MCP and exposes trace-tagged telemetry", async (t) => {
+  const mock = createMockFlaimServer({ log: () => {} });
+  const baseUrl = await mock.listen(0);
+  t.after(() => mock.close());
+
+  const init = await rpc(baseUrl, "initialize");
+  assert.equal((init.body.result?.serverInfo as { name: string }).name, "flaim-mock");
+
+  const list = await rpc(baseUrl, "tools/list");
+  assert.ok((list.body.result?.tools as Array<{ name: string }>).some((tool) => tool.name === "get_free_agents"));
+
+  const unauthorized = await rpc(baseUrl, "tools/list", {}, { ...buildMcpHeaders("x", RUN_ID, TRACE_ID), Authorization: "" });
+  assert.equal(unauthorized.status, 401);
+
+  const session = await rpc(baseUrl, "tools/call", { name: "get_user_session", arguments: {} });
+  const sessionResult = session.body.result as { isError: boolean; content: Array<{ text: string }> };
+  assert.equal(sessionResult.isError, false);
+  assert.match(sessionResult.content[0].text, /Sunday Sluggers/);
+
+  await rpc(baseUrl, "tools/call", {
+    name: "get_roster",
+    arguments: { platform: "espn", sport: "baseball", league_id: "30201" },
+  });
+
+  const now = new Date();
+  const logs = await fetchWorkerLogs(now, now, RUN_ID, TRACE_ID, {
+    accountId: "mock",
+    apiToken: "mock",
+    apiBaseUrl: `${baseUrl}/client/v4`,
+  });
+
+  assert.deepEqual(Object.keys(logs).sort(), ["auth-worker", "espn-client", "fantasy-mcp"]);
+  assert.equal(logs["fantasy-mcp"].length, 4);
+  assert.ok(logs["espn-client"].every((event) => event.trace_id === TRACE_ID && event.run_id === RUN_ID));
+  assert.equal(logs["espn-client"][0].phase, "platform_fetch");
+
+  const otherTrace = await fetchWorkerLogs(now, now, RUN_ID, "trace_other_001", {
+    accountId: "mock",
+    apiToken: "mock",
+    apiBaseUrl: `${baseUrl}/client/v4`,
+  });
+  assert.deepEqual(otherTrace, {});
+});
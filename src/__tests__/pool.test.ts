@@ -0,0 +1,43 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { runWithConcurrency } from "../pool.js";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+test("runWithConcurrency caps in-flight tasks and preserves input order", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const started: number[] = [];
+
+  const results = await runWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+    started.push(index);
+    inFlight += 1;
+    peak = Math.max(peak, inFlight);
+    await delay(ms);
+    inFlight -= 1;
+    return `done-${index}`;
+  });
+
+  assert.equal(peak, 2);
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  assert.deepEqual(results, ["done-0", "done-1", "done-2", "done-3", "done-4"]);
+});
+
+test("runWithConcurrency stops starting tasks after a failure", async () => {
+  const started: number[] = [];
+  await assert.rejects(
+    runWithConcurrency([0, 1, 2, 3], 1, async (item) => {
+      started.push(item);
+      if (item === 1) throw new Error("boom");
+      return item;
+    }),
+    /boom/
+  );
+  assert.deepEqual(started, [0, 1]);
+});
+
+test("runWithConcurrency handles empty input", async () => {
+  assert.deepEqual(await runWithConcurrency([], 4, async () => 1), []);
+});
@@ -0,0 +1,119 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  computeCost,
+  createCostBudget,
+  findModelPrice,
+  loadPricingTable,
+  priceTrace,
+  summarizeCost,
+} from "../pricing.js";
+import type { PricingTable, ScenarioResult, TraceArtifact } from "../types.js";
+
+const TABLE: PricingTable = {
+  version: "test-1",
+  currency: "USD",
+  models: {
+    "gpt-5-mini": { input: 0.25, cached_input: 0.025, output: 2 },
+    "claude-sonnet-4-5": { input: 3, output: 15 },
+  },
+};
+
+function makeRow(id: string, costUsd?: number): ScenarioResult {
+  return {
+    id,
+    trace_id: `trace_${id}`,
+    status: costUsd === undefined ? "error" : "ok",
+    tool_calls: [],
+    expected_tools: [],
+    tools_match: true,
+    expected_tools_hit: true,
+    duration_ms: 0,
+    ...(costUsd !== undefined ? { cost_usd: costUsd } : {}),
+  };
+}
+
+test("loadPricingTable reads the repo table and rejects malformed ones", () => {
+  const table = loadPricingTable();
+  assert.equal(table.currency, "USD");
+  assert.ok(findModelPrice(table, "gpt-5-mini-2025-08-07"));
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-pricing-"));
+  try {
+    const bad = path.join(dir, "pricing.json");
+    fs.writeFileSync(bad, JSON.stringify({ version: "x", currency: "USD", models: { m: { input: -1, output: 1 } } }));
+    assert.throws(() => loadPricingTable(bad), /rates for m must be non-negative numbers/);
+    assert.throws(() => loadPricingTable(path.join(dir, "missing.json")), /Pricing table not found/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("findModelPrice falls back to the model id without its snapshot date", () => {
+  assert.equal(findModelPrice(TABLE, "gpt-5-mini"), TABLE.models["gpt-5-mini"]);
+  assert.equal(findModelPrice(TABLE, "gpt-5-mini-2025-08-07"), TABLE.models["gpt-5-mini"]);
+  assert.equal(findModelPrice(TABLE, "claude-sonnet-4-5-20250929"), TABLE.models["claude-sonnet-4-5"]);
+  assert.equal(findModelPrice(TABLE, "gpt-5"), null);
+});
+
+test("computeCost bills cached input and reasoning tokens", () => {
+  const price = TABLE.models["gpt-5-mini"];
+  // 600k fresh input, 400k cached, 1M output of which half is reasoning (billed as output).
+  const usage = {
+    input_tokens: 1_000_000,
+    output_tokens: 1_000_000,
+    total_tokens: 2_000_000,
+    cached_input_tokens: 400_000,
+    reasoning_tokens: 500_000,
+  };
+  assert.equal(computeCost(usage, price), 2.16);
+  assert.equal(computeCost(usage, { ...price, reasoning: 4 }), 3.16);
+  // Without a cached rate, cached input costs the same as fresh input.
+  assert.equal(computeCost(usage, TABLE.models["claude-sonnet-4-5"]), 18);
+  assert.equal(computeCost({ input_tokens: 1200, output_tokens: 300, total_tokens: 1500 }, price), 0.0009);
+});
+
+test("priceTrace adds the judge call at the judge model's price", () => {
+  const artifact = {
+    llm_response: { usage: { input_tokens: 4000, output_tokens: 500, total_tokens: 4500 } },
+    judge: { usage: { input_tokens: 1000, output_tokens: 100, total_tokens: 1100 } },
+  } as TraceArtifact;
+  const model = TABLE.models["gpt-5-mini"];
+  const judge = TABLE.models["claude-sonnet-4-5"];
+
+  assert.deepEqual(priceTrace(artifact, model, judge), { cost_usd: 0.0065, judge_cost_usd: 0.0045 });
+  assert.deepEqual(priceTrace(artifact, model, null), { cost_usd: 0.002 });
+  assert.deepEqual(priceTrace({ ...artifact, judge: undefined }, model, judge), { cost_usd: 0.002 });
+  assert.deepEqual(priceTrace(artifact, null, judge), {});
+});
+
+test("summarizeCost totals per scenario and per run", () => {
+  const cost = summarizeCost(TABLE, [makeRow("roster", 0.001), makeRow("roster", 0.002), makeRow("standings")]);
+  assert.deepEqual(cost, {
+    pricing_version: "test-1",
+    currency: "USD",
+    total_usd: 0.003,
+    by_scenario: { roster: 0.003, standings: 0 },
+  });
+
+  const judged = summarizeCost(TABLE, [{ ...makeRow("roster", 0.0065), judge_cost_usd: 0.0045 }, makeRow("roster", 0.002)]);
+  assert.equal(judged.total_usd, 0.0085);
+  assert.equal(judged.judge_usd, 0.0045);
+});
+
+test("createCostBudget stops before the projected spend exceeds the budget", () => {
+  const budget = createCostBudget(0.05);
+  budget.add(0.01);
+  assert.equal(budget.tryStart(), true);
+  assert.equal(budget.tryStart(), true);
+  budget.finish(0.02);
+  // Spent 0.03, one trace in flight: another at 0.02 each would reach 0.07.
+  assert.equal(budget.tryStart(), false);
+  assert.equal(budget.exhausted(), true);
+  budget.finish(0.01);
+  assert.equal(budget.tryStart(), false);
+  assert.equal(budget.spent(), 0.04);
+});
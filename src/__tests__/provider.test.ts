@@ -0,0 +1,308 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseModelSpec } from "../provider.js";
+import { toLlmResponse } from "../provider-anthropic.js";
+import { createChatCompletionsProvider } from "../provider-chat.js";
+import { createMockFlaimServer } from "../mock-server.js";
+import { buildMcpHeaders } from "../runner.js";
+
+test("parseModelSpec splits known provider prefixes only", () => {
+  assert.deepEqual(parseModelSpec("anthropic:claude-sonnet-4-5"), {
+    provider: "anthropic",
+    model: "claude-sonnet-4-5",
+  });
+  assert.deepEqual(parseModelSpec("gpt-5-mini", "chat"), { provider: "chat", model: "gpt-5-mini" });
+  assert.deepEqual(parseModelSpec("ft:gpt-4o:org:abc"), { provider: "openai", model: "ft:gpt-4o:org:abc" });
+});
+
+test("anthropic responses map MCP tool blocks into captured tool calls", () => {
+  const response = toLlmResponse({
+    id: "msg_1",
+    content: [
+      { type: "mcp_tool_use", id: "t1", name: "get_user_session", server_name: "flaim", input: {} },
+      { type: "mcp_tool_result", tool_use_id: "t1", content: [{ type: "text", text: "{\"leagues\":[]}" }] },
+      { type: "text", text: "You have no leagues." },
+    ],
+    usage: { input_tokens: 10, output_tokens: 4 },
+  });
+
+  assert.equal(response.response_id, "msg_1");
+  assert.deepEqual(response.tool_calls.map((c) => c.tool_name), ["get_user_session"]);
+  assert.equal(response.tool_calls[0].result_full, "{\"leagues\":[]}");
+  assert.equal(response.final_text, "You have no leagues.");
+  assert.equal(response.usage.total_tokens, 14);
+});
+
+test("chat provider executes tool calls through the MCP server", async (t) => {
+  const mock = createMockFlaimServer({ log: () => {} });
+  const baseUrl = await mock.listen(0);
+  t.after(() => mock.close());
+
+  let round = 0;
+  const efforts: unknown[] = [];
+  const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("/chat/completions")) {
+      return fetch(input, init);
+    }
+    round += 1;
+    efforts.push(JSON.parse(String(init?.body)).reasoning_effort);
+    const message =
+      round === 1
+        ? {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: {
+                  name: "get_standings",
+                  arguments: JSON.stringify({ platform: "sleeper", sport: "football", league_id: "1180208192901685248" }),
+                },
+              },
+            ],
+          }
+        : { role: "assistant", content: "Public Fixture Team leads at 5-1." };
+    return Response.json({
+      id: `chatcmpl_${round}`,
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, finish_reason: round === 1 ? "tool_calls" : "stop", message }],
+      usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+    });
+  }) as typeof fetch;
+
+  const prevKey = process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY = "test";
+  t.after(() => {
+    process.env.OPENAI_API_KEY = prevKey;
+  });
+
+  const provider = createChatCompletionsProvider({ fetch: fakeFetch });
+  const response = await provider.respond({
+    model: "m",
+    instructions: null,
+    prompt: "standings?",
+    reasoningEffort: "low",
+    mcp: {
+      url: `${baseUrl}/mcp`,
+      label: "flaim",
+      accessToken: "mock",
+      headers: buildMcpHeaders("mock", "2026-02-07T02-11-12Z", "trace_chat_000"),
+    },
+  });
+
+  assert.deepEqual(response.tool_calls.map((c) => c.tool_name), ["get_standings"]);
+  assert.match(response.tool_calls[0].result_full, /Public Fixture Team/);
+  assert.equal(response.final_text, "Public Fixture Team leads at 5-1.");
+  assert.deepEqual(response.usage, { input_tokens: 10, output_tokens: 6, total_tokens: 16 });
+  assert.deepEqual(efforts, ["low", "low"]);
+  assert.ok(mock.events.some((e) => e.$metadata.traceId === "trace_chat_000" && e.$metadata.service === "sleeper-client"));
+});
+
+test("chat provider returns malformed tool args to the model and flags an exhausted tool loop", async (t) => {
+  const mock = createMockFlaimServer({ log: () => {} });
+  const baseUrl = await mock.listen(0);
+  t.after(() => mock.close());
+
+  let round = 0;
+  const toolReplies: unknown[] = [];
+  const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("/chat/completions")) {
+      return fetch(input, init);
+    }
+    round += 1;
+    const body = JSON.parse(String(init?.body)) as { messages: Array<{ role: string }> };
+    toolReplies.push(body.messages.at(-1));
+    // Round 1 sends truncated JSON; every later round keeps calling tools.
+    const args = round === 1 ? '{"platform": "sleeper", ' : JSON.stringify({ platform: "sleeper", sport: "football" });
+    return Response.json({
+      id: `chatcmpl_${round}`,
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [
+        {
+          index: 0,
+          finish_reason: "tool_calls",
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [{ id: `call_${round}`, type: "function", function: { name: "get_user_session", arguments: args } }],
+          },
+        },
+      ],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    });
+  }) as typeof fetch;
+
+  const prevKey = process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY = "test";
+  t.after(() => {
+    process.env.OPENAI_API_KEY = prevKey;
+  });
+
+  const provider = createChatCompletionsProvider({ fetch: fakeFetch });
+  const response = await provider.respond({
+    model: "m",
+    instructions: null,
+    prompt: "who am I?",
+    mcp: {
+      url: `${baseUrl}/mcp`,
+      label: "flaim",
+      accessToken: "mock",
+      headers: buildMcpHeaders("mock", "2026-02-07T02-11-12Z", "trace_chat_001"),
+    },
+  });
+
+  const [firstTool] = response.raw_output.filter((entry) => (entry as { role?: string }).role === "tool");
+  assert.equal((firstTool as { is_error?: boolean }).is_error, true);
+  assert.match((firstTool as { content: string }).content, /^Invalid JSON in arguments for get_user_session: /);
+  assert.deepEqual(response.tool_calls[0].args, {});
+  assert.match(String((toolReplies[1] as { content?: string }).content), /^Invalid JSON/);
+
+  assert.equal(round, 8);
+  assert.equal(response.tool_calls.length, 8);
+  assert.equal(response.final_text, "");
+  assert.equal(response.tool_rounds_exhausted, true);
+});
+
+test("chat provider replays earlier chat turns and rejects foreign history entries", async (t) => {
+  const mock = createMockFlaimServer({ log: () => {} });
+  const baseUrl = await mock.listen(0);
+  t.after(() => mock.close());
+
+  const sent: unknown[] = [];
+  const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("/chat/completions")) {
+      return fetch(input, init);
+    }
+    sent.push(...(JSON.parse(String(init?.body)) as { messages: unknown[] }).messages);
+    return Response.json({
+      id: "chatcmpl_2",
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "Still 5-1." } }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    });
+  }) as typeof fetch;
+
+  const prevKey = process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY = "test";
+  t.after(() => {
+    process.env.OPENAI_API_KEY = prevKey;
+  });
+
+  const earlier = (rawOutput: unknown[]) => ({
+    prompt: "standings?",
+    response: {
+      response_id: "chatcmpl_1",
+      tool_calls: [],
+      final_text: "",
+      raw_output: rawOutput,
+      usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+    },
+  });
+  const request = {
+    model: "m",
+    instructions: null,
+    prompt: "and now?",
+    mcp: {
+      url: `${baseUrl}/mcp`,
+      label: "flaim",
+      accessToken: "mock",
+      headers: buildMcpHeaders("mock", "2026-02-07T02-11-12Z", "trace_chat_002"),
+    },
+  };
+  const toolCall = { id: "call_1", type: "function", function: { name: "get_standings", arguments: "{}" } };
+
+  const provider = createChatCompletionsProvider({ fetch: fakeFetch });
+  await provider.respond({
+    ...request,
+    history: [
+      earlier([
+        { role: "assistant", content: null, tool_calls: [toolCall] },
+        { role: "tool", tool_call_id: "call_1", content: "{}", is_error: false },
+      ]),
+    ],
+  });
+  assert.deepEqual(sent, [
+    { role: "user", content: "standings?" },
+    { role: "assistant", content: null, tool_calls: [toolCall] },
+    { role: "tool", tool_call_id: "call_1", content: "{}" },
+    { role: "user", content: "and now?" },
+  ]);
+
+  await assert.rejects(
+    provider.respond({ ...request, history: [earlier([{ type: "mcp_tool_use", id: "t1" }])] }),
+    /Unexpected chat history entry/
+  );
+});
+
+test("chat provider returns JSON-RPC tool errors to the model", async (t) => {
+  const mock = createMockFlaimServer({ log: () => {} });
+  const baseUrl = await mock.listen(0);
+  t.after(() => mock.close());
+
+  let round = 0;
+  const fakeFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (!url.includes("/chat/completions")) {
+      const rpc = JSON.parse(String(init?.body ?? "{}")) as { id?: number; method?: string; params?: { name?: string } };
+      if (rpc.method === "tools/call" && rpc.params?.name === "get_trade_value") {
+        return Response.json({ jsonrpc: "2.0", id: rpc.id, error: { code: -32602, message: "Unknown tool: get_trade_value" } });
+      }
+      return fetch(input, init);
+    }
+    round += 1;
+    const message =
+      round === 1
+        ? {
+            role: "assistant",
+            content: null,
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "get_trade_value", arguments: "{}" } }],
+          }
+        : { role: "assistant", content: "I cannot value trades." };
+    return Response.json({
+      id: `chatcmpl_${round}`,
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, finish_reason: round === 1 ? "tool_calls" : "stop", message }],
+      usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+    });
+  }) as typeof fetch;
+
+  const prevKey = process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY = "test";
+  t.after(() => {
+    process.env.OPENAI_API_KEY = prevKey;
+  });
+
+  const provider = createChatCompletionsProvider({ fetch: fakeFetch });
+  const response = await provider.respond({
+    model: "m",
+    instructions: null,
+    prompt: "what is my RB worth?",
+    mcp: {
+      url: `${baseUrl}/mcp`,
+      label: "flaim",
+      accessToken: "mock",
+      headers: buildMcpHeaders("mock", "2026-02-07T02-11-12Z", "trace_chat_003"),
+    },
+  });
+
+  const toolEntry = response.raw_output.find((entry) => (entry as { role?: string }).role === "tool") as {
+    content: string;
+    is_error: boolean;
+  };
+  assert.equal(toolEntry.is_error, true);
+  assert.match(toolEntry.content, /^Tool call get_trade_value failed: .*Unknown tool: get_trade_value/);
+  assert.deepEqual(response.tool_calls.map((call) => call.tool_name), ["get_trade_value"]);
+  assert.equal(response.final_text, "I cannot value trades.");
+});
@@ -3,6 +3,7 @@ import assert from "node:assert/strict";
 import fs from "node:fs";
 import path from "node:path";
 import { runCli } from "../report.js";
+import { aggregateTrials } from "../stats.js";
 import type { RunSummary, TraceArtifact } from "../types.js";
 
 const RUNS_ROOT = path.resolve(import.meta.dirname, "../../runs");
@@ -133,6 +134,8 @@ test("report writes markdown with acceptance details", async () => {
   assert.match(report, /scenario_one/);
   assert.match(report, /trace_scenario_one_000_scope/);
   assert.match(report, /Final status: PASS/);
+  const html = fs.readFileSync(path.join(runDir, "report.html"), "utf8");
+  assert.match(html, /id="trace-trace_scenario_one_000_scope" data-status="passed"/);
 
   fs.rmSync(runDir, { recursive: true, force: true });
 });
@@ -161,3 +164,141 @@ test("report handles missing acceptance-summary", async () => {
 
   fs.rmSync(runDir, { recursive: true, force: true });
 });
+
+test("report includes trial statistics and flags flaky scenarios", async () => {
+  const runId = `test-report-trials-${Date.now()}`;
+  const runDir = path.join(RUNS_ROOT, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+
+  const summary = writeSummary(runDir, runId, "trace_scenario_one_000_scope");
+  const failedTrial = {
+    ...summary.scenarios[0],
+    trace_id: "trace_scenario_one_001_scope",
+    tool_calls: [],
+    tools_match: false,
+    expected_tools_hit: false,
+  };
+  summary.scenarios = [{ ...summary.scenarios[0], trial: 1 }, { ...failedTrial, trial: 2 }];
+  summary.trials = 2;
+  summary.scenario_stats = aggregateTrials(summary.scenarios);
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary, null, 2));
+
+  const prevArgv = [...process.argv];
+  process.argv = [process.argv[0] || "node", "report.ts", runId];
+  try {
+    await runCli();
+  } finally {
+    process.argv = prevArgv;
+  }
+
+  const report = fs.readFileSync(path.join(runDir, "report.md"), "utf8");
+  assert.match(report, /Trials per scenario: 2 \(flaky scenarios: 1\)/);
+  assert.match(report, /## Trial Statistics/);
+  assert.match(report, /\| scenario_one \| 1\/2 \| 50\.0% \| 50\.0% \| 100\.0% \|/);
+  assert.match(report, /### Flaky Scenarios/);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
+
+test("report lists argument mismatches from expected_calls", async () => {
+  const runId = `test-report-args-${Date.now()}`;
+  const runDir = path.join(RUNS_ROOT, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+
+  const summary = writeSummary(runDir, runId, "trace_scenario_one_000_scope");
+  summary.scenarios[0] = {
+    ...summary.scenarios[0],
+    args_match: false,
+    passed: false,
+    arg_checks: [
+      {
+        tool: "get_user_session",
+        passed: false,
+        call_index: 0,
+        mismatches: [{ arg: "platform", expected: '"sleeper"', actual: "espn" }],
+      },
+    ],
+  };
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary, null, 2));
+
+  const prevArgv = [...process.argv];
+  process.argv = [process.argv[0] || "node", "report.ts", runId];
+  try {
+    await runCli();
+  } finally {
+    process.argv = prevArgv;
+  }
+
+  const report = fs.readFileSync(path.join(runDir, "report.md"), "utf8");
+  assert.match(report, /Overall pass count: 0\/1/);
+  assert.match(report, /## Argument Mismatches/);
+  assert.match(report, /\| get_user_session \| platform \| "sleeper" \| "espn" \|/);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
+
+test("report shows run cost and per-scenario cost", async () => {
+  const runId = `test-report-cost-${Date.now()}`;
+  const runDir = path.join(RUNS_ROOT, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+
+  const summary = writeSummary(runDir, runId, "trace_scenario_one_000_scope");
+  summary.scenarios[0].cost_usd = 0.00123;
+  summary.cost = {
+    pricing_version: "2026-02-01",
+    currency: "USD",
+    total_usd: 0.00123,
+    by_scenario: { scenario_one: 0.00123 },
+    max_cost_usd: 1,
+  };
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary, null, 2));
+
+  const prevArgv = [...process.argv];
+  process.argv = [process.argv[0] || "node", "report.ts", runId];
+  try {
+    await runCli();
+  } finally {
+    process.argv = prevArgv;
+  }
+
+  const report = fs.readFileSync(path.join(runDir, "report.md"), "utf8");
+  assert.match(report, /- Cost: \$0\.0012 \(pricing 2026-02-01\)/);
+  assert.match(report, /## Cost/);
+  assert.match(report, /Budget \(--max-cost\): \$1; traces not run: 0/);
+  assert.match(report, /\| scenario_one \| 1 \| 0\.001230 \| 0\.001230 \|/);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
+
+test("report splits judge calls out of the cost", async () => {
+  const runId = `test-report-judge-cost-${Date.now()}`;
+  const runDir = path.join(RUNS_ROOT, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+
+  const summary = writeSummary(runDir, runId, "trace_scenario_one_000_scope");
+  summary.scenarios[0].cost_usd = 0.0065;
+  summary.scenarios[0].judge_cost_usd = 0.0045;
+  summary.cost = {
+    pricing_version: "2026-02-01",
+    currency: "USD",
+    total_usd: 0.0065,
+    by_scenario: { scenario_one: 0.0065 },
+    judge_usd: 0.0045,
+  };
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary, null, 2));
+
+  const prevArgv = [...process.argv];
+  process.argv = [process.argv[0] || "node", "report.ts", runId];
+  try {
+    await runCli();
+  } finally {
+    process.argv = prevArgv;
+  }
+
+  const report = fs.readFileSync(path.join(runDir, "report.md"), "utf8");
+  assert.match(report, /- Cost: \$0\.0065 \(pricing 2026-02-01, of which judge \$0\.0045\)/);
+  assert.match(report, /- Judge calls: \$0\.004500 of the \$0\.006500 total/);
+  assert.match(report, /\| scenario_one \| 1 \| 0\.006500 \| 0\.006500 \| 0\.004500 \|/);
+
+  fs.rmSync(runDir, { recursive: true, force: true });
+});
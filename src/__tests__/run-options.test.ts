@@ -0,0 +1,71 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseRunArgs } from "../run-options.js";
+
+test("parseRunArgs collects scenario ids and cassette flags", () => {
+  assert.deepEqual(parseRunArgs(["who_is_on_my_roster", "--record"]), {
+    scenarioIds: ["who_is_on_my_roster"],
+    record: true,
+    replayRunId: null,
+    provider: null,
+    trials: null,
+    concurrency: null,
+    enrichment: null,
+    judge: false,
+    tags: null,
+    excludeTags: null,
+    rerunFailedRunId: null,
+    resumeRunId: null,
+    models: null,
+    reasoningEfforts: null,
+    instructionVariants: null,
+    maxCost: null,
+  });
+
+  const replay = parseRunArgs(["--replay", "2026-02-07T02-11-12Z"]);
+  assert.equal(replay.replayRunId, "2026-02-07T02-11-12Z");
+  assert.deepEqual(replay.scenarioIds, []);
+
+  assert.equal(parseRunArgs(["--provider", "anthropic"]).provider, "anthropic");
+  assert.equal(parseRunArgs(["--trials", "5"]).trials, 5);
+  assert.equal(parseRunArgs(["--concurrency", "4"]).concurrency, 4);
+  assert.equal(parseRunArgs(["--enrichment", "deferred"]).enrichment, "deferred");
+  assert.equal(parseRunArgs(["--judge"]).judge, true);
+
+  const selection = parseRunArgs(["sleeper_public_*", "--tags", "happy-path and sleeper", "--exclude-tags", "adversarial"]);
+  assert.deepEqual(selection.scenarioIds, ["sleeper_public_*"]);
+  assert.equal(selection.tags, "happy-path and sleeper");
+  assert.equal(selection.excludeTags, "adversarial");
+  assert.equal(parseRunArgs(["--rerun-failed", "2026-02-07T02-11-12Z"]).rerunFailedRunId, "2026-02-07T02-11-12Z");
+});
+
+test("parseRunArgs rejects unknown flags, missing values and conflicting modes", () => {
+  assert.throws(() => parseRunArgs(["--bogus"]), /Unknown option: --bogus/);
+  assert.throws(() => parseRunArgs(["--replay"]), /--replay requires a value/);
+  assert.throws(() => parseRunArgs(["--record", "--replay", "x"]), /cannot be combined/);
+  assert.throws(() => parseRunArgs(["--rerun-failed", "x", "--replay", "y"]), /--rerun-failed and --replay cannot be combined/);
+  assert.equal(parseRunArgs(["--resume", "x", "--concurrency", "4"]).resumeRunId, "x");
+  assert.throws(() => parseRunArgs(["--resume", "x", "--trials", "3"]), /only --concurrency and --max-cost can be combined/);
+  assert.throws(() => parseRunArgs(["--resume", "x", "who_is_on_my_roster"]), /only --concurrency and --max-cost can be combined/);
+  assert.throws(() => parseRunArgs(["--provider", "gemini"]), /Unknown provider: gemini/);
+  assert.throws(() => parseRunArgs(["--trials", "0"]), /positive integer/);
+  assert.throws(() => parseRunArgs(["--trials", "2.5"]), /positive integer/);
+  assert.throws(() => parseRunArgs(["--concurrency", "0"]), /--concurrency must be a positive integer/);
+  assert.throws(() => parseRunArgs(["--enrichment", "later"]), /Unknown enrichment mode: later/);
+  assert.equal(parseRunArgs(["--max-cost", "0.5"]).maxCost, 0.5);
+  assert.equal(parseRunArgs(["--resume", "x", "--max-cost", "2"]).maxCost, 2);
+  assert.throws(() => parseRunArgs(["--max-cost", "0"]), /--max-cost must be a positive number/);
+});
+
+test("parseRunArgs reads matrix models and reasoning efforts", () => {
+  const options = parseRunArgs(["--models", "gpt-5-mini, anthropic:claude-sonnet-4-5,gpt-5-mini", "--reasoning-effort", "low,high"]);
+  assert.deepEqual(options.models, ["gpt-5-mini", "anthropic:claude-sonnet-4-5"]);
+  assert.deepEqual(options.reasoningEfforts, ["low", "high"]);
+  assert.deepEqual(parseRunArgs(["--reasoning-effort", "minimal"]).reasoningEfforts, ["minimal"]);
+  assert.throws(() => parseRunArgs(["--reasoning-effort", "max"]), /Unknown reasoning effort: max/);
+  assert.throws(() => parseRunArgs(["--models", ","]), /requires at least one value/);
+  assert.throws(() => parseRunArgs(["--models", "a,b", "--replay", "x"]), /cannot be combined with --replay/);
+  assert.throws(() => parseRunArgs(["--resume", "x", "--models", "a"]), /only --concurrency and --max-cost can be combined/);
+  assert.deepEqual(parseRunArgs(["--instructions", "instructions/a.md,none"]).instructionVariants, ["instructions/a.md", "none"]);
+  assert.throws(() => parseRunArgs(["--instructions", "none", "--replay", "x"]), /cannot be combined with --replay/);
+});
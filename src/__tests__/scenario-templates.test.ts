@@ -0,0 +1,82 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { expandScenarioTemplate, isScenarioTemplate } from "../scenario-templates.js";
+
+const TEMPLATE = {
+  template: {
+    prompt: "Use {{tool.name}} for {{league.sport}} league {{league.league_id}}{{tool.extra_params}}.",
+    description: "{{league.id}} {{tool.id}}",
+    expected_tools: ["{{tool.name}}"],
+    expected_calls: [
+      {
+        tool: "{{tool.name}}",
+        args: { $merge: "{{tool.extra_args}}", sport: "{{league.sport}}", season_year: "{{season}}" },
+      },
+    ],
+    tags: ["{{league.sport}}"],
+  },
+  matrix: {
+    league: [
+      { id: "nfl", sport: "football", league_id: "118" },
+      { id: "nba", sport: "basketball", league_id: "128" },
+    ],
+    tool: [
+      { id: "roster", name: "get_roster", extra_params: "", extra_args: {} },
+      { id: "matchups", name: "get_matchups", extra_params: ", week: 5", extra_args: { week: { pattern: "^5$" } } },
+    ],
+    season: [2025],
+  },
+  exclude: [{ league: "nfl", tool: "matchups" }],
+};
+
+test("isScenarioTemplate recognises template files", () => {
+  assert.equal(isScenarioTemplate(TEMPLATE), true);
+  assert.equal(isScenarioTemplate({ id: "who_is_on_my_roster", prompt: "x" }), false);
+});
+
+test("expandScenarioTemplate generates ids in matrix order and honours exclude", () => {
+  const expanded = expandScenarioTemplate("scenarios/sleeper_public.json", TEMPLATE);
+  assert.deepEqual(
+    expanded.map((scenario) => scenario.id),
+    ["sleeper_public_nfl_roster_2025", "sleeper_public_nba_roster_2025", "sleeper_public_nba_matchups_2025"]
+  );
+});
+
+test("expandScenarioTemplate substitutes strings, raw values and $merge objects", () => {
+  const [, , matchups] = expandScenarioTemplate("scenarios/sleeper_public.json", TEMPLATE);
+  assert.deepEqual(matchups.value, {
+    id: "sleeper_public_nba_matchups_2025",
+    prompt: "Use get_matchups for basketball league 128, week: 5.",
+    description: "nba matchups",
+    expected_tools: ["get_matchups"],
+    expected_calls: [
+      { tool: "get_matchups", args: { week: { pattern: "^5$" }, sport: "basketball", season_year: 2025 } },
+    ],
+    tags: ["basketball"],
+  });
+});
+
+test("expandScenarioTemplate rejects unknown variables, object interpolation and bad excludes", () => {
+  assert.throws(
+    () => expandScenarioTemplate("scenarios/t.json", { template: { prompt: "{{sport}} {{week}}" }, matrix: { sport: ["nfl"] } }),
+    /t_nfl: unknown template variable \{\{week\}\}/
+  );
+  assert.throws(
+    () =>
+      expandScenarioTemplate("scenarios/t.json", {
+        template: { prompt: "League: {{league}}" },
+        matrix: { league: [{ id: "nfl" }] },
+      }),
+    /\{\{league\}\} is not a scalar/
+  );
+  assert.throws(
+    () =>
+      expandScenarioTemplate("scenarios/t.json", {
+        template: {},
+        matrix: { sport: ["nfl"] },
+        exclude: [{ platform: "espn" }],
+      }),
+    /exclude\/0 names unknown matrix axes: platform/
+  );
+  assert.throws(() => expandScenarioTemplate("scenarios/t.json", { template: {}, matrix: { sport: [] } }), /must have at least 1 items/);
+});
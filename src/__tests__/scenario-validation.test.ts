@@ -0,0 +1,185 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { lintSchema } from "../json-schema.js";
+import {
+  formatIssue,
+  lintInstructionFiles,
+  loadScenarioSchema,
+  readScenarioFiles,
+  validateScenarioFiles,
+  validateScenarioValue,
+} from "../scenario-validation.js";
+
+function makeRepo(files: Record<string, string>): string {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-lint-"));
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, file), content);
+  }
+  return rootDir;
+}
+
+const VALID = {
+  id: "who_is_on_my_roster",
+  prompt: "Who is on my roster?",
+  description: "",
+  expected_tools: ["get_user_session", "get_roster"],
+  tags: ["espn"],
+};
+
+test("every checked-in scenario passes validation", () => {
+  const { files, issues } = readScenarioFiles();
+  assert.deepEqual([...issues, ...validateScenarioFiles(files)].map(formatIssue), []);
+});
+
+test("validateScenarioValue reports typos and bad values with file and field", () => {
+  const { expected_tools: _expectedTools, ...rest } = VALID;
+  const issues = validateScenarioValue("scenarios/who_is_on_my_roster.json", {
+    ...rest,
+    expected_tool: ["get_roster"],
+    tool_match: { mode: "strict" },
+    expected_calls: [{ tool: "get_roster", args: { week: { pattern: "(" } } }],
+  });
+
+  assert.deepEqual(issues.map(formatIssue), [
+    "error: scenarios/who_is_on_my_roster.json#/expected_tool: is not an allowed property",
+    'error: scenarios/who_is_on_my_roster.json#/tool_match/mode: must be one of "exact", "in_order", "unordered", "contains"',
+    "error: scenarios/who_is_on_my_roster.json: needs either prompt and expected_tools, or turns",
+    "error: scenarios/who_is_on_my_roster.json#/expected_calls/0/args/week/pattern: invalid regex: Invalid regular expression: /(/: Unterminated group",
+  ]);
+});
+
+test("validateScenarioValue rejects unsupported keywords, bad patterns and unresolvable $refs inside schema matchers", () => {
+  const issues = validateScenarioValue("scenarios/who_is_on_my_roster.json", {
+    ...VALID,
+    expected_calls: [
+      {
+        tool: "get_roster",
+        args: {
+          week: { schema: { type: "integer", multipleOf: 1, description: "scoring week" } },
+          team: { schema: { type: "object", properties: { name: { pattern: "[" } }, anyOf: [{ not: { const: 1 } }] } },
+          league: {
+            schema: {
+              definitions: { leagueId: { type: "string" } },
+              anyOf: [{ $ref: "#/definitions/leagueId" }, { $ref: "#/definitions/leagueKey" }, { $ref: "other.json" }],
+            },
+          },
+        },
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    issues.map((issue) => [issue.path, issue.message]),
+    [
+      ["/expected_calls/0/args/week/schema/multipleOf", 'unsupported schema keyword "multipleOf"'],
+      [
+        "/expected_calls/0/args/team/schema/properties/name/pattern",
+        "invalid regex: Invalid regular expression: /[/: Unterminated character class",
+      ],
+      ["/expected_calls/0/args/team/schema/anyOf/0/not", 'unsupported schema keyword "not"'],
+      ["/expected_calls/0/args/league/schema/anyOf/1/$ref", 'unresolvable $ref "#/definitions/leagueKey"'],
+      ["/expected_calls/0/args/league/schema/anyOf/2/$ref", 'unresolvable $ref "other.json"'],
+    ]
+  );
+  assert.deepEqual(lintSchema(loadScenarioSchema()), []);
+});
+
+test("validateScenarioValue checks regexes in per-turn assertions", () => {
+  const { prompt: _prompt, expected_tools: _expected, ...rest } = VALID;
+  const issues = validateScenarioValue("scenarios/who_is_on_my_roster.json", {
+    ...rest,
+    turns: [
+      { prompt: "Which league?", expected_tools: ["get_user_session"], answer_checks: { regex: ["("] } },
+      {
+        prompt: "The ESPN one.",
+        expected_tools: ["get_roster"],
+        expected_calls: [{ tool: "get_roster", args: { week: { pattern: "[" } } }],
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    issues.map((issue) => issue.path),
+    ["/turns/0/answer_checks/regex/0", "/turns/1/expected_calls/0/args/week/pattern"]
+  );
+});
+
+test("validateScenarioValue checks instructions and rubric references", () => {
+  const rootDir = makeRepo({ "rubrics/fantasy-analyst-v1.json": "{}" });
+  const issues = validateScenarioValue(
+    "scenarios/who_is_on_my_roster.json",
+    { ...VALID, instructions: "instructions/missing.md", rubric: "fantasy-analyst-v2" },
+    { rootDir }
+  );
+  assert.deepEqual(
+    issues.map((issue) => [issue.path, issue.message]),
+    [
+      ["/instructions", "file not found: instructions/missing.md"],
+      ["/rubric", "rubric not found: rubrics/fantasy-analyst-v2.json"],
+    ]
+  );
+});
+
+test("readScenarioFiles and validateScenarioFiles catch bad JSON and duplicate ids", () => {
+  const rootDir = makeRepo({
+    "scenarios/a.json": JSON.stringify({ ...VALID, id: "a" }),
+    "scenarios/b.json": JSON.stringify({ ...VALID, id: "a" }),
+    "scenarios/c.json": "{ nope",
+  });
+  const { files, issues } = readScenarioFiles({ rootDir });
+  assert.equal(files.length, 2);
+  assert.match(formatIssue(issues[0]), /^error: scenarios\/c\.json: invalid JSON/);
+
+  assert.deepEqual(
+    validateScenarioFiles(files, { rootDir }).map(formatIssue),
+    [
+      'error: scenarios/b.json#/id: "a" does not match the file name (expected "b")',
+      'error: scenarios/a.json#/id: duplicate id "a" (also in scenarios/b.json)',
+      'error: scenarios/b.json#/id: duplicate id "a" (also in scenarios/a.json)',
+    ]
+  );
+});
+
+test("issues in templated scenarios point into the template and name the generated id", () => {
+  const rootDir = makeRepo({
+    "scenarios/roster.json": JSON.stringify({
+      template: { prompt: "Show my {{sport}} roster", description: "", expected_tools: ["get_roster"], tags: "{{sport}}" },
+      matrix: { sport: ["football", "baseball"] },
+    }),
+    "scenarios/broken.json": JSON.stringify({ template: { id: "x" }, matrix: { sport: ["football"] } }),
+  });
+  const { files, issues } = readScenarioFiles({ rootDir });
+  assert.deepEqual(
+    files.map((entry) => [entry.file, (entry.value as { id: string }).id, entry.generated]),
+    [
+      ["scenarios/roster.json", "roster_football", true],
+      ["scenarios/roster.json", "roster_baseball", true],
+    ]
+  );
+  assert.deepEqual(issues.map(formatIssue), [
+    "error: scenarios/broken.json: invalid template: template must not set id; ids are generated from the file name and matrix values",
+  ]);
+  assert.deepEqual(validateScenarioFiles(files, { rootDir }).map(formatIssue), [
+    "error: scenarios/roster.json#/template/tags: roster_football: expected array, got string",
+    "error: scenarios/roster.json#/template/tags: roster_baseball: expected array, got string",
+  ]);
+});
+
+test("lintInstructionFiles flags empty and unreferenced instruction files", () => {
+  const rootDir = makeRepo({
+    "instructions/used.md": "# Skill\n",
+    "instructions/empty.md": "  \n",
+  });
+  const issues = lintInstructionFiles(
+    [{ file: "scenarios/a.json", value: { ...VALID, instructions: "instructions/used.md" } }],
+    { rootDir }
+  );
+  assert.deepEqual(issues.map(formatIssue), [
+    "error: instructions/empty.md: instruction file is empty",
+    "warning: instructions/empty.md: not referenced by any scenario",
+  ]);
+});
@@ -0,0 +1,99 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  globToRegExp,
+  loadFailedScenarioIds,
+  matchesTagExpression,
+  parseTagExpression,
+  selectScenarios,
+} from "../selection.js";
+import type { RunSummary, Scenario, ScenarioResult } from "../types.js";
+
+function scenario(id: string, tags: string[]): Scenario {
+  return { id, prompt: id, description: "", expected_tools: [], tags };
+}
+
+const SCENARIOS = [
+  scenario("who_is_on_my_roster", ["espn", "happy-path"]),
+  scenario("sleeper_public_nba_roster", ["sleeper", "basketball", "happy-path"]),
+  scenario("sleeper_public_nfl_standings", ["sleeper", "football", "happy-path"]),
+  scenario("ambiguous_multi_league", ["adversarial"]),
+];
+
+test("parseTagExpression honours precedence, not and parentheses", () => {
+  const expression = parseTagExpression("happy-path and not (espn or basketball)");
+  assert.equal(matchesTagExpression(expression, ["sleeper", "happy-path"]), true);
+  assert.equal(matchesTagExpression(expression, ["basketball", "happy-path"]), false);
+
+  // and binds tighter than or
+  const mixed = parseTagExpression("adversarial or sleeper and football");
+  assert.equal(matchesTagExpression(mixed, ["adversarial"]), true);
+  assert.equal(matchesTagExpression(mixed, ["sleeper"]), false);
+});
+
+test("parseTagExpression rejects malformed expressions", () => {
+  assert.throws(() => parseTagExpression("happy-path and"), /expected a tag/);
+  assert.throws(() => parseTagExpression("(sleeper or espn"), /missing "\)"/);
+  assert.throws(() => parseTagExpression("sleeper espn"), /unexpected "espn"/);
+  assert.throws(() => parseTagExpression("sleeper & espn"), /unexpected "&"/);
+});
+
+test("globToRegExp matches whole ids and escapes regex characters", () => {
+  assert.equal(globToRegExp("sleeper_public_*").test("sleeper_public_nba_roster"), true);
+  assert.equal(globToRegExp("*_roster").test("who_is_on_my_roster"), true);
+  assert.equal(globToRegExp("sleeper_public_n?a_*").test("sleeper_public_nba_roster"), true);
+  assert.equal(globToRegExp("a.b").test("axb"), false);
+});
+
+test("selectScenarios combines id globs, tag filters and only", () => {
+  const ids = (selected: Scenario[]) => selected.map((s) => s.id);
+
+  assert.deepEqual(ids(selectScenarios(SCENARIOS, { ids: [], tags: null, excludeTags: null })), ids(SCENARIOS));
+  assert.deepEqual(
+    ids(selectScenarios(SCENARIOS, { ids: ["sleeper_public_*"], tags: null, excludeTags: "basketball" })),
+    ["sleeper_public_nfl_standings"]
+  );
+  assert.deepEqual(
+    ids(selectScenarios(SCENARIOS, { ids: [], tags: "happy-path", excludeTags: "adversarial", only: ["who_is_on_my_roster"] })),
+    ["who_is_on_my_roster"]
+  );
+  assert.throws(
+    () => selectScenarios(SCENARIOS, { ids: ["who_is_on_my_rooster", "espn_*"], tags: null, excludeTags: null }),
+    /No scenario matches: who_is_on_my_rooster, espn_\*/
+  );
+});
+
+test("loadFailedScenarioIds collects failed, errored and acceptance-failed scenarios", () => {
+  const runDir = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-eval-rerun-"));
+  const row = (id: string, traceId: string, extra: Partial<ScenarioResult>): ScenarioResult => ({
+    id,
+    trace_id: traceId,
+    status: "ok",
+    tool_calls: [],
+    expected_tools: [],
+    tools_match: true,
+    expected_tools_hit: true,
+    duration_ms: 1,
+    ...extra,
+  });
+  const summary: Partial<RunSummary> = {
+    scenarios: [
+      row("who_is_on_my_roster", "trace_a", { passed: true }),
+      row("wrong_platform", "trace_b", { passed: false }),
+      row("invalid_sport", "trace_c", { status: "error", passed: false }),
+      row("best_waiver_adds", "trace_d", { passed: true }),
+      row("wrong_platform", "trace_e", { passed: false }),
+    ],
+  };
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify(summary));
+  fs.writeFileSync(
+    path.join(runDir, "acceptance-summary.json"),
+    JSON.stringify({ fail_reasons: [{ code: "MISSING_WORKERS", trace_ids: ["trace_d"] }] })
+  );
+
+  assert.deepEqual(loadFailedScenarioIds(runDir), ["wrong_platform", "invalid_sport", "best_waiver_adds"]);
+  assert.throws(() => loadFailedScenarioIds(path.join(runDir, "missing")), /summary.json not found/);
+});
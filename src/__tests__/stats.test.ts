@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { aggregateTrials, passAtK, summarizeDistribution, twoProportionTest, wilsonInterval } from "../stats.js";
+import type { ScenarioResult } from "../types.js";
+
+function trial(id: string, tools: string[], hit: boolean, durationMs: number, tokens: number): ScenarioResult {
+  return {
+    id,
+    trace_id: `trace_${id}_${durationMs}`,
+    status: "ok",
+    tool_calls: tools,
+    expected_tools: ["get_user_session"],
+    tools_match: hit,
+    expected_tools_hit: hit,
+    duration_ms: durationMs,
+    total_tokens: tokens,
+  };
+}
+
+test("passAtK matches the unbiased estimator", () => {
+  assert.equal(passAtK(5, 0, 1), 0);
+  assert.equal(passAtK(5, 5, 3), 1);
+  assert.equal(passAtK(4, 2, 1), 0.5);
+  // 1 - C(2,2)/C(4,2) = 1 - 1/6
+  assert.ok(Math.abs(passAtK(4, 2, 2) - 5 / 6) < 1e-9);
+  assert.equal(passAtK(4, 2, 3), 1);
+  assert.throws(() => passAtK(2, 1, 3), /needs at least 3 trials/);
+});
+
+test("summarizeDistribution uses nearest-rank percentiles", () => {
+  assert.deepEqual(summarizeDistribution([]), { min: 0, p50: 0, p90: 0, max: 0, mean: 0 });
+  assert.deepEqual(summarizeDistribution([400, 100, 300, 200]), {
+    min: 100,
+    p50: 200,
+    p90: 400,
+    max: 400,
+    mean: 250,
+  });
+});
+
+test("aggregateTrials flags scenarios whose outcome flips and counts tool sequences", () => {
+  const stats = aggregateTrials([
+    trial("stable", ["get_user_session"], true, 100, 50),
+    trial("flaky", ["get_user_session"], true, 100, 40),
+    trial("stable", ["get_user_session"], true, 200, 60),
+    trial("flaky", [], false, 300, 20),
+    { ...trial("flaky", [], false, 0, 0), status: "error", error: "boom" },
+  ]);
+
+  assert.deepEqual(stats.map((row) => row.id), ["stable", "flaky"]);
+  const [stable, flaky] = stats;
+
+  assert.equal(stable.flaky, false);
+  assert.equal(stable.pass_rate, 1);
+  assert.deepEqual(stable.pass_at_k, { "1": 1, "2": 1 });
+  assert.deepEqual(stable.tool_sequences, [{ sequence: ["get_user_session"], count: 2 }]);
+
+  assert.equal(flaky.flaky, true);
+  assert.equal(flaky.trials, 3);
+  assert.equal(flaky.passed, 1);
+  assert.equal(flaky.errored, 1);
+  assert.equal(flaky.pass_rate, 0.3333);
+  assert.equal(flaky.pass_at_k["3"], 1);
+  assert.equal(flaky.tool_sequences.length, 2);
+  // Errored trials are excluded from latency/token distributions.
+  assert.equal(flaky.duration_ms.max, 300);
+  assert.equal(flaky.total_tokens.min, 20);
+});
+
+test("wilsonInterval stays inside [0, 1] and narrows with more trials", () => {
+  assert.deepEqual(wilsonInterval(0, 0), { low: 0, high: 1 });
+  assert.deepEqual(wilsonInterval(5, 5), { low: 0.5655, high: 1 });
+  assert.deepEqual(wilsonInterval(8, 10), { low: 0.4902, high: 0.9433 });
+  const wide = wilsonInterval(5, 10);
+  const narrow = wilsonInterval(50, 100);
+  assert.ok(narrow.high - narrow.low < wide.high - wide.low);
+});
+
+test("twoProportionTest reports the difference and a two-sided p-value", () => {
+  assert.deepEqual(twoProportionTest(3, 10, 3, 10), { difference: 0, z: 0, p_value: 1 });
+  const result = twoProportionTest(10, 50, 25, 50);
+  assert.equal(result.difference, 0.3);
+  assert.equal(result.z, 3.1449);
+  assert.ok(result.p_value > 0.0015 && result.p_value < 0.0018);
+  assert.equal(twoProportionTest(5, 5, 5, 5).p_value, 1);
+  assert.equal(twoProportionTest(0, 0, 5, 5).p_value, 1);
+});
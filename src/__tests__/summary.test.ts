@@ -0,0 +1,174 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { combineTurnResponses } from "../runner.js";
+import { getScenarioTurns, normalizeScenario } from "../scenarios.js";
+import { summarizeTrace } from "../summary.js";
+import type { LlmResponse, Scenario, TraceArtifact, TraceTurn } from "../types.js";
+
+function response(id: string, tools: string[], text: string): LlmResponse {
+  return {
+    response_id: id,
+    tool_calls: tools.map((tool) => ({ tool_name: tool, args: {}, result_preview: "", result_full: "" })),
+    final_text: text,
+    raw_output: [{ id }],
+    usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+  };
+}
+
+const MULTI_TURN: Scenario = normalizeScenario({
+  id: "follow_up",
+  prompt: "",
+  description: "multi-turn",
+  expected_tools: [],
+  tags: ["multi-turn"],
+  turns: [
+    { prompt: "How is my team doing?", expected_tools: ["get_user_session"] },
+    { prompt: "The ESPN one.", expected_tools: ["get_standings"] },
+  ],
+});
+
+function makeArtifact(turns: TraceTurn[]): TraceArtifact {
+  return {
+    schema_version: "1.2",
+    run_id: "2026-02-07T02:28:06Z",
+    trace_id: "trace_follow_up_000",
+    scenario_id: MULTI_TURN.id,
+    timestamp_utc: "2026-02-07T02:28:06.000Z",
+    model: "gpt-5-mini",
+    prompt: MULTI_TURN.prompt,
+    instructions_file: null,
+    expected_tools: MULTI_TURN.expected_tools,
+    llm_response: combineTurnResponses(turns),
+    turns,
+    duration_ms: 2000,
+    notes: [],
+  };
+}
+
+test("normalizeScenario derives prompt and expected tools from turns", () => {
+  assert.equal(MULTI_TURN.prompt, "How is my team doing?");
+  assert.deepEqual(MULTI_TURN.expected_tools, ["get_user_session", "get_standings"]);
+  assert.equal(getScenarioTurns(MULTI_TURN).length, 2);
+});
+
+test("getScenarioTurns wraps single-turn scenarios", () => {
+  const turns = getScenarioTurns({ id: "single", prompt: "hi", description: "", expected_tools: ["get_user_session"], tags: [] });
+  assert.deepEqual(turns, [{ prompt: "hi", expected_tools: ["get_user_session"] }]);
+});
+
+test("combineTurnResponses concatenates tool calls and sums usage", () => {
+  const combined = combineTurnResponses([
+    { index: 0, prompt: "a", expected_tools: [], llm_response: response("r1", ["get_user_session"], "Which league?"), duration_ms: 1 },
+    { index: 1, prompt: "b", expected_tools: [], llm_response: response("r2", ["get_standings"], "You are 3rd."), duration_ms: 1 },
+  ]);
+  assert.equal(combined.response_id, "r2");
+  assert.deepEqual(combined.tool_calls.map((tc) => tc.tool_name), ["get_user_session", "get_standings"]);
+  assert.equal(combined.final_text, "You are 3rd.");
+  assert.equal(combined.usage.total_tokens, 30);
+});
+
+test("summarizeTrace passes multi-turn scenarios only when every turn routes correctly", () => {
+  const passing = summarizeTrace(
+    MULTI_TURN,
+    makeArtifact([
+      { index: 0, prompt: "a", expected_tools: ["get_user_session"], llm_response: response("r1", ["get_user_session"], "Which league?"), duration_ms: 1 },
+      { index: 1, prompt: "b", expected_tools: ["get_standings"], llm_response: response("r2", ["get_standings"], "You are 3rd."), duration_ms: 1 },
+    ])
+  );
+  assert.equal(passing.expected_tools_hit, true);
+  assert.equal(passing.turns?.length, 2);
+
+  // Right tools overall, but the standings call happened on the wrong turn.
+  const misrouted = summarizeTrace(
+    MULTI_TURN,
+    makeArtifact([
+      { index: 0, prompt: "a", expected_tools: ["get_user_session"], llm_response: response("r1", ["get_user_session", "get_standings"], "..."), duration_ms: 1 },
+      { index: 1, prompt: "b", expected_tools: ["get_standings"], llm_response: response("r2", [], "See above."), duration_ms: 1 },
+    ])
+  );
+  assert.equal(misrouted.expected_tools_hit, false);
+  assert.equal(misrouted.turns?.[1].expected_tools_hit, false);
+  assert.deepEqual(misrouted.tool_calls, ["get_user_session", "get_standings"]);
+});
+
+test("summarizeTrace fails a routed scenario when expected_calls arguments mismatch", () => {
+  const scenario: Scenario = {
+    id: "sleeper_standings",
+    prompt: "standings",
+    description: "",
+    expected_tools: ["get_standings"],
+    expected_calls: [{ tool: "get_standings", args: { platform: "sleeper" } }],
+    tags: [],
+  };
+  const llmResponse = response("r1", ["get_standings"], "done");
+  llmResponse.tool_calls[0].args = { platform: "espn" };
+  const result = summarizeTrace(scenario, { ...makeArtifact([]), llm_response: llmResponse, turns: undefined });
+
+  assert.equal(result.expected_tools_hit, true);
+  assert.equal(result.args_match, false);
+  assert.equal(result.passed, false);
+  assert.deepEqual(result.arg_checks?.[0].mismatches, [{ arg: "platform", expected: '"sleeper"', actual: "espn" }]);
+});
+
+test("summarizeTrace fails negative scenarios that call tools and records forbidden calls", () => {
+  const single = (scenario: Scenario, tools: string[]) =>
+    summarizeTrace(scenario, { ...makeArtifact([]), llm_response: response("r1", tools, "..."), turns: undefined });
+
+  const negative: Scenario = { id: "wrong_platform", prompt: "p", description: "", expected_tools: [], tags: [] };
+  assert.equal(single(negative, []).passed, true);
+  const leaked = single(negative, ["get_user_session"]);
+  assert.equal(leaked.passed, false);
+  assert.equal(leaked.match_mode, "contains");
+  assert.deepEqual(leaked.routing_violations, ["expected no tool calls, got get_user_session"]);
+
+  const direct: Scenario = {
+    id: "sleeper_direct",
+    prompt: "p",
+    description: "",
+    expected_tools: ["get_standings"],
+    tool_match: { mode: "in_order", forbidden_tools: ["get_user_session"] },
+    tags: [],
+  };
+  const result = single(direct, ["get_user_session", "get_standings"]);
+  assert.equal(result.expected_tools_hit, false);
+  assert.deepEqual(result.routing_violations, ["forbidden tool called: get_user_session"]);
+});
+
+test("summarizeTrace checks per-turn expected_calls and answer_checks against that turn only", () => {
+  const scenario: Scenario = normalizeScenario({
+    ...MULTI_TURN,
+    turns: [
+      { prompt: "How is my team doing?", expected_tools: ["get_user_session"], answer_checks: { must_contain: ["which league"] } },
+      {
+        prompt: "The ESPN one.",
+        expected_tools: ["get_standings"],
+        expected_calls: [{ tool: "get_standings", args: { platform: "espn" } }],
+        answer_checks: { must_contain: ["which league"] },
+      },
+    ],
+  });
+  const second = response("r2", ["get_standings"], "You are 3rd.");
+  second.tool_calls[0].args = { platform: "sleeper" };
+  const result = summarizeTrace(
+    scenario,
+    makeArtifact([
+      { index: 0, prompt: "a", expected_tools: ["get_user_session"], llm_response: response("r1", ["get_user_session"], "Which league?"), duration_ms: 1 },
+      { index: 1, prompt: "b", expected_tools: ["get_standings"], llm_response: second, duration_ms: 1 },
+    ])
+  );
+
+  assert.equal(result.expected_tools_hit, true);
+  assert.equal(result.turns?.[0].answer_passed, true);
+  assert.equal(result.turns?.[0].args_match, undefined);
+  // The first turn's answer mentions the league, but the check on turn 2 only sees turn 2's text.
+  assert.equal(result.turns?.[1].answer_passed, false);
+  assert.equal(result.turns?.[1].args_match, false);
+  assert.deepEqual(result.arg_checks?.map((check) => [check.turn, check.call_index, check.passed]), [[1, 0, false]]);
+  assert.deepEqual(result.answer_checks?.map((check) => [check.turn, check.passed]), [
+    [0, true],
+    [1, false],
+  ]);
+  assert.equal(result.args_match, false);
+  assert.equal(result.answer_passed, false);
+  assert.equal(result.passed, false);
+});
@@ -0,0 +1,38 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkToolLimits, checkToolSequence } from "../tool-match.js";
+
+const SESSION_THEN_ROSTER = ["get_user_session", "get_roster"];
+
+test("checkToolSequence applies each matching mode", () => {
+  const interleaved = ["get_user_session", "get_league_info", "get_roster"];
+  const reversed = ["get_roster", "get_user_session"];
+
+  assert.equal(checkToolSequence(SESSION_THEN_ROSTER, SESSION_THEN_ROSTER, "exact"), null);
+  assert.match(checkToolSequence(interleaved, SESSION_THEN_ROSTER, "exact") ?? "", /expected exactly/);
+
+  assert.equal(checkToolSequence(interleaved, SESSION_THEN_ROSTER, "in_order"), null);
+  assert.match(checkToolSequence(reversed, SESSION_THEN_ROSTER, "in_order") ?? "", /in order/);
+
+  assert.equal(checkToolSequence(reversed, SESSION_THEN_ROSTER, "unordered"), null);
+  assert.ok(checkToolSequence(interleaved, SESSION_THEN_ROSTER, "unordered"));
+  assert.ok(checkToolSequence(["get_roster", "get_roster"], ["get_roster"], "unordered"));
+
+  assert.equal(checkToolSequence(reversed, SESSION_THEN_ROSTER, "contains"), null);
+  assert.equal(checkToolSequence(["get_roster"], SESSION_THEN_ROSTER, "contains"), "missing get_user_session");
+});
+
+test("checkToolSequence treats empty expected_tools as no calls allowed in every mode", () => {
+  for (const mode of ["exact", "in_order", "unordered", "contains"] as const) {
+    assert.equal(checkToolSequence([], [], mode), null);
+    assert.equal(checkToolSequence(["get_user_session"], [], mode), "expected no tool calls, got get_user_session");
+  }
+});
+
+test("checkToolLimits flags forbidden tools and call budget overruns", () => {
+  assert.deepEqual(checkToolLimits(SESSION_THEN_ROSTER), []);
+  assert.deepEqual(checkToolLimits(SESSION_THEN_ROSTER, { forbidden_tools: ["get_user_session"], max_calls: 1 }), [
+    "forbidden tool called: get_user_session",
+    "2 tool calls exceeds max_calls 1",
+  ]);
+});
@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildRunIndex, queryRuns, readRunIndex, writeRunIndex } from "../run-index.js";
+import { buildTrends, buildTrendsHtml, buildTrendsMarkdown, parseTrendsArgs, sparkline } from "../trends.js";
+import type { ScenarioResult } from "../types.js";
+import { makeRow } from "./fixtures.js";
+
+function writeRun(root: string, runId: string, model: string, rows: ScenarioResult[], missing: string[] = []): void {
+  const runDir = path.join(root, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+  fs.writeFileSync(path.join(runDir, "summary.json"), JSON.stringify({ run_id: runId, model, scenarios: rows }));
+  fs.writeFileSync(
+    path.join(runDir, "manifest.json"),
+    JSON.stringify({ run_id: runId, timestamp_utc: runId, model, instructions_files: [] })
+  );
+  for (const row of rows) {
+    fs.mkdirSync(path.join(runDir, row.trace_id), { recursive: true });
+    fs.writeFileSync(
+      path.join(runDir, row.trace_id, "trace.json"),
+      JSON.stringify({ trace_id: row.trace_id, enrichment: { attempts: 2, missing_workers: missing } })
+    );
+  }
+}
+
+function setup(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "flaim-trends-"));
+  writeRun(root, "2026-02-02T00-00-00Z", "gpt-5-mini", [
+    makeRow("roster", { tool_calls: ["get_user_session", "get_roster"], expected_tools: ["get_user_session", "get_roster"] }),
+    makeRow("standings", { tool_calls: ["get_standings"], expected_tools: ["get_standings"] }),
+  ]);
+  writeRun(
+    root,
+    "2026-02-01T00-00-00Z",
+    "gpt-5-mini",
+    [
+      makeRow("roster"),
+      makeRow("standings", { tool_calls: ["get_standings"], expected_tools: ["get_standings"], passed: false }),
+    ],
+    ["espn-client"]
+  );
+  writeRun(root, "2026-02-03T00-00-00Z", "gpt-4.1", [makeRow("roster", { total_tokens: 300 })]);
+  // Interrupted runs have no summary.json and are skipped.
+  fs.mkdirSync(path.join(root, "2026-02-04T00-00-00Z"));
+  return root;
+}
+
+test("buildRunIndex orders runs by time and skips runs without a summary", () => {
+  const root = setup();
+  try {
+    const index = buildRunIndex(root);
+    assert.deepEqual(
+      index.runs.map((run) => run.run_id),
+      ["2026-02-01T00-00-00Z", "2026-02-02T00-00-00Z", "2026-02-03T00-00-00Z"]
+    );
+    assert.equal(index.runs[0].traces[1].passed, false);
+    assert.deepEqual(index.runs[0].traces[0].missing_workers, ["espn-client"]);
+    assert.equal(index.runs[0].traces[0].enrichment_attempts, 2);
+
+    writeRunIndex(index, root);
+    assert.deepEqual(readRunIndex(root), index);
+
+    assert.equal(queryRuns(index, { model: "gpt-4.1" }).length, 1);
+    const standings = queryRuns(index, { scenarioId: "standings" });
+    assert.equal(standings.length, 2);
+    assert.ok(standings.every((run) => run.traces.every((trace) => trace.scenario_id === "standings")));
+    assert.deepEqual(queryRuns(index, { last: 1 }).map((run) => run.run_id), ["2026-02-03T00-00-00Z"]);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("buildTrends tracks pass rate and routing changes per model and scenario", () => {
+  const root = setup();
+  try {
+    const report = buildTrends(buildRunIndex(root).runs);
+    const mini = report.models.find((entry) => entry.model === "gpt-5-mini")!;
+    assert.deepEqual(mini.points.map((point) => point.pass_rate), [0.5, 1]);
+    assert.deepEqual(mini.points.map((point) => point.routing_changes), [0, 1]);
+    assert.equal(mini.points[0].missing_worker_traces, 2);
+
+    const roster = report.scenarios.find((entry) => entry.scenario_id === "roster")!;
+    assert.deepEqual(roster.points.map((point) => point.routing_changes), [0, 1, 0]);
+    assert.equal(roster.points[1].tool_sequence, "get_user_session → get_roster");
+
+    const markdown = buildTrendsMarkdown(report);
+    assert.match(markdown, /# Flaim Eval Trends/);
+    assert.match(markdown, /### roster\n\nPass rate: ███ · routing changed in 1 run\(s\)/);
+    assert.match(markdown, /\*\*changed:\*\* get_user_session → get_roster/);
+    assert.match(markdown, /\| 2 \(espn-client\) \|/);
+
+    const html = buildTrendsHtml(report);
+    assert.match(html, /<td class="changed">get_user_session → get_roster<\/td>/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("sparkline and parseTrendsArgs", () => {
+  assert.equal(sparkline([0, 0.5, 1]), "▁▅█");
+  assert.deepEqual(parseTrendsArgs(["--model", "gpt-5-mini", "--last", "5"]), { model: "gpt-5-mini", last: 5 });
+  assert.throws(() => parseTrendsArgs(["--last", "0"]), /positive integer/);
+  assert.throws(() => parseTrendsArgs(["--bogus"]), /Unknown option/);
+});
@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildWaterfall, formatWaterfallMermaid, formatWaterfallText } from "../waterfall.js";
+import type { ServerLogEvent, TraceArtifact } from "../types.js";
+
+const T0 = Date.parse("2026-02-07T00:00:00.000Z");
+
+function event(offsetMs: number, fields: Partial<ServerLogEvent> = {}): ServerLogEvent {
+  return { timestamp: new Date(T0 + offsetMs).toISOString(), status: 200, wall_time_ms: 0, ...fields };
+}
+
+function makeTrace(): TraceArtifact {
+  const call = (tool_name: string) => ({ tool_name, args: {}, result_preview: "", result_full: "" });
+  return {
+    schema_version: "1.2",
+    run_id: "2026-02-07T00-00-00Z",
+    trace_id: "trace_roster_000",
+    scenario_id: "roster",
+    timestamp_utc: "2026-02-07T00:00:00.000Z",
+    model: "gpt-5-mini",
+    prompt: "Who is on my roster?",
+    instructions_file: null,
+    expected_tools: [],
+    llm_response: {
+      response_id: "resp_1",
+      tool_calls: [call("get_user_session"), call("get_roster"), call("get_standings")],
+      final_text: "",
+      raw_output: [],
+      usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+    },
+    duration_ms: 100,
+    // Events are logged when their work finishes: a span is [timestamp - duration_ms, timestamp].
+    server_logs: {
+      "fantasy-mcp": [
+        event(0, { phase: "tool_start", tool: "get_user_session", correlation_id: "c1", duration_ms: 0 }),
+        event(20, { phase: "tool_end", tool: "get_user_session", correlation_id: "c1", duration_ms: 20 }),
+        event(30, { phase: "tool_start", tool: "get_roster", correlation_id: "c2", duration_ms: 0 }),
+        event(90, { phase: "tool_end", tool: "get_roster", correlation_id: "c2", duration_ms: 60, status: 502 }),
+      ],
+      "auth-worker": [event(15, { phase: "session_lookup", tool: "get_user_session", correlation_id: "c1", duration_ms: 10 })],
+      "espn-client": [
+        event(80, { phase: "platform_fetch", tool: "get_roster", correlation_id: "c2", request_id: "r-espn", duration_ms: 40, status: 502 }),
+        // No correlation id, but the same invocation as the fetch above.
+        event(70, { phase: "upstream_retry", request_id: "r-espn", duration_ms: 5 }),
+      ],
+      "yahoo-client": [event(5, { message: "stray" })],
+    },
+    notes: [],
+  };
+}
+
+test("buildWaterfall builds one span tree per correlation id aligned with tool calls", () => {
+  const waterfall = buildWaterfall(makeTrace());
+  assert.deepEqual(
+    waterfall.tools.map((tool) => [tool.tool, tool.call_index, tool.span.start_ms, tool.span.duration_ms, tool.self_ms]),
+    [
+      ["get_user_session", 0, 0, 20, 10],
+      ["get_roster", 1, 30, 60, 20],
+    ]
+  );
+
+  const [session, roster] = waterfall.tools;
+  assert.deepEqual(
+    session.span.children.map((child) => [child.service, child.phase, child.start_ms, child.duration_ms]),
+    [["auth-worker", "session_lookup", 5, 10]]
+  );
+  assert.equal(session.span.phase, "tool_start/tool_end");
+  assert.deepEqual(roster.span.children.map((child) => [child.phase, child.start_ms, child.end_ms, child.status]), [
+    ["platform_fetch/upstream_retry", 40, 80, 502],
+  ]);
+  assert.deepEqual(roster.gaps, [
+    { after: "ingress start", before: "espn-client platform_fetch/upstream_retry", duration_ms: 10 },
+    { after: "espn-client platform_fetch/upstream_retry", before: "ingress end", duration_ms: 10 },
+  ]);
+  assert.deepEqual(waterfall.unmatched_calls, [{ call_index: 2, tool: "get_standings" }]);
+  assert.equal(waterfall.uncorrelated_events, 1);
+});
+
+test("formatWaterfallText and formatWaterfallMermaid render each tool call", () => {
+  const waterfall = buildWaterfall(makeTrace());
+
+  const text = formatWaterfallText(waterfall);
+  assert.match(text, /^get_user_session \(call 1\) · 20 ms · correlation c1$/m);
+  assert.match(text, /^ {4}auth-worker session_lookup\s+\+5\s+10ms 200 \|\s{10}█{20}\s{10}\|$/m);
+  assert.match(text, /gaps: 10ms ingress start → espn-client platform_fetch\/upstream_retry; .* \(ingress self time 20ms\)/);
+  assert.match(text, /^get_standings \(call 3\): no server events$/m);
+  assert.match(text, /^1 event\(s\) without a correlation id not shown$/m);
+
+  const mermaid = formatWaterfallMermaid(waterfall);
+  assert.match(mermaid, /^gantt\n {2}title trace_roster_000\n {2}dateFormat x/);
+  assert.match(mermaid, /^ {2}section get_roster \(call 2\)$/m);
+  assert.match(mermaid, /^ {2}espn-client platform_fetch\/upstream_retry :crit, 40, 80$/m);
+  assert.match(mermaid, /^ {2}auth-worker session_lookup :5, 15$/m);
+});
+
+test("buildWaterfall is empty for traces without server logs", () => {
+  const waterfall = buildWaterfall({ ...makeTrace(), server_logs: undefined });
+  assert.deepEqual(waterfall.tools, []);
+  assert.equal(waterfall.unmatched_calls.length, 3);
+  assert.equal(formatWaterfallText(waterfall).split("\n").length, 3);
+});
@@ -3,6 +3,7 @@ import fs from "node:fs";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import { inferExpectedWorkers, getMissingWorkers } from "./coverage.js";
+import { parseExportArgs, writeExports, type ExportFormat } from "./exporters.js";
 import type { RunSummary, ServerLogEvent, TraceArtifact } from "./types.js";
 
 const POLICY_VERSION = "2026-02-07.1";
@@ -184,10 +185,16 @@ function assessTrace(trace: TraceArtifact): TraceAssessment {
 }
 
 export async function runCli() {
-  const [, , runId] = process.argv;
+  let runId: string | undefined;
+  let formats: ExportFormat[];
+  try {
+    ({ runId, formats } = parseExportArgs(process.argv.slice(2)));
+  } catch (error) {
+    fail((error as Error).message);
+  }
 
   if (!runId) {
-    fail("Usage: npm run accept -- <run_id>");
+    fail("Usage: npm run accept -- <run_id> [--format junit,tap]");
   }
 
   const runDir = getRunDir(runId);
@@ -323,6 +330,9 @@ export async function runCli() {
   fs.writeFileSync(outputPath, JSON.stringify(acceptanceSummary, null, 2));
 
   console.log(`Wrote acceptance summary: ${outputPath}`);
+  for (const exportPath of writeExports(runDir, formats, summary, acceptanceSummary)) {
+    console.log(`Wrote export: ${exportPath}`);
+  }
   console.log(`Final status: ${acceptanceSummary.final_status.toUpperCase()}`);
 
   if (acceptanceSummary.final_status === "fail") {
@@ -0,0 +1,77 @@
+/**
+ * Declarative checks on the model's final answer (`llm_response.final_text`).
+ *
+ * Text matching is case-insensitive throughout. Refusal detection also
+ * accepts typographic apostrophes ("can’t"), which models emit often.
+ */
+
+import type { AnswerCheckResult, AnswerChecks } from "./types.js";
+
+/**
+ * Phrases that signal the model declined or explained a limitation rather
+ * than answering. Heuristic, tuned for Flaim's unsupported-request scenarios.
+ */
+const REFUSAL_PATTERNS = [
+  /\b(?:is|are)(?: currently)? not (?:yet )?(?:supported|available)\b/i,
+  /\b(?:isn['’]t|aren['’]t|not) (?:currently )?supported\b/i,
+  /\b(?:can['’]t|cannot|can not|unable to|not able to)\b/i,
+  /\b(?:don['’]t|do not|doesn['’]t|does not) (?:currently )?(?:support|have access)\b/i,
+  /\bonly supports?\b/i,
+  /\bread[- ]only\b/i,
+];
+
+export function detectRefusal(text: string): boolean {
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+export function hasAnswerChecks(checks: AnswerChecks | undefined): checks is AnswerChecks {
+  return Boolean(
+    checks &&
+      ((checks.must_contain?.length ?? 0) > 0 ||
+        (checks.must_not_contain?.length ?? 0) > 0 ||
+        (checks.regex?.length ?? 0) > 0 ||
+        (checks.mentions_platforms?.length ?? 0) > 0 ||
+        checks.refusal !== undefined)
+  );
+}
+
+/**
+ * Evaluate every configured check against the final answer text.
+ */
+export function checkAnswer(text: string, checks: AnswerChecks): AnswerCheckResult[] {
+  const lower = text.toLowerCase();
+  const results: AnswerCheckResult[] = [];
+
+  for (const phrase of checks.must_contain ?? []) {
+    results.push({ check: "must_contain", expected: phrase, passed: lower.includes(phrase.toLowerCase()) });
+  }
+  for (const phrase of checks.must_not_contain ?? []) {
+    results.push({ check: "must_not_contain", expected: phrase, passed: !lower.includes(phrase.toLowerCase()) });
+  }
+  for (const source of checks.regex ?? []) {
+    results.push({ check: "regex", expected: source, passed: new RegExp(source, "i").test(text) });
+  }
+
+  const platforms = checks.mentions_platforms ?? [];
+  if (platforms.length > 0) {
+    const missing = platforms.filter((platform) => !lower.includes(platform.toLowerCase()));
+    results.push({
+      check: "mentions_platforms",
+      expected: platforms.join(", "),
+      passed: missing.length === 0,
+      ...(missing.length > 0 ? { detail: `missing ${missing.join(", ")}` } : {}),
+    });
+  }
+
+  if (checks.refusal !== undefined) {
+    const refused = detectRefusal(text);
+    results.push({
+      check: "refusal",
+      expected: checks.refusal ? "refusal" : "no refusal",
+      passed: refused === checks.refusal,
+      ...(refused !== checks.refusal ? { detail: refused ? "answer reads as a refusal" : "no refusal detected" } : {}),
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,80 @@
+/**
+ * Argument-level assertions for `expected_calls` in scenario files.
+ */
+
+import { validateSchema } from "./json-schema.js";
+import type { ArgCheckResult, ArgMatcher, ArgMismatch, CapturedToolCall, ExpectedCall } from "./types.js";
+
+function describeMatcher(matcher: ArgMatcher): string {
+  if (matcher !== null && typeof matcher === "object") {
+    if ("pattern" in matcher) return `/${matcher.pattern}/`;
+    if ("schema" in matcher) return `schema ${JSON.stringify(matcher.schema)}`;
+    return JSON.stringify(matcher.equals);
+  }
+  return JSON.stringify(matcher);
+}
+
+/**
+ * Check one argument value. Returns a mismatch description, or null on match.
+ */
+export function checkArg(arg: string, matcher: ArgMatcher, actual: unknown): ArgMismatch | null {
+  const expected = describeMatcher(matcher);
+  if (actual === undefined) {
+    return { arg, expected };
+  }
+
+  if (matcher !== null && typeof matcher === "object") {
+    if ("pattern" in matcher) {
+      const text = typeof actual === "string" ? actual : JSON.stringify(actual);
+      return new RegExp(matcher.pattern).test(text) ? null : { arg, expected, actual };
+    }
+    if ("schema" in matcher) {
+      const errors = validateSchema(actual, matcher.schema);
+      return errors.length === 0
+        ? null
+        : { arg, expected: errors.map((error) => `${error.path || arg} ${error.message}`).join("; "), actual };
+    }
+    return JSON.stringify(matcher.equals) === JSON.stringify(actual) ? null : { arg, expected, actual };
+  }
+
+  return matcher === actual ? null : { arg, expected, actual };
+}
+
+function checkCall(expected: ExpectedCall, call: CapturedToolCall): ArgMismatch[] {
+  return Object.entries(expected.args ?? {}).flatMap(([arg, matcher]) => {
+    const mismatch = checkArg(arg, matcher, call.args?.[arg]);
+    return mismatch ? [mismatch] : [];
+  });
+}
+
+/**
+ * Match each expected call to a distinct captured call with the same tool
+ * name whose arguments satisfy every constraint. Unmatched expectations
+ * report the mismatches of the closest call (fewest failing arguments).
+ */
+export function checkExpectedCalls(expectedCalls: ExpectedCall[], toolCalls: CapturedToolCall[]): ArgCheckResult[] {
+  const used = new Set<number>();
+
+  return expectedCalls.map((expected) => {
+    let closest: { index: number; mismatches: ArgMismatch[] } | null = null;
+
+    for (const [index, call] of toolCalls.entries()) {
+      if (used.has(index) || call.tool_name !== expected.tool) continue;
+      const mismatches = checkCall(expected, call);
+      if (mismatches.length === 0) {
+        used.add(index);
+        return { tool: expected.tool, passed: true, call_index: index, mismatches: [] };
+      }
+      if (!closest || mismatches.length < closest.mismatches.length) {
+        closest = { index, mismatches };
+      }
+    }
+
+    return {
+      tool: expected.tool,
+      passed: false,
+      call_index: closest?.index ?? null,
+      mismatches: closest?.mismatches ?? [],
+    };
+  });
+}
@@ -1,18 +1,22 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { TraceArtifact } from "./types.js";
+import type { ScenarioResult, TraceArtifact } from "./types.js";
 
 export function getTraceDir(runDir: string, traceId: string): string {
   return path.join(runDir, traceId);
 }
 
+export function getCassettePath(runDir: string, traceId: string): string {
+  return path.join(getTraceDir(runDir, traceId), "cassette.json");
+}
+
 export function writeTraceArtifact(runDir: string, artifact: TraceArtifact): void {
   const traceDir = getTraceDir(runDir, artifact.trace_id);
   fs.mkdirSync(traceDir, { recursive: true });
-  fs.writeFileSync(
-    path.join(traceDir, "trace.json"),
-    JSON.stringify(artifact, null, 2)
-  );
+  // Write then rename so an interrupted run never leaves a truncated trace.json.
+  const tracePath = path.join(traceDir, "trace.json");
+  fs.writeFileSync(`${tracePath}.tmp`, JSON.stringify(artifact, null, 2));
+  fs.renameSync(`${tracePath}.tmp`, tracePath);
 
   const logsDir = path.join(traceDir, "logs");
   const serverLogs = artifact.server_logs || {};
@@ -43,3 +47,32 @@ export function readTraceArtifact(runDir: string, traceId: string): TraceArtifac
   const tracePath = path.join(getTraceDir(runDir, traceId), "trace.json");
   return JSON.parse(fs.readFileSync(tracePath, "utf8")) as TraceArtifact;
 }
+
+/**
+ * Read a trace only if it is complete (parses and belongs to `traceId`);
+ * used by `--resume` to decide which traces still need to run.
+ */
+export function readCompleteTraceArtifact(runDir: string, traceId: string): TraceArtifact | null {
+  try {
+    const artifact = readTraceArtifact(runDir, traceId);
+    return artifact.trace_id === traceId && artifact.llm_response ? artifact : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ProgressEntry {
+  trace_id: string;
+  scenario_id: string;
+  trial?: number;
+  status: ScenarioResult["status"];
+  error?: string;
+  finished_at: string;
+}
+
+/**
+ * Append one finished trace to runs/<run_id>/progress.jsonl.
+ */
+export function appendProgress(runDir: string, entry: ProgressEntry): void {
+  fs.appendFileSync(path.join(runDir, "progress.jsonl"), `${JSON.stringify(entry)}\n`);
+}
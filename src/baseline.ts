@@ -0,0 +1,166 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { isPassed } from "./summary.js";
+import type { RunManifest, RunSummary } from "./types.js";
+
+/**
+ * Baselines for `npm run gate`. `npm run baseline -- <run_id>` pins a run as
+ * the baseline for its model and instructions files by writing a snapshot to
+ * baselines/<key>.json. The snapshot holds everything the gate compares, so
+ * it can be committed and used where the baseline's runs/ directory is absent.
+ */
+
+const DEFAULT_BASELINES_DIR = path.resolve(import.meta.dirname, "../baselines");
+
+export interface BaselineScenario {
+  id: string;
+  /** Traces for this scenario (more than one with --trials). */
+  runs: number;
+  passed: number;
+  /** Traces that finished; the means cover only these. Absent in older baselines. */
+  ok_runs?: number;
+  mean_tokens: number;
+  mean_duration_ms: number;
+}
+
+export interface BaselineRecord {
+  key: string;
+  run_id: string;
+  model: string;
+  instructions_files: string[];
+  pinned_at: string;
+  pass_rate: number;
+  acceptance_status: "pass" | "fail" | null;
+  scenarios: BaselineScenario[];
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+function getRunDir(runId: string): string {
+  return path.resolve(import.meta.dirname, "../runs", runId);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * File-safe key for a model and set of instructions files, e.g.
+ * `gpt-5-mini__fantasy-analyst-v1` or `gpt-5-mini__none`.
+ */
+export function baselineKey(model: string, instructionsFiles: string[]): string {
+  const instructions = [...instructionsFiles]
+    .map((file) => path.basename(file, ".md"))
+    .sort()
+    .join("+");
+  return `${model}__${instructions || "none"}`.replace(/[^A-Za-z0-9._+-]/g, "-");
+}
+
+/**
+ * Snapshot a finished run: per-scenario pass counts and means from
+ * summary.json plus the acceptance status when acceptance has been run.
+ */
+export function snapshotRun(runDir: string): Omit<BaselineRecord, "pinned_at"> {
+  const summaryPath = path.join(runDir, "summary.json");
+  if (!fs.existsSync(summaryPath)) {
+    throw new Error(`summary.json not found for run: ${path.basename(runDir)}`);
+  }
+  const summary = readJson<RunSummary>(summaryPath);
+  const manifestPath = path.join(runDir, "manifest.json");
+  const manifest = fs.existsSync(manifestPath) ? readJson<RunManifest>(manifestPath) : null;
+  const acceptancePath = path.join(runDir, "acceptance-summary.json");
+  const acceptance = fs.existsSync(acceptancePath)
+    ? readJson<{ final_status: "pass" | "fail" }>(acceptancePath)
+    : null;
+
+  const byId = new Map<string, RunSummary["scenarios"]>();
+  for (const row of summary.scenarios) {
+    byId.set(row.id, [...(byId.get(row.id) ?? []), row]);
+  }
+  // Errored traces have no tokens and a zero duration, so they would drag the means down.
+  const scenarios = [...byId].map(([id, rows]) => {
+    const ok = rows.filter((row) => row.status === "ok");
+    const mean = (pick: (row: RunSummary["scenarios"][number]) => number) =>
+      ok.length > 0 ? round(ok.reduce((sum, row) => sum + pick(row), 0) / ok.length) : 0;
+    return {
+      id,
+      runs: rows.length,
+      passed: ok.filter(isPassed).length,
+      ok_runs: ok.length,
+      mean_tokens: mean((row) => row.total_tokens ?? 0),
+      mean_duration_ms: mean((row) => row.duration_ms),
+    };
+  });
+  const totalRuns = scenarios.reduce((sum, scenario) => sum + scenario.runs, 0);
+  const instructionsFiles = manifest?.instructions_files ?? [];
+
+  return {
+    key: baselineKey(summary.model, instructionsFiles),
+    run_id: summary.run_id,
+    model: summary.model,
+    instructions_files: instructionsFiles,
+    pass_rate: totalRuns > 0 ? round(scenarios.reduce((sum, scenario) => sum + scenario.passed, 0) / totalRuns) : 0,
+    acceptance_status: acceptance?.final_status ?? null,
+    scenarios,
+  };
+}
+
+export function pinBaseline(runDir: string, baselinesDir = DEFAULT_BASELINES_DIR): BaselineRecord {
+  const record: BaselineRecord = { ...snapshotRun(runDir), pinned_at: new Date().toISOString() };
+  fs.mkdirSync(baselinesDir, { recursive: true });
+  fs.writeFileSync(path.join(baselinesDir, `${record.key}.json`), `${JSON.stringify(record, null, 2)}\n`);
+  return record;
+}
+
+export function loadBaseline(key: string, baselinesDir = DEFAULT_BASELINES_DIR): BaselineRecord | null {
+  const baselinePath = path.join(baselinesDir, `${key}.json`);
+  return fs.existsSync(baselinePath) ? readJson<BaselineRecord>(baselinePath) : null;
+}
+
+export function listBaselines(baselinesDir = DEFAULT_BASELINES_DIR): BaselineRecord[] {
+  if (!fs.existsSync(baselinesDir)) return [];
+  return fs
+    .readdirSync(baselinesDir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => readJson<BaselineRecord>(path.join(baselinesDir, name)));
+}
+
+export async function runCli() {
+  const [, , runId] = process.argv;
+
+  if (!runId || runId === "--list") {
+    const baselines = listBaselines();
+    if (!runId) {
+      console.log("Usage: npm run baseline -- <run_id> | --list\n");
+    }
+    if (baselines.length === 0) {
+      console.log("No baselines pinned.");
+    }
+    for (const baseline of baselines) {
+      console.log(
+        `${baseline.key}: ${baseline.run_id} (pass rate ${(baseline.pass_rate * 100).toFixed(1)}%, pinned ${baseline.pinned_at})`
+      );
+    }
+    if (!runId) process.exit(1);
+    return;
+  }
+
+  const record = pinBaseline(getRunDir(runId));
+  console.log(`Pinned ${record.run_id} as baseline ${record.key}`);
+  console.log(`  Pass rate: ${(record.pass_rate * 100).toFixed(1)}% over ${record.scenarios.length} scenarios`);
+  if (record.acceptance_status === null) {
+    console.log("  No acceptance-summary.json; run `npm run accept` first to gate on acceptance.");
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * Record/replay cassettes for offline eval runs.
+ *
+ * A cassette wraps `fetch` for a single trace. In record mode every request
+ * (model APIs, harness-side MCP calls, Cloudflare telemetry) is forwarded and
+ * the exchange is captured; in replay mode requests are matched against the
+ * recorded exchanges and served back without touching the network.
+ *
+ * Matching is keyed on method, path and a normalized request body. Run ID,
+ * trace ID and access token are swapped for placeholders so a replay can run
+ * under fresh IDs, and Cloudflare query timeframes are ignored because they
+ * depend on wall-clock time.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { CassetteFile, CassetteInteraction, CassetteMode } from "./types.js";
+
+const RUN_PLACEHOLDER = "{{run_id}}";
+const TRACE_PLACEHOLDER = "{{trace_id}}";
+const TOKEN_PLACEHOLDER = "{{access_token}}";
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export interface CassetteContext {
+  scenarioId: string;
+  runId: string;
+  traceId: string;
+  accessToken: string;
+}
+
+export interface Cassette {
+  mode: CassetteMode;
+  filePath: string;
+  cloudflareEnabled: boolean;
+  fetch: typeof fetch;
+  save(): void;
+}
+
+function buildSubstitutions(context: CassetteContext): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [
+    [context.accessToken, TOKEN_PLACEHOLDER],
+    [context.traceId, TRACE_PLACEHOLDER],
+    [context.runId, RUN_PLACEHOLDER],
+  ];
+  return pairs.filter(([value]) => value.length > 0);
+}
+
+function scrub(text: string, substitutions: Array<[string, string]>): string {
+  return substitutions.reduce((out, [value, placeholder]) => out.split(value).join(placeholder), text);
+}
+
+function restore(text: string, substitutions: Array<[string, string]>): string {
+  return substitutions.reduce((out, [value, placeholder]) => out.split(placeholder).join(value), text);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => typeof v !== "undefined")
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function parseBody(body: string): unknown {
+  if (!body) return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export function classifyRequest(url: string): CassetteInteraction["kind"] {
+  if (url.includes("/workers/observability/telemetry/query")) return "cloudflare";
+  if (url.includes("api.anthropic.com") || url.includes("/v1/messages")) return "anthropic";
+  if (url.includes("api.openai.com") || url.includes("/responses") || url.includes("/chat/completions")) return "openai";
+  return "http";
+}
+
+/**
+ * Build the replay match key for a (scrubbed) request.
+ */
+export function buildInteractionKey(method: string, url: string, body: unknown): string {
+  const kind = classifyRequest(url);
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    // Relative or placeholder URL — match on the raw string.
+  }
+
+  let normalizedBody = body;
+  if (kind === "cloudflare") {
+    pathname = pathname.replace(/\/accounts\/[^/]+\//, "/accounts/*/");
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+      const { timeframe: _timeframe, ...rest } = body as Record<string, unknown>;
+      normalizedBody = rest;
+    }
+  }
+
+  return `${method.toUpperCase()} ${pathname} ${stableStringify(normalizedBody)}`;
+}
+
+function describeRequest(input: string | URL | Request, init?: RequestInit): {
+  method: string;
+  url: string;
+  body: string;
+} {
+  const url = input instanceof Request ? input.url : String(input);
+  const method = init?.method || (input instanceof Request ? input.method : "GET");
+  const body = typeof init?.body === "string" ? init.body : "";
+  return { method, url, body };
+}
+
+/**
+ * Create a cassette that forwards requests to `baseFetch` and records them.
+ */
+export function createRecordingCassette(
+  filePath: string,
+  context: CassetteContext,
+  options: { cloudflareEnabled: boolean; baseFetch?: typeof fetch }
+): Cassette {
+  const substitutions = buildSubstitutions(context);
+  const baseFetch = options.baseFetch ?? fetch;
+  const interactions: CassetteInteraction[] = [];
+
+  const recordingFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const response = await baseFetch(input, init);
+    const request = describeRequest(input, init);
+    const url = scrub(request.url, substitutions);
+    const body = parseBody(scrub(request.body, substitutions));
+    const responseText = await response.clone().text();
+
+    interactions.push({
+      kind: classifyRequest(url),
+      key: buildInteractionKey(request.method, url, body),
+      request: { method: request.method.toUpperCase(), url, body },
+      response: {
+        status: response.status,
+        headers: { "content-type": response.headers.get("content-type") || "application/json" },
+        body: scrub(responseText, substitutions),
+      },
+    });
+
+    return response;
+  }) as typeof fetch;
+
+  return {
+    mode: "record",
+    filePath,
+    cloudflareEnabled: options.cloudflareEnabled,
+    fetch: recordingFetch,
+    save() {
+      const cassette: CassetteFile = {
+        schema_version: "1.0",
+        scenario_id: context.scenarioId,
+        recorded_at: new Date().toISOString(),
+        cloudflare_enabled: options.cloudflareEnabled,
+        interactions,
+      };
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(cassette, null, 2));
+    },
+  };
+}
+
+/**
+ * Load a recorded cassette and serve its exchanges back in recorded order.
+ * Throws on any request that has no unused recorded counterpart.
+ */
+export function loadReplayCassette(filePath: string, context: CassetteContext): Cassette {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Cassette not found: ${filePath}`);
+  }
+
+  const cassette = JSON.parse(fs.readFileSync(filePath, "utf8")) as CassetteFile;
+  const substitutions = buildSubstitutions(context);
+  const used = new Set<number>();
+
+  const replayFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const request = describeRequest(input, init);
+    const url = scrub(request.url, substitutions);
+    const key = buildInteractionKey(request.method, url, parseBody(scrub(request.body, substitutions)));
+
+    const index = cassette.interactions.findIndex(
+      (interaction, i) => !used.has(i) && interaction.key === key
+    );
+    if (index === -1) {
+      throw new Error(
+        `Cassette miss: no recorded ${classifyRequest(url)} exchange for ${request.method.toUpperCase()} ${url} in ${filePath}`
+      );
+    }
+    used.add(index);
+
+    const recorded = cassette.interactions[index].response;
+    const body = NULL_BODY_STATUSES.has(recorded.status) ? null : restore(recorded.body, substitutions);
+    return new Response(body, {
+      status: recorded.status,
+      headers: recorded.headers,
+    });
+  }) as typeof fetch;
+
+  return {
+    mode: "replay",
+    filePath,
+    cloudflareEnabled: cassette.cloudflare_enabled,
+    fetch: replayFetch,
+    save() {
+      // Replay cassettes are read-only.
+    },
+  };
+}
@@ -18,10 +18,13 @@ export const WORKER_NAMES = [
   "auth-worker",
 ];
 const TIME_PADDING_MS = 30000;
+const DEFAULT_API_BASE_URL = "https://api.cloudflare.com/client/v4";
 
-interface CloudflareConfig {
+export interface CloudflareConfig {
   accountId: string;
   apiToken: string;
+  apiBaseUrl?: string;
+  fetch?: typeof fetch;
 }
 
 interface ObservabilitySource {
@@ -87,13 +90,13 @@ export function allowRunFallback(): boolean {
   return process.env.FLAIM_EVAL_ALLOW_RUN_FALLBACK === "1";
 }
 
-function getConfig(): CloudflareConfig {
+export function getCloudflareConfig(): CloudflareConfig {
   const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
   const apiToken = process.env.CLOUDFLARE_API_TOKEN;
   if (!accountId || !apiToken) {
     throw new Error("CLOUDFLARE_ACCOUNT_ID and CLOUDFLARE_API_TOKEN are required");
   }
-  return { accountId, apiToken };
+  return { accountId, apiToken, apiBaseUrl: process.env.CLOUDFLARE_API_BASE_URL || undefined };
 }
 
 export function buildTraceNeedles(traceId: string): string[] {
@@ -205,9 +208,10 @@ async function queryWorkerLogs(
     timeframe: { from, to },
   };
 
-  const url = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/workers/observability/telemetry/query`;
+  const baseUrl = (config.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+  const url = `${baseUrl}/accounts/${config.accountId}/workers/observability/telemetry/query`;
 
-  const response = await fetch(url, {
+  const response = await (config.fetch ?? fetch)(url, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${config.apiToken}`,
@@ -330,9 +334,9 @@ export async function fetchWorkerLogs(
   startTime: Date,
   endTime: Date,
   evalRunId: string,
-  traceId: string
+  traceId: string,
+  config: CloudflareConfig = getCloudflareConfig()
 ): Promise<ServerLogs> {
-  const config = getConfig();
   const logs: ServerLogs = {};
 
   const results = await Promise.allSettled(
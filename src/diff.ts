@@ -0,0 +1,402 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { isPassed } from "./summary.js";
+import type { RunManifest, RunSummary, ScenarioResult, TraceArtifact } from "./types.js";
+
+/**
+ * `npm run diff -- <run_a> <run_b>` — compare two runs scenario by scenario.
+ *
+ * Traces are aligned by scenario_id (and trial order when a scenario ran more
+ * than once). The markdown view is written to the newer run's directory as
+ * diff-<older_run_id>.md.
+ */
+
+export interface ArgChange {
+  call_index: number;
+  tool: string;
+  arg: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TextDiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+export interface ScenarioDiff {
+  scenario_id: string;
+  /** 1-based occurrence when the scenario has several traces. */
+  occurrence: number;
+  base_trace_id: string;
+  head_trace_id: string;
+  status: { before: ScenarioResult["status"]; after: ScenarioResult["status"] };
+  passed: { before: boolean; after: boolean };
+  tools: { before: string[]; after: string[] };
+  arg_changes: ArgChange[];
+  workers: { before: string[]; after: string[] };
+  tokens: { before: number; after: number };
+  duration_ms: { before: number; after: number };
+  /** Line diff of final_text; empty when the answers are identical. */
+  final_text_diff: TextDiffLine[];
+}
+
+export interface RunDiff {
+  base_run_id: string;
+  head_run_id: string;
+  scenarios: ScenarioDiff[];
+  /** Scenarios (or extra trials) only in the head run. */
+  added: string[];
+  /** Scenarios (or extra trials) only in the base run. */
+  removed: string[];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+function getRunDir(runId: string): string {
+  return path.resolve(import.meta.dirname, "../runs", runId);
+}
+
+function readTrace(runDir: string, traceId: string): TraceArtifact | null {
+  const tracePath = path.join(runDir, traceId, "trace.json");
+  return fs.existsSync(tracePath) ? readJson<TraceArtifact>(tracePath) : null;
+}
+
+function traceWorkers(trace: TraceArtifact | null): string[] {
+  if (!trace) return [];
+  return trace.enrichment?.actual_workers ?? Object.keys(trace.server_logs ?? {}).sort();
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Per-argument changes between the calls at the same position in both traces.
+ */
+export function diffToolArgs(before: TraceArtifact | null, after: TraceArtifact | null): ArgChange[] {
+  const beforeCalls = before?.llm_response.tool_calls ?? [];
+  const afterCalls = after?.llm_response.tool_calls ?? [];
+  const changes: ArgChange[] = [];
+  for (let index = 0; index < Math.min(beforeCalls.length, afterCalls.length); index += 1) {
+    const a = beforeCalls[index];
+    const b = afterCalls[index];
+    // A different tool at this position is already visible in the tool sequence.
+    if (a.tool_name !== b.tool_name) continue;
+    const keys = [...new Set([...Object.keys(a.args), ...Object.keys(b.args)])].sort();
+    for (const arg of keys) {
+      if (!sameJson(a.args[arg], b.args[arg])) {
+        changes.push({ call_index: index, tool: a.tool_name, arg, before: a.args[arg], after: b.args[arg] });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Line-level LCS diff. Answers are short, so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): TextDiffLine[] {
+  if (before === after) return [];
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: " ", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: "-", text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ op: "+", text: b[j] });
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) lines.push({ op: "-", text: a[i] });
+  for (; j < b.length; j += 1) lines.push({ op: "+", text: b[j] });
+  return lines;
+}
+
+function groupRows(summary: RunSummary): Map<string, ScenarioResult[]> {
+  const groups = new Map<string, ScenarioResult[]>();
+  for (const row of summary.scenarios) {
+    groups.set(row.id, [...(groups.get(row.id) ?? []), row]);
+  }
+  return groups;
+}
+
+/**
+ * Compare two run directories. Both need summary.json; trace.json files are
+ * read when present for arguments, workers and answers.
+ */
+export function diffRuns(baseDir: string, headDir: string): RunDiff {
+  const base = readJson<RunSummary>(path.join(baseDir, "summary.json"));
+  const head = readJson<RunSummary>(path.join(headDir, "summary.json"));
+  const baseGroups = groupRows(base);
+  const headGroups = groupRows(head);
+
+  const diff: RunDiff = { base_run_id: base.run_id, head_run_id: head.run_id, scenarios: [], added: [], removed: [] };
+  const label = (id: string, occurrence: number, total: number) => (total > 1 ? `${id} #${occurrence}` : id);
+
+  for (const [id, baseRows] of baseGroups) {
+    const headRows = headGroups.get(id) ?? [];
+    baseRows.forEach((before, index) => {
+      const after = headRows[index];
+      if (!after) {
+        diff.removed.push(label(id, index + 1, baseRows.length));
+        return;
+      }
+      const beforeTrace = readTrace(baseDir, before.trace_id);
+      const afterTrace = readTrace(headDir, after.trace_id);
+      diff.scenarios.push({
+        scenario_id: id,
+        occurrence: index + 1,
+        base_trace_id: before.trace_id,
+        head_trace_id: after.trace_id,
+        status: { before: before.status, after: after.status },
+        passed: { before: isPassed(before), after: isPassed(after) },
+        tools: { before: before.tool_calls, after: after.tool_calls },
+        arg_changes: diffToolArgs(beforeTrace, afterTrace),
+        workers: { before: traceWorkers(beforeTrace), after: traceWorkers(afterTrace) },
+        tokens: { before: before.total_tokens ?? 0, after: after.total_tokens ?? 0 },
+        duration_ms: { before: before.duration_ms, after: after.duration_ms },
+        final_text_diff: diffLines(
+          beforeTrace?.llm_response.final_text ?? "",
+          afterTrace?.llm_response.final_text ?? ""
+        ),
+      });
+    });
+    headRows.slice(baseRows.length).forEach((_, offset) => {
+      diff.added.push(label(id, baseRows.length + offset + 1, headRows.length));
+    });
+  }
+  for (const [id, headRows] of headGroups) {
+    if (!baseGroups.has(id)) {
+      headRows.forEach((_, index) => diff.added.push(label(id, index + 1, headRows.length)));
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * True when anything other than tokens/latency differs.
+ */
+export function hasBehaviorChange(entry: ScenarioDiff): boolean {
+  return (
+    entry.status.before !== entry.status.after ||
+    entry.passed.before !== entry.passed.after ||
+    !sameJson(entry.tools.before, entry.tools.after) ||
+    entry.arg_changes.length > 0 ||
+    !sameJson(entry.workers.before, entry.workers.after) ||
+    entry.final_text_diff.length > 0
+  );
+}
+
+function fmtDelta(before: number, after: number, unit = ""): string {
+  const delta = after - before;
+  if (delta === 0) return `${after}${unit} (=)`;
+  const sign = delta > 0 ? "+" : "";
+  const pct = before > 0 ? `, ${sign}${((delta / before) * 100).toFixed(0)}%` : "";
+  return `${before}${unit} → ${after}${unit} (${sign}${delta}${unit}${pct})`;
+}
+
+function fmtPassed(value: boolean): string {
+  return value ? "pass" : "fail";
+}
+
+function fmtSequence(tools: string[]): string {
+  return tools.length > 0 ? tools.join(" → ") : "(none)";
+}
+
+function fmtValue(value: unknown): string {
+  return value === undefined ? "(missing)" : JSON.stringify(value);
+}
+
+function scenarioLabel(entry: ScenarioDiff, diff: RunDiff): string {
+  const repeated = diff.scenarios.filter((other) => other.scenario_id === entry.scenario_id).length > 1;
+  return repeated ? `${entry.scenario_id} #${entry.occurrence}` : entry.scenario_id;
+}
+
+function changeLines(entry: ScenarioDiff): string[] {
+  const lines: string[] = [];
+  if (entry.status.before !== entry.status.after) {
+    lines.push(`Status: ${entry.status.before} → ${entry.status.after}`);
+  }
+  if (entry.passed.before !== entry.passed.after) {
+    lines.push(`Verdict: ${fmtPassed(entry.passed.before)} → ${fmtPassed(entry.passed.after)}`);
+  }
+  if (!sameJson(entry.tools.before, entry.tools.after)) {
+    lines.push(`Tools: ${fmtSequence(entry.tools.before)} ⇒ ${fmtSequence(entry.tools.after)}`);
+  }
+  for (const change of entry.arg_changes) {
+    lines.push(`Arg: ${change.tool}[${change.call_index}].${change.arg}: ${fmtValue(change.before)} → ${fmtValue(change.after)}`);
+  }
+  if (!sameJson(entry.workers.before, entry.workers.after)) {
+    lines.push(`Workers: ${entry.workers.before.join(", ") || "none"} ⇒ ${entry.workers.after.join(", ") || "none"}`);
+  }
+  return lines;
+}
+
+/**
+ * Compact terminal view: counts, then only scenarios whose behavior changed.
+ */
+export function formatDiffTerminal(diff: RunDiff): string {
+  const changed = diff.scenarios.filter(hasBehaviorChange);
+  const fixed = diff.scenarios.filter((entry) => !entry.passed.before && entry.passed.after).length;
+  const regressed = diff.scenarios.filter((entry) => entry.passed.before && !entry.passed.after).length;
+
+  const lines: string[] = [];
+  lines.push(`=== Diff ${diff.base_run_id} → ${diff.head_run_id} ===`);
+  lines.push(
+    `Compared: ${diff.scenarios.length}  Changed: ${changed.length}  Fixed: ${fixed}  Regressed: ${regressed}  Added: ${diff.added.length}  Removed: ${diff.removed.length}`
+  );
+  const tokens = diff.scenarios.reduce(
+    (sum, entry) => ({ before: sum.before + entry.tokens.before, after: sum.after + entry.tokens.after }),
+    { before: 0, after: 0 }
+  );
+  const duration = diff.scenarios.reduce(
+    (sum, entry) => ({ before: sum.before + entry.duration_ms.before, after: sum.after + entry.duration_ms.after }),
+    { before: 0, after: 0 }
+  );
+  lines.push(`Tokens:   ${fmtDelta(tokens.before, tokens.after)}`);
+  lines.push(`Duration: ${fmtDelta(duration.before, duration.after, "ms")}`);
+  lines.push("");
+
+  for (const entry of changed) {
+    const marker = entry.passed.before === entry.passed.after ? "~" : entry.passed.after ? "✓" : "✗";
+    lines.push(`${marker} ${scenarioLabel(entry, diff)}`);
+    for (const line of changeLines(entry)) {
+      lines.push(`    ${line}`);
+    }
+    if (entry.final_text_diff.length > 0) {
+      lines.push("    Answer:");
+      for (const line of entry.final_text_diff.filter((diffLine) => diffLine.op !== " ")) {
+        lines.push(`      ${line.op} ${line.text}`);
+      }
+    }
+  }
+  for (const id of diff.added) lines.push(`+ ${id} (only in ${diff.head_run_id})`);
+  for (const id of diff.removed) lines.push(`- ${id} (only in ${diff.base_run_id})`);
+  return lines.join("\n");
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ").trim();
+}
+
+export function buildDiffMarkdown(diff: RunDiff): string {
+  const lines: string[] = [];
+  lines.push(`# Run Diff: ${diff.base_run_id} → ${diff.head_run_id}`);
+  lines.push("");
+  lines.push(`- Generated at: ${new Date().toISOString()}`);
+  lines.push(`- Base run: ${diff.base_run_id}`);
+  lines.push(`- Head run: ${diff.head_run_id}`);
+  lines.push(`- Scenarios compared: ${diff.scenarios.length}`);
+  lines.push(`- Behavior changed: ${diff.scenarios.filter(hasBehaviorChange).length}`);
+  if (diff.added.length > 0) lines.push(`- Only in head: ${diff.added.join(", ")}`);
+  if (diff.removed.length > 0) lines.push(`- Only in base: ${diff.removed.join(", ")}`);
+  lines.push("");
+
+  lines.push("## Overview");
+  lines.push("");
+  lines.push("| Scenario | Verdict | Tools | Args | Workers | Answer | Tokens | Duration (ms) |");
+  lines.push("| --- | --- | --- | --- | --- | --- | --- | --- |");
+  for (const entry of diff.scenarios) {
+    const verdict =
+      entry.passed.before === entry.passed.after
+        ? fmtPassed(entry.passed.after)
+        : `${fmtPassed(entry.passed.before)} → **${fmtPassed(entry.passed.after)}**`;
+    lines.push(
+      `| ${escapeCell(scenarioLabel(entry, diff))} | ${verdict} | ${
+        sameJson(entry.tools.before, entry.tools.after) ? "same" : "**changed**"
+      } | ${entry.arg_changes.length > 0 ? `**${entry.arg_changes.length} changed**` : "same"} | ${
+        sameJson(entry.workers.before, entry.workers.after) ? "same" : "**changed**"
+      } | ${entry.final_text_diff.length > 0 ? "**changed**" : "same"} | ${fmtDelta(
+        entry.tokens.before,
+        entry.tokens.after
+      )} | ${fmtDelta(entry.duration_ms.before, entry.duration_ms.after)} |`
+    );
+  }
+  lines.push("");
+
+  const changed = diff.scenarios.filter(hasBehaviorChange);
+  if (changed.length > 0) {
+    lines.push("## Changes");
+    lines.push("");
+    for (const entry of changed) {
+      lines.push(`### ${scenarioLabel(entry, diff)}`);
+      lines.push("");
+      lines.push(`- Traces: \`${entry.base_trace_id}\` → \`${entry.head_trace_id}\``);
+      for (const line of changeLines(entry)) {
+        lines.push(`- ${line}`);
+      }
+      if (entry.final_text_diff.length > 0) {
+        lines.push("");
+        lines.push("```diff");
+        for (const line of entry.final_text_diff) {
+          lines.push(`${line.op}${line.text}`);
+        }
+        lines.push("```");
+      }
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function runTimestamp(runDir: string): string {
+  const manifestPath = path.join(runDir, "manifest.json");
+  return fs.existsSync(manifestPath) ? readJson<RunManifest>(manifestPath).timestamp_utc : path.basename(runDir);
+}
+
+export async function runCli() {
+  const [, , firstId, secondId] = process.argv;
+  if (!firstId || !secondId) {
+    fail("Usage: npm run diff -- <run_id> <run_id>");
+  }
+
+  for (const runId of [firstId, secondId]) {
+    if (!fs.existsSync(path.join(getRunDir(runId), "summary.json"))) {
+      fail(`summary.json not found for run: ${runId}`);
+    }
+  }
+
+  // Whichever run started later is the head, regardless of argument order.
+  const [baseId, headId] =
+    runTimestamp(getRunDir(firstId)) <= runTimestamp(getRunDir(secondId)) ? [firstId, secondId] : [secondId, firstId];
+  const diff = diffRuns(getRunDir(baseId), getRunDir(headId));
+
+  console.log(formatDiffTerminal(diff));
+  const outputPath = path.join(getRunDir(headId), `diff-${baseId}.md`);
+  fs.writeFileSync(outputPath, buildDiffMarkdown(diff));
+  console.log(`\nWrote diff: ${outputPath}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
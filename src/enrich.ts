@@ -2,7 +2,12 @@ import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
-import { allowRunFallback, fetchWorkerLogs, isCloudflareConfigured } from "./cloudflare-logs.js";
+import {
+  allowRunFallback,
+  fetchWorkerLogs,
+  isCloudflareConfigured,
+  type CloudflareConfig,
+} from "./cloudflare-logs.js";
 import { readTraceArtifact, writeTraceArtifact } from "./artifacts.js";
 import { getActualWorkers, getMissingWorkers, inferExpectedWorkers } from "./coverage.js";
 import { mergeServerLogs } from "./logs-merge.js";
@@ -98,80 +103,183 @@ export function resolveTraceIds(
     .sort();
 }
 
-type EnrichResult = {
+export type EnrichResult = {
   attempts: number;
   expectedWorkers: string[];
   actualWorkers: string[];
   missingWorkers: string[];
 };
 
-async function enrichTrace(runDir: string, traceId: string): Promise<EnrichResult> {
+export type EnrichmentSchedule = {
+  maxAttempts: number;
+  delayMs: number;
+  expandMs: number;
+};
+
+export type TraceEnrichOutcome = {
+  traceId: string;
+  result?: EnrichResult;
+  error?: string;
+};
+
+export type EnrichTracesOptions = {
+  mode: "reenrich" | "deferred";
+  schedule?: EnrichmentSchedule;
+  /** Per-trace Cloudflare config (e.g. a cassette fetch); env config when omitted. */
+  resolveConfig?: (artifact: TraceArtifact) => CloudflareConfig | undefined;
+  onTraceDone?: (outcome: TraceEnrichOutcome) => void;
+};
+
+type PendingTrace = {
+  artifact: TraceArtifact;
+  config: CloudflareConfig | undefined;
+  baseWindow: { start: Date; end: Date };
+  expectedWorkers: string[];
+  logs: NonNullable<TraceArtifact["server_logs"]>;
+  actualWorkers: string[];
+  missingWorkers: string[];
+  attempts: number;
+  lastError: Error | null;
+};
+
+const NOTE_PREFIX = {
+  reenrich: { found: "Re-enriched worker logs", empty: "Re-enrichment found no worker logs" },
+  deferred: { found: "Deferred enrichment captured worker logs", empty: "Deferred enrichment found no worker logs" },
+};
+
+export function getReenrichSchedule(): EnrichmentSchedule {
+  return {
+    maxAttempts: getReenrichAttempts(),
+    delayMs: getReenrichDelayMs(),
+    expandMs: getWindowExpandMs(),
+  };
+}
+
+function startTrace(runDir: string, traceId: string, options: EnrichTracesOptions): PendingTrace {
   const artifact = readTraceArtifact(runDir, traceId);
   const expectedWorkers = inferExpectedWorkers(artifact);
-  const maxAttempts = getReenrichAttempts();
-  const delayMs = getReenrichDelayMs();
-  const expandMs = getWindowExpandMs();
-
-  const baseWindow = buildReenrichWindow(artifact);
-  let attemptsUsed = 0;
-  let selectedLogs = artifact.server_logs || {};
-  let selectedActualWorkers = getActualWorkers({ ...artifact, server_logs: selectedLogs });
-  let selectedMissingWorkers = getMissingWorkers(expectedWorkers, selectedActualWorkers);
-
-  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-    attemptsUsed = attempt;
-    const { start, end } = buildAttemptWindow(baseWindow, attempt, expandMs);
-
-    const logs = await fetchWorkerLogs(start, end, artifact.run_id, artifact.trace_id);
-    selectedLogs = mergeServerLogs(selectedLogs, logs);
-    selectedActualWorkers = Object.keys(selectedLogs).sort();
-    selectedMissingWorkers = getMissingWorkers(expectedWorkers, selectedActualWorkers);
-
-    if (selectedMissingWorkers.length === 0) {
-      break;
-    }
-
-    if (attempt < maxAttempts) {
-      await sleep(delayMs);
-    }
-  }
+  const logs = artifact.server_logs || {};
+  const actualWorkers = getActualWorkers({ ...artifact, server_logs: logs });
+  return {
+    artifact,
+    config: options.resolveConfig?.(artifact),
+    baseWindow: buildReenrichWindow(artifact),
+    expectedWorkers,
+    logs,
+    actualWorkers,
+    missingWorkers: getMissingWorkers(expectedWorkers, actualWorkers),
+    attempts: 0,
+    lastError: null,
+  };
+}
 
+function finishTrace(runDir: string, trace: PendingTrace, mode: EnrichTracesOptions["mode"]): EnrichResult {
+  const { artifact } = trace;
   const now = new Date().toISOString();
-  const workerCount = Object.keys(selectedLogs).length;
+  const workerCount = Object.keys(trace.logs).length;
 
   if (workerCount > 0) {
-    artifact.server_logs = selectedLogs;
+    artifact.server_logs = trace.logs;
+    artifact.notes.push(`${NOTE_PREFIX[mode].found} at ${now} (${workerCount} workers, attempts=${trace.attempts}).`);
+  } else if (trace.lastError) {
     artifact.notes.push(
-      `Re-enriched worker logs at ${now} (${workerCount} workers, attempts=${attemptsUsed}).`
+      `Server log enrichment failed after ${trace.attempts} attempts: ${trace.lastError.message}`
     );
   } else {
-    artifact.notes.push(
-      `Re-enrichment found no worker logs at ${now} (attempts=${attemptsUsed}).`
-    );
+    artifact.notes.push(`${NOTE_PREFIX[mode].empty} at ${now} (attempts=${trace.attempts}).`);
   }
 
   artifact.enrichment = {
-    mode: "reenrich",
-    attempts: attemptsUsed,
+    mode,
+    attempts: trace.attempts,
     strict_trace_isolation: !allowRunFallback(),
-    expected_workers: expectedWorkers,
-    actual_workers: selectedActualWorkers,
-    missing_workers: selectedMissingWorkers,
+    expected_workers: trace.expectedWorkers,
+    actual_workers: trace.actualWorkers,
+    missing_workers: trace.missingWorkers,
     generated_at: now,
   };
 
   artifact.notes.push(
-    `Coverage expected=[${expectedWorkers.join(",")}] actual=[${selectedActualWorkers.join(",")}] missing=[${selectedMissingWorkers.join(",")}]`
+    `Coverage expected=[${trace.expectedWorkers.join(",")}] actual=[${trace.actualWorkers.join(",")}] missing=[${trace.missingWorkers.join(",")}]`
   );
 
   writeTraceArtifact(runDir, artifact);
 
   return {
-    attempts: attemptsUsed,
-    expectedWorkers,
-    actualWorkers: selectedActualWorkers,
-    missingWorkers: selectedMissingWorkers,
+    attempts: trace.attempts,
+    expectedWorkers: trace.expectedWorkers,
+    actualWorkers: trace.actualWorkers,
+    missingWorkers: trace.missingWorkers,
+  };
+}
+
+/**
+ * Enrich many traces in rounds that share one backoff: each round queries
+ * every still-incomplete trace, then waits once before the next. Wall time is
+ * bounded by the slowest trace instead of the sum of per-trace retries.
+ *
+ * `reenrich` treats a query error as fatal for that trace; `deferred` retries
+ * it like the inline enrichment loop in the runner.
+ */
+export async function enrichTraces(
+  runDir: string,
+  traceIds: string[],
+  options: EnrichTracesOptions
+): Promise<TraceEnrichOutcome[]> {
+  const schedule = options.schedule ?? getReenrichSchedule();
+  const outcomes = new Map<string, TraceEnrichOutcome>();
+  const settle = (outcome: TraceEnrichOutcome) => {
+    outcomes.set(outcome.traceId, outcome);
+    options.onTraceDone?.(outcome);
   };
+
+  let pending: PendingTrace[] = [];
+  for (const traceId of traceIds) {
+    try {
+      pending.push(startTrace(runDir, traceId, options));
+    } catch (error) {
+      settle({ traceId, error: (error as Error).message });
+    }
+  }
+
+  for (let attempt = 1; attempt <= schedule.maxAttempts && pending.length > 0; attempt += 1) {
+    if (attempt > 1) {
+      await sleep(schedule.delayMs);
+    }
+
+    const stillMissing: PendingTrace[] = [];
+    for (const trace of pending) {
+      const traceId = trace.artifact.trace_id;
+      trace.attempts = attempt;
+      const { start, end } = buildAttemptWindow(trace.baseWindow, attempt, schedule.expandMs);
+
+      try {
+        const logs = await fetchWorkerLogs(start, end, trace.artifact.run_id, traceId, trace.config);
+        trace.logs = mergeServerLogs(trace.logs, logs);
+        trace.actualWorkers = Object.keys(trace.logs).sort();
+        trace.missingWorkers = getMissingWorkers(trace.expectedWorkers, trace.actualWorkers);
+      } catch (error) {
+        if (options.mode === "reenrich") {
+          settle({ traceId, error: (error as Error).message });
+          continue;
+        }
+        trace.lastError = error as Error;
+      }
+
+      if (trace.missingWorkers.length === 0) {
+        settle({ traceId, result: finishTrace(runDir, trace, options.mode) });
+      } else {
+        stillMissing.push(trace);
+      }
+    }
+    pending = stillMissing;
+  }
+
+  for (const trace of pending) {
+    settle({ traceId: trace.artifact.trace_id, result: finishTrace(runDir, trace, options.mode) });
+  }
+
+  return traceIds.map((traceId) => outcomes.get(traceId) ?? { traceId, error: "not enriched" });
 }
 
 export async function runCli() {
@@ -199,19 +307,21 @@ export async function runCli() {
 
   let completed = 0;
   let failed = 0;
-  for (const id of traceIds) {
-    process.stdout.write(`Re-enriching ${id}... `);
-    try {
-      const result = await enrichTrace(runDir, id);
-      completed += 1;
-      process.stdout.write(
-        `ok (attempts=${result.attempts}, missing=${result.missingWorkers.length ? result.missingWorkers.join(",") : "none"})\n`
-      );
-    } catch (error) {
-      failed += 1;
-      process.stdout.write(`failed (${(error as Error).message})\n`);
-    }
-  }
+  console.log(`Re-enriching ${traceIds.length} trace(s)...`);
+  await enrichTraces(runDir, traceIds, {
+    mode: "reenrich",
+    onTraceDone: ({ traceId: id, result, error }) => {
+      if (result) {
+        completed += 1;
+        console.log(
+          `  ${id}: ok (attempts=${result.attempts}, missing=${result.missingWorkers.length ? result.missingWorkers.join(",") : "none"})`
+        );
+      } else {
+        failed += 1;
+        console.log(`  ${id}: failed (${error})`);
+      }
+    },
+  });
 
   console.log(`Done. Updated ${completed}/${traceIds.length} traces.`);
   if (failed > 0) {
@@ -0,0 +1,281 @@
+import fs from "node:fs";
+import path from "node:path";
+import { isPassed } from "./summary.js";
+import type { RunSummary, ScenarioResult } from "./types.js";
+
+/**
+ * CI exporters for `npm run accept|report -- <run_id> --format junit,tap`:
+ * runs/<run_id>/junit.xml and runs/<run_id>/results.tap, built from
+ * summary.json plus acceptance-summary.json when it exists.
+ *
+ * Both formats share one test case per trace, followed by an "acceptance"
+ * case for the run-level verdict.
+ */
+
+export type ExportFormat = "junit" | "tap";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["junit", "tap"];
+
+const EXPORT_FILES: Record<ExportFormat, string> = {
+  junit: "junit.xml",
+  tap: "results.tap",
+};
+
+export interface ExportReason {
+  code: string;
+  message: string;
+}
+
+export interface ExportAcceptance {
+  final_status?: string;
+  fail_reasons?: Array<{ code?: string; message?: string; trace_ids?: string[] }>;
+  warn_reasons?: Array<{ code?: string; message?: string; trace_ids?: string[] }>;
+}
+
+export interface ExportCase {
+  /** Scenario id, or "acceptance" for the run-level case. */
+  classname: string;
+  name: string;
+  duration_ms: number;
+  status: "passed" | "failed" | "error";
+  failures: ExportReason[];
+  warnings: ExportReason[];
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Split `<run_id> [--format junit,tap]`. Throws on an unknown format or option.
+ */
+export function parseExportArgs(argv: string[]): { runId: string | undefined; formats: ExportFormat[] } {
+  let runId: string | undefined;
+  const formats: ExportFormat[] = [];
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--format") {
+      const values = (argv[i + 1] ?? "").split(",").map((value) => value.trim()).filter(Boolean);
+      if (values.length === 0) {
+        throw new Error(`--format requires a value (${EXPORT_FORMATS.join(", ")})`);
+      }
+      for (const value of values) {
+        if (!isExportFormat(value)) {
+          throw new Error(`Unknown format: ${value} (expected one of ${EXPORT_FORMATS.join(", ")})`);
+        }
+        if (!formats.includes(value)) formats.push(value);
+      }
+      i += 1;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      runId ??= arg;
+    }
+  }
+  return { runId, formats };
+}
+
+function reasonsFor(
+  reasons: ExportAcceptance["fail_reasons"],
+  traceId: string
+): ExportReason[] {
+  return (reasons ?? [])
+    .filter((reason) => reason.trace_ids?.includes(traceId))
+    .map((reason) => ({ code: reason.code ?? "UNKNOWN", message: reason.message ?? "" }));
+}
+
+function scenarioFailures(row: ScenarioResult): ExportReason[] {
+  if (row.status === "error") {
+    return [{ code: "SCENARIO_ERROR", message: row.error ?? "Scenario errored." }];
+  }
+  const failures: ExportReason[] = [];
+  if (!row.expected_tools_hit) {
+    failures.push({
+      code: "ROUTING_MISMATCH",
+      message:
+        row.routing_violations?.join("; ") ||
+        `Expected ${row.expected_tools.join(" -> ") || "(none)"}, called ${row.tool_calls.join(" -> ") || "(none)"}.`,
+    });
+  }
+  if (row.args_match === false) {
+    const mismatches = (row.arg_checks ?? [])
+      .filter((check) => !check.passed)
+      .map((check) => {
+        const prefix = check.turn === undefined ? "" : `turn ${check.turn + 1}: `;
+        return check.call_index === null
+          ? `${prefix}${check.tool} was not called`
+          : check.mismatches
+              .map(
+                (mismatch) =>
+                  `${prefix}${check.tool}.${mismatch.arg} expected ${mismatch.expected}, got ${
+                    mismatch.actual === undefined ? "(missing)" : JSON.stringify(mismatch.actual)
+                  }`
+              )
+              .join(", ");
+      });
+    failures.push({ code: "ARGS_MISMATCH", message: mismatches.join("; ") || "Argument assertions failed." });
+  }
+  if (failures.length === 0 && !isPassed(row)) {
+    failures.push({ code: "FAILED", message: "Scenario did not pass." });
+  }
+  return failures;
+}
+
+/**
+ * One case per trace, then the acceptance case (when acceptance has run).
+ * Acceptance reasons that name a trace are attached to that trace's case too.
+ */
+export function buildExportCases(summary: RunSummary, acceptance: ExportAcceptance | null): ExportCase[] {
+  const cases: ExportCase[] = summary.scenarios.map((row) => {
+    const failures = [...scenarioFailures(row), ...reasonsFor(acceptance?.fail_reasons, row.trace_id)];
+    return {
+      classname: row.id,
+      name: row.trial !== undefined ? `${row.trace_id} (trial ${row.trial})` : row.trace_id,
+      duration_ms: row.duration_ms,
+      status: row.status === "error" ? "error" : failures.length > 0 ? "failed" : "passed",
+      failures,
+      warnings: reasonsFor(acceptance?.warn_reasons, row.trace_id),
+    };
+  });
+
+  if (acceptance) {
+    const toReason = (reason: NonNullable<ExportAcceptance["fail_reasons"]>[number]): ExportReason => ({
+      code: reason.code ?? "UNKNOWN",
+      message: `${reason.message ?? ""}${reason.trace_ids?.length ? ` (${reason.trace_ids.join(", ")})` : ""}`,
+    });
+    const failures = (acceptance.fail_reasons ?? []).map(toReason);
+    cases.push({
+      classname: "acceptance",
+      name: `acceptance ${summary.run_id}`,
+      duration_ms: 0,
+      status: acceptance.final_status === "fail" || failures.length > 0 ? "failed" : "passed",
+      failures,
+      warnings: (acceptance.warn_reasons ?? []).map(toReason),
+    });
+  }
+  return cases;
+}
+
+/**
+ * Upstream errors often carry ANSI color codes or other control bytes, which
+ * XML 1.0 forbids even as character references. Color codes are dropped and
+ * any other illegal character becomes U+FFFD.
+ */
+function toXmlChars(value: string): string {
+  return value
+    .replace(/\u001b\[[0-9;]*[A-Za-z]/g, "")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "\ufffd");
+}
+
+function escapeXml(value: string): string {
+  return toXmlChars(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function fmtReasons(reasons: ExportReason[], prefix = ""): string {
+  return reasons.map((reason) => `${prefix}${reason.code}: ${reason.message}`).join("\n");
+}
+
+/**
+ * JUnit XML. A case's failures become one <failure> (or <error> for errored
+ * traces) whose type is the first reason code; warnings go to <system-out>.
+ */
+export function buildJunitXml(summary: RunSummary, acceptance: ExportAcceptance | null): string {
+  const cases = buildExportCases(summary, acceptance);
+  const failures = cases.filter((testCase) => testCase.status === "failed").length;
+  const errors = cases.filter((testCase) => testCase.status === "error").length;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const totalMs = cases.reduce((sum, testCase) => sum + testCase.duration_ms, 0);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(
+    `<testsuites name="flaim-eval" tests="${cases.length}" failures="${failures}" errors="${errors}" time="${seconds(totalMs)}">`
+  );
+  lines.push(
+    `  <testsuite name="${escapeXml(summary.run_id)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="0" time="${seconds(totalMs)}">`
+  );
+  lines.push("    <properties>");
+  lines.push(`      <property name="model" value="${escapeXml(summary.model)}"/>`);
+  if (summary.provider) {
+    lines.push(`      <property name="provider" value="${escapeXml(summary.provider)}"/>`);
+  }
+  lines.push(`      <property name="acceptance" value="${escapeXml(acceptance?.final_status ?? "not generated")}"/>`);
+  lines.push("    </properties>");
+  for (const testCase of cases) {
+    const open = `    <testcase classname="${escapeXml(testCase.classname)}" name="${escapeXml(testCase.name)}" time="${seconds(testCase.duration_ms)}"`;
+    if (testCase.failures.length === 0 && testCase.warnings.length === 0) {
+      lines.push(`${open}/>`);
+      continue;
+    }
+    lines.push(`${open}>`);
+    if (testCase.failures.length > 0) {
+      const tag = testCase.status === "error" ? "error" : "failure";
+      const [first] = testCase.failures;
+      lines.push(
+        `      <${tag} type="${escapeXml(first.code)}" message="${escapeXml(first.message)}">${escapeXml(fmtReasons(testCase.failures))}</${tag}>`
+      );
+    }
+    if (testCase.warnings.length > 0) {
+      lines.push(`      <system-out>${escapeXml(fmtReasons(testCase.warnings, "WARN "))}</system-out>`);
+    }
+    lines.push("    </testcase>");
+  }
+  lines.push("  </testsuite>");
+  lines.push("</testsuites>");
+  lines.push("");
+  return lines.join("\n");
+}
+
+function yamlReasons(key: string, reasons: ExportReason[]): string[] {
+  if (reasons.length === 0) return [];
+  return [
+    `  ${key}:`,
+    ...reasons.flatMap((reason) => [`    - code: ${reason.code}`, `      message: ${JSON.stringify(reason.message)}`]),
+  ];
+}
+
+/**
+ * TAP version 13. Failures and warnings go in each test point's YAML block.
+ */
+export function buildTap(summary: RunSummary, acceptance: ExportAcceptance | null): string {
+  const cases = buildExportCases(summary, acceptance);
+  const lines: string[] = ["TAP version 13", `1..${cases.length}`];
+  cases.forEach((testCase, index) => {
+    const description = testCase.classname === "acceptance" ? testCase.name : `${testCase.classname} ${testCase.name}`;
+    lines.push(`${testCase.status === "passed" ? "ok" : "not ok"} ${index + 1} - ${description.replace(/#/g, "\\#")}`);
+    const yaml = [
+      ...(testCase.status === "error" ? ["  severity: error"] : []),
+      ...yamlReasons("failures", testCase.failures),
+      ...yamlReasons("warnings", testCase.warnings),
+    ];
+    if (yaml.length > 0) {
+      lines.push("  ---", ...yaml, "  ...");
+    }
+  });
+  const passed = cases.filter((testCase) => testCase.status === "passed").length;
+  lines.push(`# run ${summary.run_id}: ${passed}/${cases.length} passed`);
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Write the requested formats into the run directory and return their paths.
+ */
+export function writeExports(
+  runDir: string,
+  formats: ExportFormat[],
+  summary: RunSummary,
+  acceptance: ExportAcceptance | null
+): string[] {
+  return formats.map((format) => {
+    const outputPath = path.join(runDir, EXPORT_FILES[format]);
+    const content = format === "junit" ? buildJunitXml(summary, acceptance) : buildTap(summary, acceptance);
+    fs.writeFileSync(outputPath, content);
+    return outputPath;
+  });
+}
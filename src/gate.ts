@@ -0,0 +1,289 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { loadBaseline, snapshotRun, type BaselineRecord } from "./baseline.js";
+
+/**
+ * `npm run gate -- <run_id>` — compare a run with the pinned baseline for its
+ * model and instructions files, write runs/<run_id>/gate-verdict.json and
+ * exit 1 on any regression.
+ */
+
+export interface GateThresholds {
+  /** Largest allowed drop in pass rate, as a fraction (0.05 = 5 points). */
+  max_pass_rate_drop: number;
+  /** Largest allowed relative increase in mean tokens per trace. */
+  max_token_increase: number;
+  /** Largest allowed relative increase in mean latency per trace. */
+  max_latency_increase: number;
+}
+
+export const DEFAULT_GATE_THRESHOLDS: GateThresholds = {
+  max_pass_rate_drop: 0.05,
+  max_token_increase: 0.2,
+  max_latency_increase: 0.5,
+};
+
+export interface GateReason {
+  code: string;
+  message: string;
+  scenario_ids: string[];
+}
+
+interface MetricPair<T> {
+  baseline: T;
+  current: T;
+}
+
+export interface GateVerdict {
+  run_id: string;
+  baseline: { key: string; run_id: string; pinned_at: string };
+  generated_at: string;
+  thresholds: GateThresholds;
+  /** Pass rate, tokens and latency cover only scenarios present in both runs. */
+  metrics: {
+    compared_scenarios: number;
+    pass_rate: MetricPair<number>;
+    mean_tokens: MetricPair<number>;
+    mean_duration_ms: MetricPair<number>;
+    acceptance_status: MetricPair<"pass" | "fail" | null>;
+  };
+  regressions: GateReason[];
+  warnings: GateReason[];
+  verdict: "pass" | "fail";
+}
+
+type Snapshot = Omit<BaselineRecord, "pinned_at">;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function getRunDir(runId: string): string {
+  return path.resolve(import.meta.dirname, "../runs", runId);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function totals(scenarios: Snapshot["scenarios"]) {
+  const runs = scenarios.reduce((sum, scenario) => sum + scenario.runs, 0);
+  // Means are weighted by finished traces; baselines pinned before ok_runs existed fall back to runs.
+  const okRuns = (scenario: Snapshot["scenarios"][number]) => scenario.ok_runs ?? scenario.runs;
+  const finished = scenarios.reduce((sum, scenario) => sum + okRuns(scenario), 0);
+  const weighted = (pick: (scenario: Snapshot["scenarios"][number]) => number) =>
+    finished > 0
+      ? round(scenarios.reduce((sum, scenario) => sum + pick(scenario) * okRuns(scenario), 0) / finished)
+      : 0;
+  return {
+    pass_rate: runs > 0 ? round(scenarios.reduce((sum, scenario) => sum + scenario.passed, 0) / runs) : 0,
+    mean_tokens: weighted((scenario) => scenario.mean_tokens),
+    mean_duration_ms: weighted((scenario) => scenario.mean_duration_ms),
+  };
+}
+
+function relativeIncrease(before: number, after: number): number {
+  return before > 0 ? (after - before) / before : 0;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Compare a run snapshot with a baseline. A scenario newly fails when every
+ * baseline trace passed and at least one current trace did not.
+ */
+export function evaluateGate(
+  baseline: BaselineRecord,
+  current: Snapshot,
+  thresholds: GateThresholds = DEFAULT_GATE_THRESHOLDS
+): GateVerdict {
+  const regressions: GateReason[] = [];
+  const warnings: GateReason[] = [];
+  const currentById = new Map(current.scenarios.map((scenario) => [scenario.id, scenario]));
+  const baselineById = new Map(baseline.scenarios.map((scenario) => [scenario.id, scenario]));
+  const common = baseline.scenarios.filter((scenario) => currentById.has(scenario.id)).map((scenario) => scenario.id);
+
+  const newlyFailing = common.filter((id) => {
+    const before = baselineById.get(id)!;
+    const after = currentById.get(id)!;
+    return before.passed === before.runs && after.passed < after.runs;
+  });
+  if (newlyFailing.length > 0) {
+    regressions.push({
+      code: "NEWLY_FAILING",
+      message: `${newlyFailing.length} scenario(s) passed in the baseline and now fail.`,
+      scenario_ids: newlyFailing,
+    });
+  }
+
+  const before = totals(common.map((id) => baselineById.get(id)!));
+  const after = totals(common.map((id) => currentById.get(id)!));
+
+  const passRateDrop = round(before.pass_rate - after.pass_rate);
+  if (passRateDrop > thresholds.max_pass_rate_drop) {
+    regressions.push({
+      code: "PASS_RATE_DROP",
+      message: `Pass rate dropped ${pct(passRateDrop)} (${pct(before.pass_rate)} → ${pct(after.pass_rate)}); allowed ${pct(thresholds.max_pass_rate_drop)}.`,
+      scenario_ids: [],
+    });
+  }
+
+  const tokenIncrease = relativeIncrease(before.mean_tokens, after.mean_tokens);
+  if (tokenIncrease > thresholds.max_token_increase) {
+    regressions.push({
+      code: "TOKEN_BUDGET_EXCEEDED",
+      message: `Mean tokens per trace rose ${pct(tokenIncrease)} (${before.mean_tokens} → ${after.mean_tokens}); allowed ${pct(thresholds.max_token_increase)}.`,
+      scenario_ids: [],
+    });
+  }
+
+  const latencyIncrease = relativeIncrease(before.mean_duration_ms, after.mean_duration_ms);
+  if (latencyIncrease > thresholds.max_latency_increase) {
+    regressions.push({
+      code: "LATENCY_BUDGET_EXCEEDED",
+      message: `Mean latency per trace rose ${pct(latencyIncrease)} (${before.mean_duration_ms}ms → ${after.mean_duration_ms}ms); allowed ${pct(thresholds.max_latency_increase)}.`,
+      scenario_ids: [],
+    });
+  }
+
+  if (current.acceptance_status === "fail" && baseline.acceptance_status !== "fail") {
+    regressions.push({ code: "ACCEPTANCE_FAILED", message: "Acceptance failed for this run.", scenario_ids: [] });
+  } else if (current.acceptance_status === null) {
+    warnings.push({
+      code: "ACCEPTANCE_MISSING",
+      message: "No acceptance-summary.json; run `npm run accept` before gating to include acceptance.",
+      scenario_ids: [],
+    });
+  }
+
+  const missing = baseline.scenarios.filter((scenario) => !currentById.has(scenario.id)).map((scenario) => scenario.id);
+  if (missing.length > 0) {
+    warnings.push({
+      code: "SCENARIOS_NOT_RUN",
+      message: `${missing.length} baseline scenario(s) were not run and are not compared.`,
+      scenario_ids: missing,
+    });
+  }
+
+  return {
+    run_id: current.run_id,
+    baseline: { key: baseline.key, run_id: baseline.run_id, pinned_at: baseline.pinned_at },
+    generated_at: new Date().toISOString(),
+    thresholds,
+    metrics: {
+      compared_scenarios: common.length,
+      pass_rate: { baseline: before.pass_rate, current: after.pass_rate },
+      mean_tokens: { baseline: before.mean_tokens, current: after.mean_tokens },
+      mean_duration_ms: { baseline: before.mean_duration_ms, current: after.mean_duration_ms },
+      acceptance_status: { baseline: baseline.acceptance_status, current: current.acceptance_status },
+    },
+    regressions,
+    warnings,
+    verdict: regressions.length === 0 ? "pass" : "fail",
+  };
+}
+
+const THRESHOLD_FLAGS: Record<string, keyof GateThresholds> = {
+  "--max-pass-rate-drop": "max_pass_rate_drop",
+  "--max-token-increase": "max_token_increase",
+  "--max-latency-increase": "max_latency_increase",
+};
+
+export function parseGateArgs(argv: string[]): {
+  runId: string;
+  baselineRunId: string | null;
+  thresholds: GateThresholds;
+} {
+  let runId: string | null = null;
+  let baselineRunId: string | null = null;
+  const thresholds = { ...DEFAULT_GATE_THRESHOLDS };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--baseline") {
+      baselineRunId = argv[++i] ?? null;
+      if (!baselineRunId) throw new Error("--baseline requires a run id");
+    } else if (arg in THRESHOLD_FLAGS) {
+      const value = Number(argv[++i]);
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${arg} requires a non-negative fraction (e.g. 0.1 for 10%)`);
+      }
+      thresholds[THRESHOLD_FLAGS[arg]] = value;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (runId === null) {
+      runId = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!runId) {
+    throw new Error(
+      "Usage: npm run gate -- <run_id> [--baseline <run_id>] [--max-pass-rate-drop 0.05] [--max-token-increase 0.2] [--max-latency-increase 0.5]"
+    );
+  }
+  return { runId, baselineRunId, thresholds };
+}
+
+export async function runCli() {
+  let options: ReturnType<typeof parseGateArgs>;
+  try {
+    options = parseGateArgs(process.argv.slice(2));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const runDir = getRunDir(options.runId);
+  if (!fs.existsSync(path.join(runDir, "summary.json"))) {
+    fail(`summary.json not found for run: ${options.runId}`);
+  }
+  const current = snapshotRun(runDir);
+
+  let baseline: BaselineRecord | null;
+  if (options.baselineRunId) {
+    baseline = { ...snapshotRun(getRunDir(options.baselineRunId)), pinned_at: "" };
+  } else {
+    baseline = loadBaseline(current.key);
+    if (!baseline) {
+      fail(`No baseline pinned for ${current.key}. Pin one with: npm run baseline -- <run_id>`);
+    }
+  }
+
+  const verdict = evaluateGate(baseline, current, options.thresholds);
+  const outputPath = path.join(runDir, "gate-verdict.json");
+  fs.writeFileSync(outputPath, JSON.stringify(verdict, null, 2));
+
+  console.log(`Gate: ${verdict.run_id} vs baseline ${verdict.baseline.run_id} (${verdict.baseline.key})`);
+  console.log(
+    `  Pass rate: ${pct(verdict.metrics.pass_rate.baseline)} → ${pct(verdict.metrics.pass_rate.current)} over ${verdict.metrics.compared_scenarios} scenarios`
+  );
+  console.log(`  Mean tokens: ${verdict.metrics.mean_tokens.baseline} → ${verdict.metrics.mean_tokens.current}`);
+  console.log(
+    `  Mean latency: ${verdict.metrics.mean_duration_ms.baseline}ms → ${verdict.metrics.mean_duration_ms.current}ms`
+  );
+  for (const reason of verdict.regressions) {
+    console.log(`  ✗ ${reason.code}: ${reason.message}${reason.scenario_ids.length ? ` [${reason.scenario_ids.join(", ")}]` : ""}`);
+  }
+  for (const reason of verdict.warnings) {
+    console.log(`  ! ${reason.code}: ${reason.message}`);
+  }
+  console.log(`Wrote gate verdict: ${outputPath}`);
+  console.log(`Verdict: ${verdict.verdict.toUpperCase()}`);
+
+  if (verdict.verdict === "fail") {
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Grounding check: flags names and numbers in the final answer that never
+ * appeared in any tool output (or in the user's own prompts).
+ *
+ * Extraction is heuristic. Names are runs of two or more capitalized words
+ * ("Ja'Marr Chase", "Bronx Bombers"); single capitalized words are skipped
+ * because sentence starts and platform names make them too noisy. Records
+ * and scores ("9-4", "7-3-1") are grounded when every component number
+ * appears in the tool output, since tools usually report wins and losses
+ * as separate fields.
+ */
+
+import type { GroundingEntity, Scenario, ScenarioResult, TraceArtifact } from "./types.js";
+
+export interface GroundingResult {
+  /** Share of answer entities found in tool output (3 decimals). */
+  score: number;
+  entities: number;
+  ungrounded: GroundingEntity[];
+}
+
+/** Words dropped from the start of a capitalized run ("Your Bronx Bombers"). */
+const LEADING_WORDS = new Set([
+  "a", "add", "and", "at", "but", "consider", "drop", "for", "here", "i", "if", "in", "my", "on",
+  "pick", "sit", "start", "the", "then", "your",
+]);
+
+/** Capitalized runs made only of these are headings or filler, not entities. */
+const GENERIC_WORDS = new Set([
+  "agent", "agents", "away", "bench", "free", "home", "league", "leagues", "losses", "matchup",
+  "matchups", "overview", "pickups", "playoff", "playoffs", "rank", "record", "roster", "score",
+  "standings", "starters", "summary", "team", "teams", "top", "waiver", "week", "wins",
+]);
+
+function normalize(text: string): string {
+  return text.replace(/[’‘]/g, "'").toLowerCase();
+}
+
+function canonicalNumber(text: string): string {
+  return String(Number(text));
+}
+
+function collectNumbers(text: string): Set<string> {
+  return new Set((text.match(/\d+(?:\.\d+)?/g) ?? []).map(canonicalNumber));
+}
+
+/**
+ * Strip markdown emphasis and headings so formatting doesn't split names.
+ */
+function plainAnswer(text: string): string {
+  return text
+    .split("\n")
+    .filter((line) => !/^\s*#/.test(line))
+    .join("\n")
+    .replace(/[*_`]/g, "")
+    .replace(/[’‘]/g, "'");
+}
+
+/**
+ * Capitalized runs of 2+ words, after dropping leading filler words.
+ */
+export function extractNames(text: string): string[] {
+  const names: string[] = [];
+  const runs = plainAnswer(text).match(/[A-Z][A-Za-z'.-]*(?:[ \t]+[A-Z][A-Za-z'.-]*)+/g) ?? [];
+  for (const run of runs) {
+    const tokens = run.split(/[ \t]+/).map((token) => token.replace(/[.'-]+$/, ""));
+    while (tokens.length > 0 && LEADING_WORDS.has(tokens[0].toLowerCase())) {
+      tokens.shift();
+    }
+    if (tokens.length < 2 || tokens.every((token) => GENERIC_WORDS.has(token.toLowerCase()))) {
+      continue;
+    }
+    names.push(tokens.join(" "));
+  }
+  return names;
+}
+
+/**
+ * Records/scores like "9-4" and standalone numbers, with list markers removed.
+ */
+export function extractNumbers(text: string): { records: string[]; numbers: string[] } {
+  const plain = plainAnswer(text).replace(/^\s*\d+[.)]\s/gm, " ");
+  const records = plain.match(/\b\d+-\d+(?:-\d+)?\b/g) ?? [];
+  const rest = plain.replace(/\b\d+-\d+(?:-\d+)?\b/g, " ");
+  const numbers = rest.match(/(?<![\w.])\d+(?:\.\d+)?(?![\w])/g) ?? [];
+  return { records, numbers };
+}
+
+function nameIsGrounded(name: string, corpus: string): boolean {
+  // Unmatched leading verbs ("Stash Jackson Merrill") are fine if the trailing 2+ words match.
+  const tokens = name.split(" ");
+  for (let start = 0; start <= tokens.length - 2; start += 1) {
+    if (corpus.includes(normalize(tokens.slice(start).join(" ")))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Text the answer may legitimately draw on: every tool result plus the user prompts.
+ */
+function groundingSources(scenario: Scenario, artifact: TraceArtifact): string {
+  const prompts = artifact.turns?.map((turn) => turn.prompt) ?? [artifact.prompt || scenario.prompt];
+  return [...artifact.llm_response.tool_calls.map((call) => call.result_full), ...prompts].join("\n");
+}
+
+/**
+ * Score the final answer against tool output. Returns null when no tool
+ * returned anything, since there is nothing to ground against.
+ */
+export function checkGrounding(scenario: Scenario, artifact: TraceArtifact): GroundingResult | null {
+  if (!artifact.llm_response.tool_calls.some((call) => call.result_full.trim().length > 0)) {
+    return null;
+  }
+
+  const source = groundingSources(scenario, artifact);
+  const corpus = normalize(source);
+  const sourceNumbers = collectNumbers(source);
+  const answer = artifact.llm_response.final_text;
+
+  const entities: Array<GroundingEntity & { grounded: boolean }> = [];
+  for (const name of extractNames(answer)) {
+    entities.push({ kind: "name", text: name, grounded: nameIsGrounded(name, corpus) });
+  }
+  const { records, numbers } = extractNumbers(answer);
+  for (const record of records) {
+    const grounded =
+      corpus.includes(record) || record.split("-").every((part) => sourceNumbers.has(canonicalNumber(part)));
+    entities.push({ kind: "record", text: record, grounded });
+  }
+  for (const number of numbers) {
+    entities.push({ kind: "number", text: number, grounded: sourceNumbers.has(canonicalNumber(number)) });
+  }
+
+  const ungrounded: GroundingEntity[] = [];
+  const seen = new Set<string>();
+  for (const entity of entities) {
+    const key = `${entity.kind}:${entity.text}`;
+    if (!entity.grounded && !seen.has(key)) {
+      seen.add(key);
+      ungrounded.push({ kind: entity.kind, text: entity.text });
+    }
+  }
+
+  const grounded = entities.filter((entity) => entity.grounded).length;
+  return {
+    score: entities.length === 0 ? 1 : Math.round((grounded / entities.length) * 1000) / 1000,
+    entities: entities.length,
+    ungrounded,
+  };
+}
+
+/**
+ * Mean grounding score over summary rows that were checked, or null if none were.
+ */
+export function meanGroundingScore(rows: ScenarioResult[]): number | null {
+  const scores = rows.flatMap((row) => (row.grounding_score === undefined ? [] : [row.grounding_score]));
+  if (scores.length === 0) return null;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 1000) / 1000;
+}
@@ -0,0 +1,374 @@
+import fs from "node:fs";
+import path from "node:path";
+import { hashInstructionsFile, loadScenarios } from "./scenarios.js";
+import { isPassed } from "./summary.js";
+import { buildWaterfall, formatWaterfallText } from "./waterfall.js";
+import type { RunManifest, RunSummary, ScenarioResult, ServerLogEvent, TraceArtifact } from "./types.js";
+
+/**
+ * Self-contained runs/<run_id>/report.html, written next to report.md by
+ * `npm run report`. One collapsible block per trace (prompt, instructions,
+ * tool calls, answer, server log timeline), filterable by status and tag, with
+ * acceptance reasons linking to the traces they name. No external assets.
+ */
+
+const REPO_ROOT = path.resolve(import.meta.dirname, "..");
+
+export interface HtmlAcceptanceReason {
+  code?: string;
+  message?: string;
+  trace_ids?: string[];
+}
+
+export interface HtmlReportInput {
+  summary: RunSummary;
+  acceptance: {
+    final_status?: string;
+    fail_reasons?: HtmlAcceptanceReason[];
+    warn_reasons?: HtmlAcceptanceReason[];
+  } | null;
+  /** Keyed by trace id; traces without a trace.json are absent. */
+  traces: Map<string, TraceArtifact>;
+  /** Scenario tags keyed by scenario id. */
+  tags: Map<string, string[]>;
+  /**
+   * Instructions keyed by repo-relative path: current contents (null when the
+   * file is gone) and whether they differ from the hash in the run manifest.
+   */
+  instructions: Map<string, { text: string | null; changed: boolean }>;
+}
+
+type TraceStatus = "passed" | "failed" | "error";
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function traceStatus(row: ScenarioResult): TraceStatus {
+  if (row.status === "error") return "error";
+  return isPassed(row) ? "passed" : "failed";
+}
+
+function anchor(traceId: string): string {
+  return `trace-${traceId}`;
+}
+
+/**
+ * Pretty-print tool output that is JSON; anything else is returned as is.
+ */
+export function prettyResult(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+export interface TimelineEvent {
+  worker: string;
+  /** Milliseconds after the first event of the trace. */
+  offset_ms: number;
+  duration_ms: number;
+  event: ServerLogEvent;
+}
+
+/**
+ * Server log events of all workers on one clock, earliest first. Events with
+ * an unparseable timestamp are dropped.
+ */
+export function buildTimeline(serverLogs: TraceArtifact["server_logs"]): TimelineEvent[] {
+  const events = Object.entries(serverLogs ?? {}).flatMap(([worker, workerEvents]) =>
+    workerEvents.map((event) => ({ worker, time: Date.parse(event.timestamp), event }))
+  );
+  const timed = events.filter((entry) => Number.isFinite(entry.time)).sort((a, b) => a.time - b.time);
+  const start = timed[0]?.time ?? 0;
+  return timed.map(({ worker, time, event }) => ({
+    worker,
+    offset_ms: time - start,
+    duration_ms: event.duration_ms ?? event.wall_time_ms ?? 0,
+    event,
+  }));
+}
+
+function section(title: string, content: string): string {
+  return `<section><h4>${escapeHtml(title)}</h4>${content}</section>`;
+}
+
+function pre(text: string): string {
+  return `<pre>${escapeHtml(text)}</pre>`;
+}
+
+function renderTimeline(timeline: TimelineEvent[]): string {
+  if (timeline.length === 0) {
+    return '<p class="muted">No server log events (enrichment disabled, pending or empty).</p>';
+  }
+  const span = Math.max(...timeline.map((entry) => entry.offset_ms + entry.duration_ms), 1);
+  const workers = [...new Set(timeline.map((entry) => entry.worker))].sort();
+  const lanes = workers.map((worker) => {
+    const bars = timeline
+      .filter((entry) => entry.worker === worker)
+      .map((entry) => {
+        const left = ((entry.offset_ms / span) * 100).toFixed(2);
+        const width = Math.max((entry.duration_ms / span) * 100, 0.5).toFixed(2);
+        const label = [entry.event.phase, entry.event.tool, entry.event.status ?? undefined].filter(Boolean).join(" ");
+        const error = entry.event.status !== null && entry.event.status >= 400 ? " error" : "";
+        return `<span class="bar${error}" style="left:${left}%;width:${width}%" title="${escapeHtml(
+          `+${entry.offset_ms}ms ${label}`
+        )}"></span>`;
+      })
+      .join("");
+    return `<div class="lane"><span class="lane-label">${escapeHtml(worker)}</span><div class="lane-track">${bars}</div></div>`;
+  });
+
+  const rows = timeline.map(
+    (entry) =>
+      `<tr><td>+${entry.offset_ms}</td><td>${escapeHtml(entry.worker)}</td><td>${escapeHtml(
+        entry.event.phase ?? ""
+      )}</td><td>${escapeHtml(entry.event.tool ?? "")}</td><td>${entry.event.status ?? ""}</td><td>${
+        entry.duration_ms
+      }</td><td>${escapeHtml(entry.event.message ?? entry.event.path ?? "")}</td></tr>`
+  );
+  return [
+    `<div class="timeline">${lanes.join("")}</div>`,
+    "<table><tr><th>+ms</th><th>Worker</th><th>Phase</th><th>Tool</th><th>Status</th><th>Duration (ms)</th><th>Message</th></tr>",
+    ...rows,
+    "</table>",
+  ].join("\n");
+}
+
+function renderInstructions(input: HtmlReportInput, file: string | null): string {
+  if (!file) return '<p class="muted">None</p>';
+  const entry = input.instructions.get(file);
+  const note = !entry?.text ? " (file no longer exists)" : entry.changed ? " (file changed since this run)" : "";
+  return `<details><summary>${escapeHtml(file + note)}</summary>${entry?.text ? pre(entry.text) : ""}</details>`;
+}
+
+function renderToolCalls(trace: TraceArtifact): string {
+  const calls = trace.llm_response.tool_calls;
+  if (calls.length === 0) return '<p class="muted">No tools were called.</p>';
+  const items = calls.map(
+    (call) =>
+      `<li><code>${escapeHtml(call.tool_name)}</code>${pre(JSON.stringify(call.args, null, 2))}<details><summary>Result (${
+        call.result_full.length
+      } chars)</summary>${pre(prettyResult(call.result_full))}</details></li>`
+  );
+  return `<ol class="calls">${items.join("")}</ol>`;
+}
+
+function renderTrace(input: HtmlReportInput, row: ScenarioResult): string {
+  const status = traceStatus(row);
+  const tags = input.tags.get(row.id) ?? [];
+  const trace = input.traces.get(row.trace_id);
+  const heading = [
+    `<span class="badge ${status}">${status}</span>`,
+    `<strong>${escapeHtml(row.id)}</strong>`,
+    row.trial !== undefined ? `trial ${row.trial}` : "",
+    `<code>${escapeHtml(row.trace_id)}</code>`,
+    escapeHtml(row.tool_calls.join(" → ") || "(no tools)"),
+    `${row.duration_ms} ms`,
+    row.total_tokens !== undefined ? `${row.total_tokens} tok` : "",
+  ].filter(Boolean);
+
+  const body: string[] = [];
+  if (row.error) {
+    body.push(section("Error", pre(row.error)));
+  }
+  if (row.routing_violations?.length) {
+    body.push(section("Routing violations", `<ul>${row.routing_violations.map((v) => `<li>${escapeHtml(v)}</li>`).join("")}</ul>`));
+  }
+  if (trace) {
+    const prompts = trace.turns?.length ? trace.turns.map((turn) => turn.prompt) : [trace.prompt];
+    body.push(section(prompts.length > 1 ? "Prompts" : "Prompt", prompts.map(pre).join("")));
+    body.push(section("Developer instructions", renderInstructions(input, trace.instructions_file)));
+    body.push(section(`Tool calls (expected: ${row.expected_tools.join(" → ") || "none"})`, renderToolCalls(trace)));
+    body.push(section("Final answer", pre(trace.llm_response.final_text || "(empty)")));
+    body.push(section("Server logs", renderTimeline(buildTimeline(trace.server_logs))));
+    const waterfall = buildWaterfall(trace);
+    if (waterfall.tools.length > 0) {
+      body.push(section("Waterfall per tool call", pre(formatWaterfallText(waterfall))));
+    }
+  } else if (!row.error) {
+    body.push('<p class="muted">trace.json not found.</p>');
+  }
+
+  return [
+    `<details class="trace" id="${escapeHtml(anchor(row.trace_id))}" data-status="${status}" data-tags="${escapeHtml(tags.join(" "))}">`,
+    `<summary>${heading.join(" · ")}</summary>`,
+    ...body,
+    "</details>",
+  ].join("\n");
+}
+
+function renderReasons(title: string, reasons: HtmlAcceptanceReason[] | undefined): string {
+  if (!reasons?.length) return `<p>${escapeHtml(title)}: none</p>`;
+  const items = reasons.map((reason) => {
+    const links = (reason.trace_ids ?? []).map(
+      (traceId) => `<a href="#${escapeHtml(anchor(traceId))}">${escapeHtml(traceId)}</a>`
+    );
+    return `<li><strong>${escapeHtml(reason.code ?? "UNKNOWN")}</strong>: ${escapeHtml(reason.message ?? "")}${
+      links.length > 0 ? ` (${links.join(", ")})` : ""
+    }</li>`;
+  });
+  return `<p>${escapeHtml(title)}:</p><ul>${items.join("")}</ul>`;
+}
+
+// Opens the trace a link points at, and hides traces that do not match the filters.
+const SCRIPT = `
+const statusFilter = document.getElementById("status-filter");
+const tagFilter = document.getElementById("tag-filter");
+function applyFilters() {
+  for (const trace of document.querySelectorAll(".trace")) {
+    const statusOk = !statusFilter.value || trace.dataset.status === statusFilter.value;
+    const tagOk = !tagFilter.value || trace.dataset.tags.split(" ").includes(tagFilter.value);
+    trace.hidden = !(statusOk && tagOk);
+  }
+}
+function openHash() {
+  const target = location.hash && document.getElementById(decodeURIComponent(location.hash.slice(1)));
+  if (target && target.classList.contains("trace")) {
+    target.hidden = false;
+    target.open = true;
+    target.scrollIntoView();
+  }
+}
+statusFilter.addEventListener("change", applyFilters);
+tagFilter.addEventListener("change", applyFilters);
+window.addEventListener("hashchange", openHash);
+openHash();
+`;
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; max-width: 80rem; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #ccc; padding: 0.2rem 0.5rem; text-align: left; font-size: 0.85rem; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; font-size: 0.85rem; }
+.trace { border: 1px solid #ddd; border-radius: 4px; margin: 0.4rem 0; padding: 0.3rem 0.6rem; }
+.trace > summary { cursor: pointer; }
+.trace:target { outline: 2px solid #0969da; }
+.badge { border-radius: 3px; padding: 0 0.4rem; font-size: 0.8rem; color: #fff; }
+.badge.passed { background: #1a7f37; }
+.badge.failed { background: #cf222e; }
+.badge.error { background: #9a6700; }
+.muted { color: #666; }
+.timeline { margin: 0.5rem 0; }
+.lane { display: flex; align-items: center; margin: 2px 0; }
+.lane-label { width: 10rem; font-size: 0.8rem; font-family: monospace; }
+.lane-track { position: relative; flex: 1; height: 0.9rem; background: #f0f0f0; }
+.bar { position: absolute; top: 0; height: 100%; background: #0969da; }
+.bar.error { background: #cf222e; }
+.filters { margin: 1rem 0; }
+`;
+
+export function buildHtmlReport(input: HtmlReportInput): string {
+  const { summary, acceptance } = input;
+  const rows = summary.scenarios;
+  const passed = rows.filter((row) => traceStatus(row) === "passed").length;
+  const allTags = [...new Set(rows.flatMap((row) => input.tags.get(row.id) ?? []))].sort();
+  const title = `Flaim Eval Report: ${summary.run_id}`;
+
+  const overview = [
+    `Model: ${summary.model}${summary.reasoning_effort ? ` (reasoning ${summary.reasoning_effort})` : ""}`,
+    `Passed: ${passed}/${rows.length} (errored: ${summary.errored})`,
+    `Tokens: ${summary.total_tokens.total}`,
+    ...(summary.cost ? [`Cost: $${summary.cost.total_usd.toFixed(4)} (pricing ${summary.cost.pricing_version})`] : []),
+    `Total duration: ${summary.total_duration_ms} ms`,
+    `Acceptance: ${acceptance?.final_status?.toUpperCase() ?? "NOT GENERATED"}`,
+  ];
+
+  const body: string[] = [];
+  body.push(`<h1>${escapeHtml(title)}</h1>`);
+  body.push(`<p>Generated at ${escapeHtml(new Date().toISOString())}</p>`);
+  body.push(`<ul>${overview.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`);
+
+  body.push("<h2>Acceptance</h2>");
+  if (acceptance) {
+    body.push(renderReasons("Fail reasons", acceptance.fail_reasons));
+    body.push(renderReasons("Warn reasons", acceptance.warn_reasons));
+  } else {
+    body.push('<p class="muted">acceptance-summary.json not found. Run <code>npm run accept -- &lt;run_id&gt;</code> first.</p>');
+  }
+
+  body.push(`<h2>Traces (${rows.length})</h2>`);
+  body.push('<div class="filters">');
+  body.push(
+    '<label>Status <select id="status-filter"><option value="">all</option><option value="passed">passed</option><option value="failed">failed</option><option value="error">error</option></select></label>'
+  );
+  body.push(
+    ` <label>Tag <select id="tag-filter"><option value="">all</option>${allTags
+      .map((tag) => `<option value="${escapeHtml(tag)}">${escapeHtml(tag)}</option>`)
+      .join("")}</select></label>`
+  );
+  body.push("</div>");
+  for (const row of rows) {
+    body.push(renderTrace(input, row));
+  }
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    `<script>${SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function readOptionalJson<T>(filePath: string): T | null {
+  try {
+    return fs.existsSync(filePath) ? (JSON.parse(fs.readFileSync(filePath, "utf8")) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gather traces, scenario tags and instructions for a run. Scenarios that no
+ * longer load (or were deleted since the run) simply have no tags.
+ */
+export function loadHtmlReportInput(
+  runDir: string,
+  summary: RunSummary,
+  acceptance: HtmlReportInput["acceptance"]
+): HtmlReportInput {
+  const traces = new Map<string, TraceArtifact>();
+  for (const row of summary.scenarios) {
+    const trace = readOptionalJson<TraceArtifact>(path.join(runDir, row.trace_id, "trace.json"));
+    if (trace) traces.set(row.trace_id, trace);
+  }
+
+  let tags = new Map<string, string[]>();
+  try {
+    tags = new Map(loadScenarios().map((scenario) => [scenario.id, scenario.tags]));
+  } catch {
+    // Tags are only used for filtering; report without them.
+  }
+
+  const manifest = readOptionalJson<RunManifest>(path.join(runDir, "manifest.json"));
+  const instructions: HtmlReportInput["instructions"] = new Map();
+  for (const trace of traces.values()) {
+    const file = trace.instructions_file;
+    if (file && !instructions.has(file)) {
+      const filePath = path.resolve(REPO_ROOT, file);
+      const recorded = manifest?.instructions_hashes?.[file];
+      instructions.set(file, {
+        text: fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null,
+        changed: recorded !== undefined && hashInstructionsFile(file) !== recorded,
+      });
+    }
+  }
+
+  return {
+    summary,
+    acceptance,
+    traces,
+    tags,
+    instructions,
+  };
+}
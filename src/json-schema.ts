@@ -0,0 +1,243 @@
+/**
+ * Minimal JSON-schema validator for the subset the harness uses in scenario
+ * argument assertions and scenario-file validation.
+ *
+ * Supported keywords: type, enum, const, pattern, minLength, maxLength,
+ * minimum, maximum, exclusiveMinimum, exclusiveMaximum, items, minItems,
+ * maxItems, properties, required, additionalProperties, anyOf, oneOf, $ref
+ * (local `#/definitions/...` only). Annotations ($schema, $id, $comment,
+ * title, description, default, examples) are allowed and ignored. Any other
+ * keyword is ignored by `validateSchema`, so schemas written by hand should
+ * go through `lintSchema` first.
+ */
+
+const SUPPORTED_KEYWORDS = new Set([
+  "$ref",
+  "type",
+  "enum",
+  "const",
+  "pattern",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "items",
+  "minItems",
+  "maxItems",
+  "properties",
+  "required",
+  "additionalProperties",
+  "anyOf",
+  "oneOf",
+  "definitions",
+]);
+
+const ANNOTATION_KEYWORDS = new Set(["$schema", "$id", "$comment", "title", "description", "default", "examples"]);
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaError {
+  /** JSON-pointer-style path to the offending value ("" for the root). */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  const target = match ? root.definitions?.[match[1]] : undefined;
+  if (!target) {
+    throw new Error(`Unresolvable schema $ref: ${ref}`);
+  }
+  return target;
+}
+
+function validateAt(value: unknown, schema: JsonSchema, at: string, root: JsonSchema, errors: SchemaError[]): void {
+  if (schema.$ref) {
+    validateAt(value, resolveRef(schema.$ref, root), at, root, errors);
+    return;
+  }
+
+  const push = (message: string) => errors.push({ path: at, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      push(`expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(option, value))) {
+    push(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    push(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      push(`must match /${schema.pattern}/`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      push(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      push(`must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) push(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) push(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      push(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      push(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      push(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      push(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateAt(item, schema.items as JsonSchema, `${at}/${index}`, root, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push({ path: `${at}/${key}`, message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateAt(child, propertySchema, `${at}/${key}`, root, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${at}/${key}`, message: "is not an allowed property" });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateAt(child, schema.additionalProperties, `${at}/${key}`, root, errors);
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((option) => validateSchema(value, option, root).length === 0)) {
+    push("does not match any allowed shape");
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option) => validateSchema(value, option, root).length === 0).length;
+    if (matches !== 1) {
+      push(matches === 0 ? "does not match any allowed shape" : "matches more than one allowed shape");
+    }
+  }
+}
+
+/**
+ * Validate `value` against `schema`. Returns an empty list when valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateAt(value, schema, "", root, errors);
+  return errors;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function lintAt(schema: JsonSchema, at: string, root: JsonSchema, errors: SchemaError[]): void {
+  for (const keyword of Object.keys(schema)) {
+    if (!SUPPORTED_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword)) {
+      errors.push({ path: `${at}/${keyword}`, message: `unsupported schema keyword "${keyword}"` });
+    }
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch (err) {
+      errors.push({ path: `${at}/pattern`, message: `invalid regex: ${(err as Error).message}` });
+    }
+  }
+  if (schema.$ref !== undefined) {
+    try {
+      resolveRef(schema.$ref, root);
+    } catch {
+      errors.push({ path: `${at}/$ref`, message: `unresolvable $ref "${schema.$ref}"` });
+    }
+  }
+
+  const children: Array<[string, unknown]> = [["items", schema.items]];
+  if (isSchemaObject(schema.additionalProperties)) {
+    children.push(["additionalProperties", schema.additionalProperties]);
+  }
+  for (const keyword of ["properties", "definitions"] as const) {
+    for (const [key, child] of Object.entries(schema[keyword] ?? {})) {
+      children.push([`${keyword}/${key}`, child]);
+    }
+  }
+  for (const keyword of ["anyOf", "oneOf"] as const) {
+    (schema[keyword] ?? []).forEach((child, index) => children.push([`${keyword}/${index}`, child]));
+  }
+  for (const [childPath, child] of children) {
+    if (isSchemaObject(child)) lintAt(child, `${at}/${childPath}`, root, errors);
+  }
+}
+
+/**
+ * Report keywords `validateSchema` does not support, `pattern`s that are not
+ * valid regexes and `$ref`s that do not resolve against the root schema,
+ * anywhere in the schema. Paths point into the schema.
+ */
+export function lintSchema(schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  lintAt(schema, "", schema, errors);
+  return errors;
+}
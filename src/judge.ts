@@ -0,0 +1,285 @@
+/**
+ * LLM-as-judge grading of final answers against a scenario rubric.
+ *
+ * The judge only sees text (the conversation, the tool results and the final
+ * answer), so any chat-style model can grade. `JudgeProvider` is the seam
+ * tests stub out.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import OpenAI from "openai";
+import { parseModelSpec, type ProviderOptions } from "./provider.js";
+import { getScenarioTurns } from "./scenarios.js";
+import type {
+  JudgeCriterionScore,
+  JudgeResult,
+  JudgeSummary,
+  LlmResponse,
+  Rubric,
+  Scenario,
+  ScenarioResult,
+  TraceArtifact,
+} from "./types.js";
+
+const RUBRICS_DIR = path.resolve(import.meta.dirname, "../rubrics");
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+export const DEFAULT_JUDGE_MODEL = "gpt-5-mini-2025-08-07";
+
+export interface JudgePrompt {
+  system: string;
+  user: string;
+}
+
+export interface JudgeReply {
+  /** Raw reply text; it must contain the JSON verdict. */
+  text: string;
+  /** Absent when the endpoint did not report usage. */
+  usage?: LlmResponse["usage"];
+}
+
+export interface JudgeProvider {
+  model: string;
+  complete(prompt: JudgePrompt): Promise<JudgeReply>;
+}
+
+/**
+ * Load a rubric from rubrics/<id>.json.
+ */
+export function loadRubric(id: string): Rubric {
+  const rubricPath = path.join(RUBRICS_DIR, `${id}.json`);
+  if (!fs.existsSync(rubricPath)) {
+    throw new Error(`Rubric not found: ${rubricPath}`);
+  }
+  return JSON.parse(fs.readFileSync(rubricPath, "utf8")) as Rubric;
+}
+
+function truncate(text: string, maxLen: number): string {
+  return text.length <= maxLen ? text : `${text.slice(0, maxLen)}... [truncated]`;
+}
+
+export function buildJudgePrompt(rubric: Rubric, scenario: Scenario, artifact: TraceArtifact): JudgePrompt {
+  const system = [
+    "You grade answers from a fantasy sports assistant against a rubric.",
+    "Score each criterion from 0 (not met) to 1 (fully met); partial credit is allowed.",
+    "Judge facts only against the tool results shown. Do not use outside knowledge.",
+    'Reply with JSON only: {"criteria":[{"id":"<criterion id>","score":<0-1>,"rationale":"<one sentence>"}],"rationale":"<overall, one or two sentences>"}',
+  ].join("\n");
+
+  const userTurns = getScenarioTurns(scenario)
+    .map((turn, index) => `User (turn ${index + 1}): ${turn.prompt}`)
+    .join("\n");
+  const toolResults = artifact.llm_response.tool_calls.length
+    ? artifact.llm_response.tool_calls
+        .map(
+          (call, index) =>
+            `[${index + 1}] ${call.tool_name}(${JSON.stringify(call.args)})\n${truncate(call.result_full, MAX_TOOL_RESULT_CHARS)}`
+        )
+        .join("\n\n")
+    : "(no tools were called)";
+  const criteria = rubric.criteria.map((criterion) => `- ${criterion.id}: ${criterion.description}`).join("\n");
+
+  const user = [
+    "## Conversation",
+    userTurns,
+    "",
+    "## Tool results",
+    toolResults,
+    "",
+    "## Final answer",
+    artifact.llm_response.final_text || "(empty)",
+    "",
+    "## Rubric",
+    criteria,
+  ].join("\n");
+
+  return { system, user };
+}
+
+function clampScore(value: unknown): number | null {
+  const score = typeof value === "string" ? Number(value) : value;
+  if (typeof score !== "number" || !Number.isFinite(score)) return null;
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Parse the judge reply into per-criterion scores. Tolerates prose or code
+ * fences around the JSON object; every rubric criterion must be scored.
+ */
+export function parseJudgeReply(
+  reply: string,
+  rubric: Rubric
+): { criteria: JudgeCriterionScore[]; rationale: string } {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Judge reply contained no JSON object");
+  }
+  const parsed = JSON.parse(reply.slice(start, end + 1)) as {
+    criteria?: Array<{ id?: unknown; score?: unknown; rationale?: unknown }>;
+    rationale?: unknown;
+  };
+
+  const byId = new Map((parsed.criteria ?? []).map((entry) => [String(entry.id), entry]));
+  const criteria = rubric.criteria.map((criterion) => {
+    const entry = byId.get(criterion.id);
+    const score = clampScore(entry?.score);
+    if (!entry || score === null) {
+      throw new Error(`Judge reply is missing a score for criterion ${criterion.id}`);
+    }
+    return {
+      id: criterion.id,
+      score,
+      weight: criterion.weight ?? 1,
+      rationale: typeof entry.rationale === "string" ? entry.rationale : "",
+    };
+  });
+
+  return { criteria, rationale: typeof parsed.rationale === "string" ? parsed.rationale : "" };
+}
+
+export function weightedScore(criteria: JudgeCriterionScore[]): number {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight === 0) return 0;
+  const score = criteria.reduce((sum, criterion) => sum + criterion.score * criterion.weight, 0) / totalWeight;
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Grade one trace. Judge failures are recorded on the result, never thrown,
+ * so a flaky judge cannot fail the scenario itself. Usage is kept even when
+ * the reply cannot be parsed, since the call was still paid for.
+ */
+export async function gradeTrace(
+  judge: JudgeProvider,
+  rubric: Rubric,
+  scenario: Scenario,
+  artifact: TraceArtifact
+): Promise<JudgeResult> {
+  let usage: LlmResponse["usage"] | undefined;
+  try {
+    const reply = await judge.complete(buildJudgePrompt(rubric, scenario, artifact));
+    usage = reply.usage;
+    const { criteria, rationale } = parseJudgeReply(reply.text, rubric);
+    const score = weightedScore(criteria);
+    return {
+      rubric_id: rubric.id,
+      judge_model: judge.model,
+      ...(usage ? { usage } : {}),
+      score,
+      passed: score >= rubric.pass_threshold,
+      criteria,
+      rationale,
+      graded_at: new Date().toISOString(),
+    };
+  } catch (err) {
+    return judgeError(judge.model, rubric, err, usage);
+  }
+}
+
+/**
+ * Ungraded result for a judge that failed, including one that could not be
+ * built for this trace.
+ */
+export function judgeError(
+  judgeModel: string,
+  rubric: Rubric,
+  err: unknown,
+  usage?: LlmResponse["usage"]
+): JudgeResult {
+  return {
+    rubric_id: rubric.id,
+    judge_model: judgeModel,
+    ...(usage ? { usage } : {}),
+    score: null,
+    passed: null,
+    criteria: [],
+    rationale: "",
+    graded_at: new Date().toISOString(),
+    error: (err as Error).message,
+  };
+}
+
+/**
+ * Judge backed by any OpenAI-compatible chat completions endpoint. `chat:`
+ * specs use FLAIM_EVAL_CHAT_BASE_URL / FLAIM_EVAL_CHAT_API_KEY like the chat
+ * provider.
+ */
+export function createJudgeProvider(spec: string, options: ProviderOptions = {}): JudgeProvider {
+  const { provider, model } = parseModelSpec(spec);
+  if (provider === "anthropic") {
+    throw new Error("Anthropic judges are not supported; use an openai: or chat: judge model");
+  }
+
+  const chat = provider === "chat";
+  const client = new OpenAI({
+    apiKey:
+      (chat ? process.env.FLAIM_EVAL_CHAT_API_KEY : undefined) ||
+      process.env.OPENAI_API_KEY ||
+      (options.replay ? "replay" : undefined),
+    baseURL: chat ? process.env.FLAIM_EVAL_CHAT_BASE_URL || undefined : undefined,
+    fetch: options.fetch,
+    maxRetries: options.replay ? 0 : undefined,
+  });
+
+  return {
+    model: spec,
+    async complete(prompt) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: prompt.system },
+          { role: "user", content: prompt.user },
+        ],
+        response_format: { type: "json_object" },
+      });
+      const text = completion.choices[0]?.message?.content ?? "";
+      if (!completion.usage) return { text };
+      const cached = completion.usage.prompt_tokens_details?.cached_tokens;
+      const reasoning = completion.usage.completion_tokens_details?.reasoning_tokens;
+      return {
+        text,
+        usage: {
+          input_tokens: completion.usage.prompt_tokens,
+          output_tokens: completion.usage.completion_tokens,
+          total_tokens: completion.usage.total_tokens,
+          ...(cached !== undefined ? { cached_input_tokens: cached } : {}),
+          ...(reasoning !== undefined ? { reasoning_tokens: reasoning } : {}),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Attach judge fields to a summary row.
+ */
+export function applyJudgeResult(result: ScenarioResult, judge: JudgeResult): ScenarioResult {
+  return { ...result, judge_score: judge.score, judge_passed: judge.passed };
+}
+
+/**
+ * Run-level judge aggregate over graded traces.
+ */
+export function summarizeJudgeResults(model: string, results: JudgeResult[]): JudgeSummary {
+  const scored = results.filter((result) => result.score !== null);
+  const criterionScores = new Map<string, number[]>();
+  for (const result of scored) {
+    for (const criterion of result.criteria) {
+      const scores = criterionScores.get(criterion.id) || [];
+      scores.push(criterion.score);
+      criterionScores.set(criterion.id, scores);
+    }
+  }
+
+  const mean = (values: number[]) => Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 1000) / 1000;
+  return {
+    model,
+    graded: results.length,
+    errored: results.length - scored.length,
+    passed: scored.filter((result) => result.passed).length,
+    mean_score: scored.length > 0 ? mean(scored.map((result) => result.score as number)) : null,
+    criteria: Object.fromEntries([...criterionScores].map(([id, scores]) => [id, mean(scores)])),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * `npm run lint` — validate scenario files and instruction files without
+ * calling any API. Exits 1 when any error is found; warnings are printed only.
+ */
+
+import { pathToFileURL } from "node:url";
+import {
+  formatIssue,
+  lintInstructionFiles,
+  readScenarioFiles,
+  validateScenarioFiles,
+} from "./scenario-validation.js";
+
+export function runCli(): number {
+  const { files, issues: parseIssues } = readScenarioFiles();
+  const issues = [...parseIssues, ...validateScenarioFiles(files), ...lintInstructionFiles(files)];
+
+  for (const issue of issues) {
+    console.log(formatIssue(issue));
+  }
+
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const warnings = issues.length - errors;
+  console.log(
+    `${errors === 0 ? "✓" : "✗"} Linted ${files.length} scenarios: ${errors} error${
+      errors === 1 ? "" : "s"
+    }, ${warnings} warning${warnings === 1 ? "" : "s"}`
+  );
+  return errors === 0 ? 0 : 1;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  process.exitCode = runCli();
+}
@@ -0,0 +1,296 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseModelSpec } from "./provider.js";
+import { hashInstructionsFile } from "./scenarios.js";
+import { twoProportionTest, wilsonInterval } from "./stats.js";
+import { isPassed } from "./summary.js";
+import type {
+  MatrixManifest,
+  MatrixVariant,
+  ProviderName,
+  ReasoningEffort,
+  RunManifest,
+  RunSummary,
+  Scenario,
+  ScenarioResult,
+} from "./types.js";
+
+/**
+ * Matrix runs: `npm run eval -- --models a,b [--reasoning-effort low,high]
+ * [--instructions v1.md,v2.md]` runs the selected scenarios once per model ×
+ * effort × instructions variant. The parent run holds matrix.json and
+ * comparison.md; each variant is an ordinary sub-run with its own manifest,
+ * summary and traces, so accept/report/diff work on it.
+ *
+ * `npm run compare -- <parent_run_id>` rebuilds comparison.md, e.g. after
+ * resuming a sub-run.
+ */
+
+const RUNS_DIR = path.resolve(import.meta.dirname, "../runs");
+
+export interface MatrixAxes {
+  modelSpecs: string[];
+  /** Undefined leaves the provider default. */
+  efforts: Array<ReasoningEffort | undefined>;
+  /** Instructions file, `none` for no instructions, or undefined to keep each scenario's own. */
+  instructions: Array<string | undefined>;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Sub-run id for the variant at `index`. Keeps the parent's timestamp and the
+ * trailing "Z" that Cloudflare log filtering expects of run ids.
+ */
+export function childRunId(parentRunId: string, index: number): string {
+  return `${parentRunId.replace(/Z$/, "")}-m${index + 1}Z`;
+}
+
+function instructionsVariant(value: string | undefined): Pick<MatrixVariant, "instructions" | "instructions_sha256"> {
+  if (value === undefined) return {};
+  if (value === "none") return { instructions: null };
+  const hash = hashInstructionsFile(value);
+  if (!hash) {
+    throw new Error(`Instructions file not found: ${value}`);
+  }
+  return { instructions: value, instructions_sha256: hash };
+}
+
+/**
+ * Cross the axes, models outermost and instructions innermost. Throws when an
+ * instructions file does not exist.
+ */
+export function buildMatrixVariants(parentRunId: string, axes: MatrixAxes, defaultProvider: ProviderName): MatrixVariant[] {
+  const instructions = axes.instructions.map(instructionsVariant);
+  const variants = axes.modelSpecs.flatMap((spec) =>
+    axes.efforts.flatMap((effort) =>
+      instructions.map((instructionsFields) => ({ ...parseModelSpec(spec, defaultProvider), effort, instructionsFields }))
+    )
+  );
+  return variants.map(({ model, provider, effort, instructionsFields }, index) => {
+    const instructionsLabel =
+      instructionsFields.instructions === undefined
+        ? ""
+        : ` [${instructionsFields.instructions === null ? "none" : path.basename(instructionsFields.instructions, ".md")}]`;
+    return {
+      label: `${provider === "openai" ? model : `${provider}:${model}`}${effort ? `@${effort}` : ""}${instructionsLabel}`,
+      model,
+      provider,
+      ...(effort ? { reasoning_effort: effort } : {}),
+      ...instructionsFields,
+      run_id: childRunId(parentRunId, index),
+    };
+  });
+}
+
+/**
+ * Apply a variant's instructions override to every scenario.
+ */
+export function withInstructions(scenarios: Scenario[], instructions: MatrixVariant["instructions"]): Scenario[] {
+  if (instructions === undefined) return scenarios;
+  return scenarios.map(({ instructions: _own, ...scenario }) =>
+    instructions === null ? scenario : { ...scenario, instructions }
+  );
+}
+
+/**
+ * Scenarios for `--resume`, in manifest order, with the run's instructions
+ * override reapplied. Throws when a scenario is gone or an instructions file
+ * no longer matches the hash recorded when the run started, since the rest
+ * of the run would then not measure the same thing.
+ */
+export function resumeScenarios(manifest: RunManifest, loaded: Scenario[]): Scenario[] {
+  const byId = new Map(loaded.map((scenario) => [scenario.id, scenario]));
+  const missing = manifest.scenarios.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Cannot resume ${manifest.run_id}: scenarios no longer exist: ${missing.join(", ")}`);
+  }
+  const changed = Object.entries(manifest.instructions_hashes ?? {})
+    .filter(([file, hash]) => hashInstructionsFile(file) !== hash)
+    .map(([file]) => file);
+  if (changed.length > 0) {
+    throw new Error(`Cannot resume ${manifest.run_id}: instructions changed since the run started: ${changed.join(", ")}`);
+  }
+  return withInstructions(
+    manifest.scenarios.map((id) => byId.get(id) as Scenario),
+    manifest.instructions_override
+  );
+}
+
+interface CellStats {
+  traces: number;
+  passed: number;
+  errored: number;
+  mean_tokens: number;
+  mean_duration_ms: number;
+  /** Sum of the rows' cost_usd; null when no row was priced. */
+  cost_usd: number | null;
+}
+
+function cellStats(rows: ScenarioResult[]): CellStats {
+  const ok = rows.filter((row) => row.status === "ok");
+  const mean = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  return {
+    traces: rows.length,
+    passed: ok.filter(isPassed).length,
+    errored: rows.length - ok.length,
+    mean_tokens: mean(ok.map((row) => row.total_tokens ?? 0)),
+    mean_duration_ms: mean(ok.map((row) => row.duration_ms)),
+    cost_usd: rows.some((row) => row.cost_usd !== undefined)
+      ? rows.reduce((sum, row) => sum + (row.cost_usd ?? 0), 0)
+      : null,
+  };
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function fmtRate(stats: CellStats): string {
+  return stats.traces > 0 ? `${pct(stats.passed / stats.traces)} (${stats.passed}/${stats.traces})` : "-";
+}
+
+function fmtInterval(stats: CellStats): string {
+  const { low, high } = wilsonInterval(stats.passed, stats.traces);
+  return `${pct(low)}–${pct(high)}`;
+}
+
+function fmtCell(stats: CellStats | null): string {
+  if (!stats || stats.traces === 0) return "not run";
+  if (stats.errored === stats.traces) return `error (${stats.errored})`;
+  const marker = stats.passed === stats.traces ? "✓" : stats.passed === 0 ? "✗" : "~";
+  const cost = stats.cost_usd !== null ? `$${stats.cost_usd.toFixed(4)}` : "-";
+  return `${marker} ${stats.passed}/${stats.traces} · ${stats.mean_tokens} tok · ${cost} · ${stats.mean_duration_ms}ms`;
+}
+
+/**
+ * Side-by-side comparison of a matrix run's variants. Variants whose sub-run
+ * has no summary.json yet are shown as incomplete.
+ */
+export function buildMatrixComparisonMarkdown(
+  manifest: MatrixManifest,
+  summaries: Map<string, RunSummary | null>
+): string {
+  const lines: string[] = [];
+  lines.push(`# Matrix Comparison: ${manifest.run_id}`);
+  lines.push("");
+  lines.push(`- Generated at: ${new Date().toISOString()}`);
+  lines.push(`- Scenarios: ${manifest.scenarios.length}${manifest.trials ? ` × ${manifest.trials} trials` : ""}`);
+  lines.push(`- Variants: ${manifest.variants.length}`);
+  lines.push("");
+
+  const instructionVariants = manifest.variants.filter((variant) => variant.instructions !== undefined);
+  if (instructionVariants.length > 0) {
+    lines.push("## Instructions");
+    lines.push("");
+    lines.push("| Variant | File | sha256 |");
+    lines.push("| --- | --- | --- |");
+    for (const variant of instructionVariants) {
+      lines.push(`| ${variant.label} | ${variant.instructions ?? "(none)"} | ${variant.instructions_sha256?.slice(0, 12) ?? "-"} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## Overview");
+  lines.push("");
+  lines.push("| Variant | Sub-run | Pass rate | 95% CI | Errored | Total tokens | Mean tokens | Mean duration (ms) | Cost (USD) |");
+  lines.push("| --- | --- | --- | --- | --- | --- | --- | --- | --- |");
+  const overall = new Map<string, CellStats>();
+  for (const variant of manifest.variants) {
+    const summary = summaries.get(variant.run_id);
+    if (!summary) {
+      lines.push(`| ${variant.label} | ${variant.run_id} | incomplete | - | - | - | - | - | - |`);
+      continue;
+    }
+    const stats = cellStats(summary.scenarios);
+    overall.set(variant.run_id, stats);
+    lines.push(
+      `| ${variant.label} | ${variant.run_id} | ${fmtRate(stats)} | ${fmtInterval(stats)} | ${stats.errored} | ${summary.total_tokens.total} | ${stats.mean_tokens} | ${stats.mean_duration_ms} | ${summary.cost ? summary.cost.total_usd.toFixed(4) : "-"} |`
+    );
+  }
+  lines.push("");
+
+  const [control, ...others] = manifest.variants.filter((variant) => overall.has(variant.run_id));
+  if (control && others.length > 0) {
+    const controlStats = overall.get(control.run_id) as CellStats;
+    lines.push(`## Pass rate vs ${control.label}`);
+    lines.push("");
+    lines.push("Two-sided two-proportion z-test over all traces. With few trials per variant, read p-values as a hint.");
+    lines.push("");
+    lines.push("| Variant | Pass rate | Difference | p-value | Significant (p < 0.05) |");
+    lines.push("| --- | --- | --- | --- | --- |");
+    for (const variant of others) {
+      const stats = overall.get(variant.run_id) as CellStats;
+      const test = twoProportionTest(controlStats.passed, controlStats.traces, stats.passed, stats.traces);
+      lines.push(
+        `| ${variant.label} | ${fmtRate(stats)} | ${test.difference > 0 ? "+" : ""}${(test.difference * 100).toFixed(1)} pts | ${test.p_value.toFixed(3)} | ${test.p_value < 0.05 ? "yes" : "no"} |`
+      );
+    }
+    lines.push("");
+  }
+
+  lines.push("## By scenario");
+  lines.push("");
+  lines.push("Each cell: passed/traces · mean tokens · total cost (USD, - when unpriced) · mean duration.");
+  lines.push("");
+  lines.push(`| Scenario | ${manifest.variants.map((variant) => variant.label).join(" | ")} |`);
+  lines.push(`| --- | ${manifest.variants.map(() => "---").join(" | ")} |`);
+  for (const scenarioId of manifest.scenarios) {
+    const cells = manifest.variants.map((variant) => {
+      const summary = summaries.get(variant.run_id);
+      return fmtCell(summary ? cellStats(summary.scenarios.filter((row) => row.id === scenarioId)) : null);
+    });
+    lines.push(`| ${scenarioId} | ${cells.join(" | ")} |`);
+  }
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+export function readMatrixSummaries(manifest: MatrixManifest, runsDir = RUNS_DIR): Map<string, RunSummary | null> {
+  return new Map(
+    manifest.variants.map((variant) => {
+      const summaryPath = path.join(runsDir, variant.run_id, "summary.json");
+      return [variant.run_id, fs.existsSync(summaryPath) ? readJson<RunSummary>(summaryPath) : null];
+    })
+  );
+}
+
+/**
+ * Write runs/<parent>/comparison.md and return its path.
+ */
+export function writeMatrixComparison(parentRunId: string, runsDir = RUNS_DIR): string {
+  const parentDir = path.join(runsDir, parentRunId);
+  const manifest = readJson<MatrixManifest>(path.join(parentDir, "matrix.json"));
+  const outputPath = path.join(parentDir, "comparison.md");
+  fs.writeFileSync(outputPath, buildMatrixComparisonMarkdown(manifest, readMatrixSummaries(manifest, runsDir)));
+  return outputPath;
+}
+
+export async function runCli() {
+  const [, , runId] = process.argv;
+  if (!runId) {
+    fail("Usage: npm run compare -- <parent_run_id>");
+  }
+  if (!fs.existsSync(path.join(RUNS_DIR, runId, "matrix.json"))) {
+    fail(`matrix.json not found for run: ${runId} (is it a --models run?)`);
+  }
+  console.log(`Wrote comparison: ${writeMatrixComparison(runId)}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Minimal MCP Streamable HTTP client.
+ *
+ * Used by providers whose APIs cannot reach the Flaim MCP server themselves:
+ * the harness lists tools and executes tool calls on the model's behalf.
+ * Requests go through the injected `fetch` so cassettes capture them.
+ */
+
+const CLIENT_PROTOCOL_VERSION = "2025-03-26";
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpToolResult {
+  text: string;
+  isError: boolean;
+}
+
+export interface McpClient {
+  listTools(): Promise<McpTool[]>;
+  callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult>;
+}
+
+type JsonRpcResponse = {
+  id?: number | string | null;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+};
+
+/**
+ * Parse a JSON-RPC response body that may be plain JSON or an SSE stream.
+ */
+export function parseRpcBody(body: string, contentType: string): JsonRpcResponse {
+  if (!contentType.includes("text/event-stream")) {
+    return JSON.parse(body) as JsonRpcResponse;
+  }
+
+  const messages = body
+    .split(/\r?\n\r?\n/)
+    .map((chunk) =>
+      chunk
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n")
+    )
+    .filter((data) => data.length > 0)
+    .map((data) => JSON.parse(data) as JsonRpcResponse);
+
+  const response = messages.find((message) => message.result || message.error);
+  if (!response) {
+    throw new Error("MCP stream ended without a JSON-RPC response");
+  }
+  return response;
+}
+
+export function createMcpClient(options: {
+  url: string;
+  headers: Record<string, string>;
+  fetch?: typeof fetch;
+}): McpClient {
+  const doFetch = options.fetch ?? fetch;
+  let nextId = 1;
+  let sessionId: string | null = null;
+  let initialized: Promise<void> | null = null;
+
+  async function post(body: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = {
+      ...options.headers,
+      "Content-Type": "application/json",
+    };
+    if (sessionId) {
+      headers["Mcp-Session-Id"] = sessionId;
+    }
+    return doFetch(options.url, { method: "POST", headers, body: JSON.stringify(body) });
+  }
+
+  async function request(method: string, params: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    const response = await post({ jsonrpc: "2.0", id: nextId++, method, params });
+    const text = await response.text();
+    if (!response.ok) {
+      throw new Error(`MCP ${method} failed (${response.status}): ${text}`);
+    }
+
+    const message = parseRpcBody(text, response.headers.get("content-type") || "");
+    if (message.error) {
+      throw new Error(`MCP ${method} error ${message.error.code}: ${message.error.message}`);
+    }
+    return message.result ?? {};
+  }
+
+  function ensureInitialized(): Promise<void> {
+    if (!initialized) {
+      initialized = (async () => {
+        const response = await post({
+          jsonrpc: "2.0",
+          id: nextId++,
+          method: "initialize",
+          params: {
+            protocolVersion: CLIENT_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: "flaim-eval", version: "0.1.0" },
+          },
+        });
+        const text = await response.text();
+        if (!response.ok) {
+          throw new Error(`MCP initialize failed (${response.status}): ${text}`);
+        }
+        sessionId = response.headers.get("mcp-session-id");
+        await post({ jsonrpc: "2.0", method: "notifications/initialized" });
+      })();
+    }
+    return initialized;
+  }
+
+  return {
+    async listTools() {
+      await ensureInitialized();
+      const result = await request("tools/list");
+      return (result.tools as McpTool[] | undefined) ?? [];
+    },
+
+    async callTool(name, args) {
+      await ensureInitialized();
+      const result = await request("tools/call", { name, arguments: args });
+      const content = (result.content as Array<{ type: string; text?: string }> | undefined) ?? [];
+      return {
+        text: content
+          .filter((item) => item.type === "text" && typeof item.text === "string")
+          .map((item) => item.text)
+          .join("\n"),
+        isError: result.isError === true,
+      };
+    },
+  };
+}
@@ -0,0 +1,463 @@
+/**
+ * Local stand-in for the Flaim MCP gateway (`https://api.flaim.app/mcp`).
+ *
+ * Serves the read-only Flaim tool surface over MCP Streamable HTTP (JSON
+ * responses only) from fixtures in fixtures/mock-flaim/, and records
+ * worker-shaped structured log events for every tool call. Those events are
+ * served back through a Cloudflare-compatible telemetry query endpoint so
+ * `enrich`/`accept` can run end to end against the mock:
+ *
+ *   FLAIM_MCP_URL=http://localhost:8787/mcp
+ *   CLOUDFLARE_API_BASE_URL=http://localhost:8787/client/v4
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+const FIXTURES_DIR = path.resolve(import.meta.dirname, "../fixtures/mock-flaim");
+const DEFAULT_PORT = 8787;
+const PROTOCOL_VERSION = "2025-03-26";
+const TELEMETRY_PATH = /^\/client\/v4\/accounts\/[^/]+\/workers\/observability\/telemetry\/query$/;
+
+const PLATFORM_WORKERS: Record<string, string> = {
+  espn: "espn-client",
+  yahoo: "yahoo-client",
+  sleeper: "sleeper-client",
+};
+
+interface MockLeague {
+  league_id: string;
+  sport: string;
+  season_year: number;
+  info: Record<string, unknown>;
+  roster: Record<string, unknown>;
+  standings: unknown[];
+  matchups: Array<{ week?: number; [key: string]: unknown }>;
+  free_agents: unknown[];
+}
+
+interface PlatformFixture {
+  platform: string;
+  unsupported_sports: string[];
+  leagues: MockLeague[];
+}
+
+export interface MockFixtures {
+  session: Record<string, unknown>;
+  platforms: Record<string, PlatformFixture>;
+}
+
+/**
+ * Telemetry event in the Workers Observability shape read by cloudflare-logs.ts.
+ */
+export interface MockTelemetryEvent {
+  timestamp: number;
+  source: Record<string, unknown>;
+  $metadata: {
+    id: string;
+    requestId: string;
+    traceId?: string;
+    service: string;
+    message: string;
+    trigger: string;
+  };
+  $workers: {
+    wallTimeMs: number;
+    outcome: string;
+    requestId: string;
+    event: { response: { status: number } };
+  };
+}
+
+type ToolResult =
+  | { ok: true; data: unknown }
+  | { ok: false; code: string; message: string };
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+const LEAGUE_ARGS_SCHEMA = {
+  type: "object",
+  properties: {
+    platform: { type: "string", enum: ["espn", "yahoo", "sleeper"] },
+    sport: { type: "string", enum: ["football", "baseball", "basketball", "hockey"] },
+    league_id: { type: "string" },
+    season_year: { type: "number" },
+    team_id: { type: "string" },
+  },
+  required: ["platform", "sport", "league_id"],
+};
+
+export const MOCK_TOOLS = [
+  {
+    name: "get_user_session",
+    description: "Return the user's connected leagues, platforms and defaults.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "get_league_info",
+    description: "Return league settings for a league.",
+    inputSchema: LEAGUE_ARGS_SCHEMA,
+  },
+  {
+    name: "get_roster",
+    description: "Return the roster for the user's team in a league.",
+    inputSchema: LEAGUE_ARGS_SCHEMA,
+  },
+  {
+    name: "get_standings",
+    description: "Return current league standings.",
+    inputSchema: LEAGUE_ARGS_SCHEMA,
+  },
+  {
+    name: "get_matchups",
+    description: "Return matchups for a league, optionally for a single week.",
+    inputSchema: {
+      ...LEAGUE_ARGS_SCHEMA,
+      properties: { ...LEAGUE_ARGS_SCHEMA.properties, week: { type: "number" } },
+    },
+  },
+  {
+    name: "get_free_agents",
+    description: "Return the best available free agents in a league.",
+    inputSchema: LEAGUE_ARGS_SCHEMA,
+  },
+];
+
+export function loadMockFixtures(dir: string = FIXTURES_DIR): MockFixtures {
+  const readJson = <T>(file: string): T =>
+    JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as T;
+
+  const platforms: Record<string, PlatformFixture> = {};
+  for (const platform of Object.keys(PLATFORM_WORKERS)) {
+    platforms[platform] = readJson<PlatformFixture>(`${platform}.json`);
+  }
+
+  return { session: readJson<Record<string, unknown>>("session.json"), platforms };
+}
+
+/**
+ * Resolve a tool call against fixtures. Mirrors gateway error codes for
+ * unsupported platforms/sports so negative scenarios behave realistically.
+ */
+export function callMockTool(
+  fixtures: MockFixtures,
+  name: string,
+  args: Record<string, unknown>
+): ToolResult {
+  if (name === "get_user_session") {
+    return { ok: true, data: fixtures.session };
+  }
+
+  if (!MOCK_TOOLS.some((tool) => tool.name === name)) {
+    return { ok: false, code: "UNKNOWN_TOOL", message: `Unknown tool: ${name}` };
+  }
+
+  const platform = String(args.platform ?? "");
+  const sport = String(args.sport ?? "");
+  const leagueId = String(args.league_id ?? "");
+  const fixture = fixtures.platforms[platform];
+
+  if (!fixture) {
+    return {
+      ok: false,
+      code: "UNSUPPORTED_PLATFORM",
+      message: `Platform "${platform}" is not supported. Supported platforms: espn, yahoo, sleeper.`,
+    };
+  }
+  if (fixture.unsupported_sports.includes(sport)) {
+    return { ok: false, code: "NOT_SUPPORTED", message: `${sport} is not supported on ${platform}.` };
+  }
+
+  const league = fixture.leagues.find((l) => l.league_id === leagueId && (!sport || l.sport === sport));
+  if (!league) {
+    return {
+      ok: false,
+      code: "LEAGUE_NOT_FOUND",
+      message: `No ${sport || "unknown sport"} league ${leagueId || "(missing league_id)"} on ${platform}.`,
+    };
+  }
+
+  switch (name) {
+    case "get_league_info":
+      return { ok: true, data: { league_id: league.league_id, sport: league.sport, season_year: league.season_year, ...league.info } };
+    case "get_roster":
+      return { ok: true, data: league.roster };
+    case "get_standings":
+      return { ok: true, data: { league_id: league.league_id, standings: league.standings } };
+    case "get_matchups": {
+      const week = typeof args.week === "number" ? args.week : Number(args.week);
+      const matchups = Number.isFinite(week) ? league.matchups.filter((m) => m.week === week) : league.matchups;
+      return { ok: true, data: { league_id: league.league_id, week: Number.isFinite(week) ? week : null, matchups } };
+    }
+    default:
+      return { ok: true, data: { league_id: league.league_id, free_agents: league.free_agents } };
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+type Filter = { key: string; operation: string; value: string };
+
+function matchesFilter(event: MockTelemetryEvent, filter: Filter): boolean {
+  const actual =
+    filter.key === "$metadata.service"
+      ? event.$metadata.service
+      : filter.key === "$metadata.traceId"
+        ? event.$metadata.traceId
+        : filter.key === "$metadata.message"
+          ? event.$metadata.message
+          : undefined;
+  if (typeof actual !== "string") return false;
+  if (filter.operation === "includes") return actual.includes(filter.value);
+  return actual === filter.value;
+}
+
+export interface MockServerOptions {
+  fixtures?: MockFixtures;
+  log?: (line: string) => void;
+}
+
+export interface MockFlaimServer {
+  server: http.Server;
+  events: MockTelemetryEvent[];
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+}
+
+export function createMockFlaimServer(options: MockServerOptions = {}): MockFlaimServer {
+  const fixtures = options.fixtures ?? loadMockFixtures();
+  const log = options.log ?? ((line: string) => console.log(line));
+  const events: MockTelemetryEvent[] = [];
+
+  function emit(
+    service: string,
+    fields: Record<string, unknown>,
+    context: { runId?: string; traceId?: string; status: number; durationMs: number }
+  ): void {
+    const requestId = crypto.randomUUID();
+    const tags = [
+      context.runId ? `eval=${context.runId}` : "",
+      context.traceId ? `trace_id=${context.traceId}` : "",
+    ].filter(Boolean);
+    const source = {
+      service,
+      run_id: context.runId,
+      trace_id: context.traceId,
+      status: String(context.status),
+      duration_ms: context.durationMs,
+      ...fields,
+    };
+    const message = [`[${service}] ${String(fields.phase)} tool=${String(fields.tool ?? "")}`, ...tags].join(" ");
+
+    events.push({
+      timestamp: Date.now(),
+      source: { ...source, message },
+      $metadata: {
+        id: crypto.randomUUID(),
+        requestId,
+        traceId: context.traceId,
+        service,
+        message,
+        trigger: "POST /mcp",
+      },
+      $workers: {
+        wallTimeMs: context.durationMs,
+        outcome: "ok",
+        requestId,
+        event: { response: { status: context.status } },
+      },
+    });
+    log(JSON.stringify(source));
+  }
+
+  function handleToolCall(req: http.IncomingMessage, params: Record<string, unknown>) {
+    const name = String(params.name ?? "");
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    const runId = headerValue(req, "X-Flaim-Eval-Run");
+    const traceId = headerValue(req, "X-Flaim-Eval-Trace");
+    const correlationId = crypto.randomUUID();
+    const started = Date.now();
+
+    const result = callMockTool(fixtures, name, args);
+    const status = result.ok ? 200 : 400;
+    const common = {
+      tool: name,
+      correlation_id: correlationId,
+      sport: typeof args.sport === "string" ? args.sport : undefined,
+      league_id: typeof args.league_id === "string" ? args.league_id : undefined,
+    };
+
+    emit("fantasy-mcp", { ...common, phase: "tool_start", path: "/mcp", method: "POST" }, { runId, traceId, status: 200, durationMs: 0 });
+
+    if (name === "get_user_session") {
+      emit("auth-worker", { ...common, phase: "session_lookup", path: "/session", method: "GET" }, { runId, traceId, status, durationMs: 1 });
+    }
+
+    const worker = PLATFORM_WORKERS[String(args.platform ?? "")];
+    if (worker && name !== "get_user_session") {
+      emit(worker, { ...common, phase: "platform_fetch", path: `/${name.replace(/^get_/, "")}`, method: "GET" }, { runId, traceId, status, durationMs: 2 });
+    }
+
+    emit("fantasy-mcp", { ...common, phase: "tool_end", path: "/mcp", method: "POST" }, { runId, traceId, status, durationMs: Date.now() - started });
+
+    const payload = result.ok ? result.data : { error: result.code, message: result.message };
+    return {
+      content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+      isError: !result.ok,
+    };
+  }
+
+  function handleRpc(req: http.IncomingMessage, message: JsonRpcRequest): unknown {
+    switch (message.method) {
+      case "initialize":
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: "flaim-mock", version: "0.1.0" },
+        };
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: MOCK_TOOLS };
+      case "tools/call":
+        return handleToolCall(req, message.params ?? {});
+      default:
+        return undefined;
+    }
+  }
+
+  async function handleMcp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" });
+      res.end();
+      return;
+    }
+    if (!headerValue(req, "Authorization")?.startsWith("Bearer ")) {
+      sendJson(res, 401, { error: "unauthorized", message: "Missing bearer token" });
+      return;
+    }
+
+    let message: JsonRpcRequest;
+    try {
+      message = JSON.parse(await readBody(req)) as JsonRpcRequest;
+    } catch {
+      sendJson(res, 400, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+
+    // Notifications (no id) are acknowledged without a body.
+    if (message.id === undefined || message.id === null) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    const result = handleRpc(req, message);
+    const headers: Record<string, string> =
+      message.method === "initialize" ? { "Mcp-Session-Id": crypto.randomUUID() } : {};
+    if (result === undefined) {
+      sendJson(res, 200, { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }, headers);
+      return;
+    }
+    sendJson(res, 200, { jsonrpc: "2.0", id: message.id, result }, headers);
+  }
+
+  async function handleTelemetryQuery(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = JSON.parse(await readBody(req)) as {
+      limit?: number;
+      parameters?: { filters?: Filter[] };
+      timeframe?: { from?: number; to?: number };
+    };
+    const filters = body.parameters?.filters ?? [];
+    const from = body.timeframe?.from ?? 0;
+    const to = body.timeframe?.to ?? Number.MAX_SAFE_INTEGER;
+
+    const matched = events
+      .filter((event) => event.timestamp >= from && event.timestamp <= to)
+      .filter((event) => filters.every((filter) => matchesFilter(event, filter)))
+      .slice(0, body.limit ?? 200);
+
+    sendJson(res, 200, { success: true, errors: [], result: { events: { count: matched.length, events: matched } } });
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const handler =
+      url.pathname === "/mcp"
+        ? handleMcp(req, res)
+        : req.method === "POST" && TELEMETRY_PATH.test(url.pathname)
+          ? handleTelemetryQuery(req, res)
+          : url.pathname === "/health"
+            ? Promise.resolve(sendJson(res, 200, { ok: true }))
+            : Promise.resolve(sendJson(res, 404, { error: "not_found" }));
+
+    handler.catch((error) => {
+      sendJson(res, 500, { error: "internal", message: (error as Error).message });
+    });
+  });
+
+  return {
+    server,
+    events,
+    listen(port = DEFAULT_PORT) {
+      return new Promise((resolve) => {
+        server.listen(port, () => {
+          const address = server.address();
+          const actualPort = typeof address === "object" && address ? address.port : port;
+          resolve(`http://localhost:${actualPort}`);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+export async function runCli() {
+  const port = Number(process.env.FLAIM_MOCK_PORT) || DEFAULT_PORT;
+  const mock = createMockFlaimServer();
+  const baseUrl = await mock.listen(port);
+
+  console.log("=== Flaim Mock MCP Server ===\n");
+  console.log(`MCP:        ${baseUrl}/mcp`);
+  console.log(`Telemetry:  ${baseUrl}/client/v4`);
+  console.log("\nPoint the harness at it with:");
+  console.log(`  FLAIM_MCP_URL=${baseUrl}/mcp`);
+  console.log(`  CLOUDFLARE_API_BASE_URL=${baseUrl}/client/v4`);
+  console.log("  CLOUDFLARE_ACCOUNT_ID=mock CLOUDFLARE_API_TOKEN=mock FLAIM_EVAL_API_KEY=mock\n");
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Bounded-concurrency task runner.
+ */
+
+/**
+ * Run `worker` over `items` with at most `limit` tasks in flight. Items start
+ * in input order and results keep input order regardless of completion order.
+ * The first rejection is rethrown after in-flight tasks settle.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  async function drain(): Promise<void> {
+    while (next < items.length && !failure) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: lanes }, () => drain()));
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
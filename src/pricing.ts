@@ -0,0 +1,156 @@
+/**
+ * Token pricing: USD cost per trace, per scenario and per run from
+ * pricing/pricing.json (FLAIM_EVAL_PRICING points at another table), plus the
+ * `--max-cost` budget that stops a run before it goes over.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { LlmResponse, ModelPrice, PricingTable, RunCost, ScenarioResult, TraceArtifact } from "./types.js";
+
+const DEFAULT_PRICING_PATH = path.resolve(import.meta.dirname, "../pricing/pricing.json");
+const TOKENS_PER_RATE_UNIT = 1_000_000;
+
+function isRate(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Load and validate the pricing table. Throws with the file path on a missing
+ * file or a malformed rate.
+ */
+export function loadPricingTable(filePath = process.env.FLAIM_EVAL_PRICING || DEFAULT_PRICING_PATH): PricingTable {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Pricing table not found: ${filePath}`);
+  }
+  const table = JSON.parse(fs.readFileSync(filePath, "utf8")) as PricingTable;
+  if (typeof table.version !== "string" || !table.version || table.currency !== "USD" || !table.models) {
+    throw new Error(`Invalid pricing table ${filePath}: expected a version, currency "USD" and models`);
+  }
+  for (const [model, price] of Object.entries(table.models)) {
+    const rates = [price.input, price.output, price.cached_input ?? 0, price.reasoning ?? 0];
+    if (!rates.every(isRate)) {
+      throw new Error(`Invalid pricing table ${filePath}: rates for ${model} must be non-negative numbers`);
+    }
+  }
+  return table;
+}
+
+/**
+ * Price for a model id, falling back to the id without its snapshot date
+ * (gpt-5-mini-2025-08-07 → gpt-5-mini, claude-sonnet-4-5-20250929 →
+ * claude-sonnet-4-5). Null when the table has neither.
+ */
+export function findModelPrice(table: PricingTable, model: string): ModelPrice | null {
+  return table.models[model] ?? table.models[model.replace(/-(\d{4}-\d{2}-\d{2}|\d{8})$/, "")] ?? null;
+}
+
+export function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * USD cost of one response. Cached input falls back to the input rate and
+ * reasoning tokens to the output rate when the table has no separate price.
+ */
+export function computeCost(usage: LlmResponse["usage"], price: ModelPrice): number {
+  const cached = Math.min(usage.cached_input_tokens ?? 0, usage.input_tokens);
+  const reasoning = Math.min(usage.reasoning_tokens ?? 0, usage.output_tokens);
+  const cost =
+    (usage.input_tokens - cached) * price.input +
+    cached * (price.cached_input ?? price.input) +
+    (usage.output_tokens - reasoning) * price.output +
+    reasoning * (price.reasoning ?? price.output);
+  return roundUsd(cost / TOKENS_PER_RATE_UNIT);
+}
+
+/**
+ * Cost fields for a trace's summary row: the model's responses plus the judge
+ * call, each at its own model's price. Nothing is priced when the model under
+ * test has no price; the judge is left out when it has none.
+ */
+export function priceTrace(
+  artifact: TraceArtifact,
+  price: ModelPrice | null,
+  judgePrice: ModelPrice | null
+): Pick<ScenarioResult, "cost_usd" | "judge_cost_usd"> {
+  if (!price) return {};
+  const modelCost = computeCost(artifact.llm_response.usage, price);
+  const judgeUsage = artifact.judge?.usage;
+  if (!judgeUsage || !judgePrice) return { cost_usd: modelCost };
+  const judgeCost = computeCost(judgeUsage, judgePrice);
+  return { cost_usd: roundUsd(modelCost + judgeCost), judge_cost_usd: judgeCost };
+}
+
+/**
+ * Run-level cost from the summary rows' `cost_usd`. Errored traces carry no
+ * usage and count as zero.
+ */
+export function summarizeCost(table: PricingTable, rows: ScenarioResult[]): RunCost {
+  const byScenario: Record<string, number> = {};
+  for (const row of rows) {
+    byScenario[row.id] = roundUsd((byScenario[row.id] ?? 0) + (row.cost_usd ?? 0));
+  }
+  const judged = rows.filter((row) => row.judge_cost_usd !== undefined);
+  return {
+    pricing_version: table.version,
+    currency: table.currency,
+    total_usd: roundUsd(rows.reduce((sum, row) => sum + (row.cost_usd ?? 0), 0)),
+    by_scenario: byScenario,
+    ...(judged.length > 0
+      ? { judge_usd: roundUsd(judged.reduce((sum, row) => sum + (row.judge_cost_usd ?? 0), 0)) }
+      : {}),
+  };
+}
+
+export interface CostBudget {
+  max_usd: number;
+  /**
+   * Reserve a slot for one more trace. False once the spend so far plus the
+   * in-flight traces and this one, each projected at the most expensive trace
+   * seen, would exceed the budget; every later call is then false too.
+   */
+  tryStart(): boolean;
+  /** Settle a started trace with its actual cost. */
+  finish(costUsd: number): void;
+  /** Count a trace that was paid for earlier, e.g. when resuming. */
+  add(costUsd: number): void;
+  spent(): number;
+  exhausted(): boolean;
+}
+
+/**
+ * Budget shared by every trace of a run (and every sub-run of a matrix run).
+ * The first traces are projected at zero, so with `--concurrency N` up to N
+ * traces can start before the first cost is known.
+ */
+export function createCostBudget(maxUsd: number): CostBudget {
+  let spent = 0;
+  let inFlight = 0;
+  let maxTrace = 0;
+  let stopped = false;
+
+  const add = (costUsd: number) => {
+    spent = roundUsd(spent + costUsd);
+    maxTrace = Math.max(maxTrace, costUsd);
+  };
+
+  return {
+    max_usd: maxUsd,
+    tryStart() {
+      if (!stopped && spent + (inFlight + 1) * maxTrace > maxUsd) {
+        stopped = true;
+      }
+      if (stopped) return false;
+      inFlight += 1;
+      return true;
+    },
+    finish(costUsd) {
+      inFlight -= 1;
+      add(costUsd);
+    },
+    add,
+    spent: () => spent,
+    exhausted: () => stopped,
+  };
+}
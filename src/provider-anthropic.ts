@@ -0,0 +1,133 @@
+/**
+ * Anthropic Messages API adapter using the MCP connector beta.
+ *
+ * Anthropic calls the Flaim MCP server itself. The connector only accepts a
+ * bearer token, so X-Flaim-Eval-* headers cannot be forwarded and server-side
+ * trace isolation is unavailable for this provider.
+ */
+
+import { buildCapturedCall, type ModelProvider, type ProviderOptions } from "./provider.js";
+import type { CapturedToolCall, LlmResponse } from "./types.js";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const MCP_CONNECTOR_BETA = "mcp-client-2025-04-04";
+const DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "mcp_tool_use"; id: string; name: string; server_name?: string; input?: Record<string, unknown> }
+  | {
+      type: "mcp_tool_result";
+      tool_use_id: string;
+      is_error?: boolean;
+      content?: Array<{ type: string; text?: string }> | string;
+    }
+  | { type: string; [key: string]: unknown };
+
+interface AnthropicMessage {
+  id: string;
+  content: AnthropicContentBlock[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((item): item is { type: string; text: string } => item?.type === "text" && typeof item.text === "string")
+    .map((item) => item.text)
+    .join("\n");
+}
+
+/**
+ * Pair `mcp_tool_use` blocks with their `mcp_tool_result` blocks.
+ */
+export function extractAnthropicToolCalls(content: AnthropicContentBlock[]): CapturedToolCall[] {
+  const results = new Map<string, string>();
+  for (const block of content) {
+    if (block.type === "mcp_tool_result") {
+      results.set(String(block.tool_use_id), resultText(block.content));
+    }
+  }
+
+  return content
+    .filter((block) => block.type === "mcp_tool_use")
+    .map((block) => {
+      const use = block as { id: string; name: string; input?: Record<string, unknown> };
+      return buildCapturedCall(use.name, use.input ?? {}, results.get(use.id) ?? "");
+    });
+}
+
+export function toLlmResponse(message: AnthropicMessage): LlmResponse {
+  const inputTokens = message.usage?.input_tokens ?? 0;
+  const outputTokens = message.usage?.output_tokens ?? 0;
+  return {
+    response_id: message.id,
+    tool_calls: extractAnthropicToolCalls(message.content),
+    final_text: message.content
+      .filter((block): block is { type: "text"; text: string } => block.type === "text")
+      .map((block) => block.text)
+      .join("\n"),
+    raw_output: message.content,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+export function createAnthropicProvider(options: ProviderOptions = {}): ModelProvider {
+  const doFetch = options.fetch ?? fetch;
+
+  return {
+    name: "anthropic",
+    forwardsTraceHeaders: false,
+    supportsReasoningEffort: false,
+    async respond(request) {
+      const apiKey = process.env.ANTHROPIC_API_KEY || (options.replay ? "replay" : "");
+      if (!apiKey) {
+        throw new Error("ANTHROPIC_API_KEY is required for the anthropic provider");
+      }
+
+      const response = await doFetch(process.env.ANTHROPIC_API_URL || ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          "anthropic-beta": MCP_CONNECTOR_BETA,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: DEFAULT_MAX_TOKENS,
+          ...(request.instructions ? { system: request.instructions } : {}),
+          messages: [
+            // Earlier turns are replayed with their MCP tool blocks intact.
+            ...(request.history ?? []).flatMap((turn) => [
+              { role: "user", content: turn.prompt },
+              { role: "assistant", content: turn.response.raw_output },
+            ]),
+            { role: "user", content: request.prompt },
+          ],
+          mcp_servers: [
+            {
+              type: "url",
+              url: request.mcp.url,
+              name: request.mcp.label,
+              authorization_token: request.mcp.accessToken,
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "no body");
+        throw new Error(`Anthropic API ${response.status}: ${text}`);
+      }
+
+      return toLlmResponse((await response.json()) as AnthropicMessage);
+    },
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * OpenAI-compatible chat-completions adapter.
+ *
+ * The harness acts as the MCP client: it lists Flaim tools, exposes them as
+ * function tools, and executes each requested call against the MCP server
+ * (with eval trace headers) until the model returns a final answer.
+ */
+
+import OpenAI from "openai";
+import { createMcpClient, type McpClient } from "./mcp-client.js";
+import { buildCapturedCall, parseToolArgs, type ModelProvider, type ProviderOptions } from "./provider.js";
+import type { CapturedToolCall, LlmResponse } from "./types.js";
+
+const MAX_TOOL_ROUNDS = 8;
+
+function createChatClient(options: ProviderOptions): OpenAI {
+  const apiKey =
+    process.env.FLAIM_EVAL_CHAT_API_KEY || process.env.OPENAI_API_KEY || (options.replay ? "replay" : undefined);
+  return new OpenAI({
+    apiKey,
+    baseURL: process.env.FLAIM_EVAL_CHAT_BASE_URL || undefined,
+    fetch: options.fetch,
+    maxRetries: options.replay ? 0 : undefined,
+  });
+}
+
+type ChatHistoryEntry =
+  | OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam
+  | (OpenAI.Chat.Completions.ChatCompletionToolMessageParam & { is_error?: boolean });
+
+/**
+ * raw_output holds the assistant messages and tool results this adapter
+ * recorded; anything else means the history came from another provider.
+ */
+function isChatHistoryEntry(entry: unknown): entry is ChatHistoryEntry {
+  if (!entry || typeof entry !== "object") return false;
+  const { role, tool_call_id: toolCallId, content } = entry as Record<string, unknown>;
+  return role === "assistant" || (role === "tool" && typeof toolCallId === "string" && typeof content === "string");
+}
+
+/**
+ * Turn a recorded raw_output entry back into a chat message (drops the
+ * harness-only `is_error` flag on tool results).
+ */
+function toHistoryMessage(entry: unknown): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (!isChatHistoryEntry(entry)) {
+    throw new Error(`Unexpected chat history entry: ${JSON.stringify(entry)?.slice(0, 200)}`);
+  }
+  if (entry.role === "tool") {
+    return { role: "tool", tool_call_id: entry.tool_call_id, content: entry.content };
+  }
+  return entry;
+}
+
+/**
+ * Run one requested call. Malformed argument JSON (common on compatible
+ * endpoints) and JSON-RPC errors such as an unknown tool name are returned
+ * to the model as tool errors instead of failing the trace, so the model can
+ * recover.
+ */
+async function executeToolCall(
+  mcp: McpClient,
+  call: OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall
+): Promise<{ args: Record<string, unknown>; text: string; isError: boolean }> {
+  let args: Record<string, unknown>;
+  try {
+    args = parseToolArgs(call.function.arguments);
+  } catch (err) {
+    return {
+      args: {},
+      text: `Invalid JSON in arguments for ${call.function.name}: ${(err as Error).message}`,
+      isError: true,
+    };
+  }
+  try {
+    const result = await mcp.callTool(call.function.name, args);
+    return { args, text: result.text, isError: result.isError };
+  } catch (err) {
+    return { args, text: `Tool call ${call.function.name} failed: ${(err as Error).message}`, isError: true };
+  }
+}
+
+export function createChatCompletionsProvider(options: ProviderOptions = {}): ModelProvider {
+  const client = createChatClient(options);
+
+  return {
+    name: "chat",
+    forwardsTraceHeaders: true,
+    supportsReasoningEffort: true,
+    async respond(request) {
+      const mcp = createMcpClient({ url: request.mcp.url, headers: request.mcp.headers, fetch: options.fetch });
+      const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = (await mcp.listTools()).map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      }));
+
+      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+      if (request.instructions) {
+        messages.push({ role: "system", content: request.instructions });
+      }
+      for (const turn of request.history ?? []) {
+        messages.push({ role: "user", content: turn.prompt });
+        messages.push(...turn.response.raw_output.map(toHistoryMessage));
+      }
+      messages.push({ role: "user", content: request.prompt });
+
+      const toolCalls: CapturedToolCall[] = [];
+      const rawOutput: unknown[] = [];
+      const usage: LlmResponse["usage"] = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+      let responseId = "";
+      let finalText = "";
+      let roundsExhausted = true;
+
+      for (let round = 1; round <= MAX_TOOL_ROUNDS; round += 1) {
+        const completion = await client.chat.completions.create({
+          model: request.model,
+          messages,
+          tools,
+          ...(request.reasoningEffort ? { reasoning_effort: request.reasoningEffort } : {}),
+        });
+        responseId = completion.id;
+        usage.input_tokens += completion.usage?.prompt_tokens ?? 0;
+        usage.output_tokens += completion.usage?.completion_tokens ?? 0;
+        usage.total_tokens += completion.usage?.total_tokens ?? 0;
+        // Token details are optional on compatible endpoints; only record what was reported.
+        const cached = completion.usage?.prompt_tokens_details?.cached_tokens;
+        if (cached !== undefined) {
+          usage.cached_input_tokens = (usage.cached_input_tokens ?? 0) + cached;
+        }
+        const reasoning = completion.usage?.completion_tokens_details?.reasoning_tokens;
+        if (reasoning !== undefined) {
+          usage.reasoning_tokens = (usage.reasoning_tokens ?? 0) + reasoning;
+        }
+
+        const message = completion.choices[0]?.message;
+        if (!message) {
+          roundsExhausted = false;
+          break;
+        }
+        rawOutput.push(message);
+        messages.push(message);
+
+        const functionCalls = (message.tool_calls ?? []).filter(
+          (call): call is OpenAI.Chat.Completions.ChatCompletionMessageFunctionToolCall => call.type === "function"
+        );
+        if (functionCalls.length === 0) {
+          finalText = message.content ?? "";
+          roundsExhausted = false;
+          break;
+        }
+
+        // Execute sequentially to mirror parallel_tool_calls=false on the Responses API.
+        for (const call of functionCalls) {
+          const result = await executeToolCall(mcp, call);
+          toolCalls.push(buildCapturedCall(call.function.name, result.args, result.text));
+          const toolMessage = { role: "tool" as const, tool_call_id: call.id, content: result.text };
+          rawOutput.push({ ...toolMessage, is_error: result.isError });
+          messages.push(toolMessage);
+        }
+      }
+
+      return {
+        response_id: responseId,
+        tool_calls: toolCalls,
+        final_text: finalText,
+        raw_output: rawOutput,
+        usage,
+        ...(roundsExhausted ? { tool_rounds_exhausted: true } : {}),
+      };
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import OpenAI from "openai";
+import { buildCapturedCall, parseToolArgs, type ModelProvider, type ProviderOptions } from "./provider.js";
+import type { CapturedToolCall } from "./types.js";
+
+export function createOpenAIClient(options: ProviderOptions = {}): OpenAI {
+  if (options.replay) {
+    return new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY || "replay",
+      fetch: options.fetch,
+      maxRetries: 0,
+    });
+  }
+  return options.fetch ? new OpenAI({ fetch: options.fetch }) : new OpenAI();
+}
+
+/**
+ * Extract tool calls from the OpenAI response output items.
+ */
+export function extractToolCalls(
+  output: OpenAI.Responses.ResponseOutputItem[]
+): CapturedToolCall[] {
+  const calls: CapturedToolCall[] = [];
+
+  for (const item of output) {
+    if (item.type === "mcp_call") {
+      calls.push(buildCapturedCall(item.name, parseToolArgs(item.arguments), item.output ?? ""));
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Extract final assistant text from response output.
+ */
+export function extractFinalText(
+  output: OpenAI.Responses.ResponseOutputItem[]
+): string {
+  const textItems = output.filter(
+    (item): item is OpenAI.Responses.ResponseOutputMessage =>
+      item.type === "message" && item.role === "assistant"
+  );
+
+  return textItems
+    .flatMap((msg) =>
+      msg.content
+        .filter(
+          (c): c is OpenAI.Responses.ResponseOutputText =>
+            c.type === "output_text"
+        )
+        .map((c) => c.text)
+    )
+    .join("\n");
+}
+
+/**
+ * OpenAI Responses API with the hosted `mcp` tool — OpenAI calls Flaim directly.
+ */
+export function createOpenAIResponsesProvider(options: ProviderOptions = {}): ModelProvider {
+  const openai = createOpenAIClient(options);
+
+  return {
+    name: "openai",
+    forwardsTraceHeaders: true,
+    supportsReasoningEffort: true,
+    async respond(request) {
+      // Follow-up turns chain from the stored previous response, which already
+      // carries the developer instructions and earlier tool calls.
+      const previous = request.history?.at(-1)?.response.response_id;
+      const input: OpenAI.Responses.ResponseInput = [];
+      if (request.instructions && !previous) {
+        input.push({ role: "developer", content: request.instructions });
+      }
+      input.push({ role: "user", content: request.prompt });
+
+      const response = await openai.responses.create({
+        model: request.model,
+        input,
+        ...(previous ? { previous_response_id: previous } : {}),
+        ...(request.reasoningEffort ? { reasoning: { effort: request.reasoningEffort } } : {}),
+        tools: [
+          {
+            type: "mcp",
+            server_url: request.mcp.url,
+            server_label: request.mcp.label,
+            headers: request.mcp.headers,
+            require_approval: "never",
+          },
+        ],
+        store: true,
+        parallel_tool_calls: false,
+      });
+
+      return {
+        response_id: response.id,
+        tool_calls: extractToolCalls(response.output),
+        final_text: extractFinalText(response.output),
+        raw_output: response.output as unknown[],
+        usage: {
+          input_tokens: response.usage?.input_tokens ?? 0,
+          output_tokens: response.usage?.output_tokens ?? 0,
+          total_tokens: response.usage?.total_tokens ?? 0,
+          ...(response.usage?.input_tokens_details
+            ? { cached_input_tokens: response.usage.input_tokens_details.cached_tokens ?? 0 }
+            : {}),
+          ...(response.usage?.output_tokens_details
+            ? { reasoning_tokens: response.usage.output_tokens_details.reasoning_tokens ?? 0 }
+            : {}),
+        },
+      };
+    },
+  };
+}
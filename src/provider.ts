@@ -0,0 +1,100 @@
+/**
+ * Model provider abstraction.
+ *
+ * Every backend turns one user turn into the same `LlmResponse` shape so
+ * coverage, acceptance and reporting stay provider-agnostic. Follow-up turns
+ * pass the earlier turns as `history`; each adapter continues the
+ * conversation in its own API's terms.
+ */
+
+import type { CapturedToolCall, LlmResponse, ProviderName, ReasoningEffort } from "./types.js";
+
+export const PROVIDER_NAMES: ProviderName[] = ["openai", "anthropic", "chat"];
+
+/**
+ * A completed earlier turn of the same conversation.
+ */
+export interface ProviderHistoryTurn {
+  prompt: string;
+  response: LlmResponse;
+}
+
+export interface ProviderRequest {
+  model: string;
+  instructions: string | null;
+  prompt: string;
+  history?: ProviderHistoryTurn[];
+  /** Omitted from the API request when unset, so existing cassettes still match. */
+  reasoningEffort?: ReasoningEffort;
+  mcp: {
+    url: string;
+    label: string;
+    accessToken: string;
+    headers: Record<string, string>;
+  };
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  /** False when the backend cannot send X-Flaim-Eval-* headers to the MCP server. */
+  forwardsTraceHeaders: boolean;
+  /** False when the backend has no reasoning-effort setting; the request's effort is ignored. */
+  supportsReasoningEffort: boolean;
+  respond(request: ProviderRequest): Promise<LlmResponse>;
+}
+
+export interface ProviderOptions {
+  fetch?: typeof fetch;
+  replay?: boolean;
+}
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Split a `provider:model` spec. Specs without a known provider prefix use
+ * `defaultProvider`, so OpenAI fine-tune IDs like `ft:gpt-4o:org` stay intact.
+ */
+export function parseModelSpec(
+  spec: string,
+  defaultProvider: ProviderName = "openai"
+): { provider: ProviderName; model: string } {
+  const separator = spec.indexOf(":");
+  if (separator > 0) {
+    const prefix = spec.slice(0, separator);
+    if (isProviderName(prefix)) {
+      return { provider: prefix, model: spec.slice(separator + 1) };
+    }
+  }
+  return { provider: defaultProvider, model: spec };
+}
+
+/**
+ * Truncate a string for artifact preview.
+ */
+export function previewText(text: string, maxLen = 200): string {
+  if (text.length <= maxLen) return text;
+  return text.slice(0, maxLen) + "...";
+}
+
+export function buildCapturedCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  output: string
+): CapturedToolCall {
+  return {
+    tool_name: toolName,
+    args,
+    result_preview: output ? previewText(output) : "",
+    result_full: output,
+  };
+}
+
+export function parseToolArgs(raw: string | undefined | null): Record<string, unknown> {
+  if (!raw) return {};
+  const parsed = JSON.parse(raw) as unknown;
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {};
+}
@@ -3,7 +3,12 @@ import fs from "node:fs";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import { getMissingWorkers, inferExpectedWorkers } from "./coverage.js";
-import type { RunSummary, TraceArtifact } from "./types.js";
+import { meanGroundingScore } from "./grounding.js";
+import { parseExportArgs, writeExports, type ExportFormat } from "./exporters.js";
+import { buildHtmlReport, loadHtmlReportInput } from "./html-report.js";
+import { isPassed } from "./summary.js";
+import { buildWaterfall, formatWaterfallMermaid, formatWaterfallText } from "./waterfall.js";
+import type { JudgeSummary, RunCost, RunSummary, ScenarioResult, ScenarioTrialStats, TraceArtifact } from "./types.js";
 
 type AcceptanceReason = {
   code?: string;
@@ -55,6 +60,11 @@ function escapeCell(value: string): string {
   return value.replace(/\|/g, "\\|").replace(/\n/g, " ").trim();
 }
 
+/** " (turn N)" for checks declared on a turn of a multi-turn scenario. */
+function turnSuffix(turn: number | undefined): string {
+  return turn === undefined ? "" : ` (turn ${turn + 1})`;
+}
+
 function fmtList(items: string[]): string {
   return items.length > 0 ? items.join(", ") : "none";
 }
@@ -126,6 +136,128 @@ function buildTraceRows(runDir: string, summary: RunSummary): TraceReportRow[] {
   });
 }
 
+function fmtRate(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function buildJudgeSection(summary: RunSummary): string[] {
+  const judge = summary.judge as JudgeSummary;
+  const lines: string[] = [];
+  lines.push("## Judge Scores");
+  lines.push("");
+  lines.push(`- Judge model: ${judge.model}`);
+  lines.push(
+    `- Graded: ${judge.graded} (passed: ${judge.passed}, judge errors: ${judge.errored}, mean score: ${judge.mean_score ?? "n/a"})`
+  );
+  for (const [criterion, score] of Object.entries(judge.criteria)) {
+    lines.push(`- ${criterion}: ${score}`);
+  }
+  lines.push("");
+  lines.push("| Scenario | Trace ID | Score | Passed |");
+  lines.push("| --- | --- | ---: | --- |");
+  for (const scenario of summary.scenarios) {
+    if (scenario.judge_score === undefined) continue;
+    const passed = scenario.judge_passed === null || scenario.judge_passed === undefined ? "error" : fmtBool(scenario.judge_passed);
+    lines.push(
+      `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${scenario.judge_score ?? "n/a"} | ${passed} |`
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+function buildTrialStatsSection(trials: number, stats: ScenarioTrialStats[]): string[] {
+  const lines: string[] = [];
+  lines.push("## Trial Statistics");
+  lines.push("");
+  lines.push(
+    `| Scenario | Passed | Pass Rate | pass@1 | pass@${trials} | Tool Sequences | Duration p50/p90 (ms) | Tokens p50/p90 | Flaky |`
+  );
+  lines.push("| --- | ---: | ---: | ---: | ---: | ---: | --- | --- | --- |");
+  for (const row of stats) {
+    lines.push(
+      `| ${escapeCell(row.id)} | ${row.passed}/${row.trials} | ${fmtRate(row.pass_rate)} | ${fmtRate(
+        row.pass_at_k["1"] ?? 0
+      )} | ${fmtRate(row.pass_at_k[String(row.trials)] ?? 0)} | ${row.tool_sequences.length} | ${row.duration_ms.p50}/${
+        row.duration_ms.p90
+      } | ${row.total_tokens.p50}/${row.total_tokens.p90} | ${row.flaky ? "**FLAKY**" : "no"} |`
+    );
+  }
+  lines.push("");
+
+  const flaky = stats.filter((row) => row.flaky);
+  if (flaky.length > 0) {
+    lines.push("### Flaky Scenarios");
+    lines.push("");
+    for (const row of flaky) {
+      lines.push(`- ${row.id}: passed ${row.passed}/${row.trials}`);
+      for (const entry of row.tool_sequences) {
+        lines.push(`  - ${entry.count}× ${escapeCell(entry.sequence.join(" -> ") || "(none)")}`);
+      }
+    }
+    lines.push("");
+  }
+  return lines;
+}
+
+function buildCostSection(cost: RunCost, scenarios: ScenarioResult[]): string[] {
+  const lines: string[] = [];
+  lines.push("## Cost");
+  lines.push("");
+  lines.push(`- Pricing version: ${cost.pricing_version}`);
+  if (cost.max_cost_usd !== undefined) {
+    lines.push(`- Budget (--max-cost): $${cost.max_cost_usd}; traces not run: ${cost.skipped_traces ?? 0}`);
+  }
+  // Judge calls are included in every total; the judge column splits them out.
+  const judged = cost.judge_usd !== undefined;
+  if (judged) {
+    lines.push(`- Judge calls: $${cost.judge_usd?.toFixed(6)} of the $${cost.total_usd.toFixed(6)} total`);
+  }
+  lines.push("");
+  lines.push(`| Scenario | Traces | Cost (USD) | Mean per trace (USD) |${judged ? " Judge (USD) |" : ""}`);
+  lines.push(`| --- | ---: | ---: | ---: |${judged ? " ---: |" : ""}`);
+  for (const [id, total] of Object.entries(cost.by_scenario)) {
+    const rows = scenarios.filter((scenario) => scenario.id === id && scenario.cost_usd !== undefined);
+    const mean = rows.length > 0 ? (total / rows.length).toFixed(6) : "n/a";
+    const judge = rows.reduce((sum, row) => sum + (row.judge_cost_usd ?? 0), 0);
+    lines.push(`| ${escapeCell(id)} | ${rows.length} | ${total.toFixed(6)} | ${mean} |${judged ? ` ${judge.toFixed(6)} |` : ""}`);
+  }
+  lines.push("");
+  return lines;
+}
+
+/**
+ * Server-side waterfall per trace (see waterfall.ts); empty when no trace has
+ * correlated server log events.
+ */
+function buildWaterfallSection(runDir: string, summary: RunSummary): string[] {
+  const lines: string[] = [];
+  for (const scenario of summary.scenarios) {
+    const tracePath = path.join(runDir, scenario.trace_id, "trace.json");
+    if (!fs.existsSync(tracePath)) continue;
+    const waterfall = buildWaterfall(readJson<TraceArtifact>(tracePath));
+    if (waterfall.tools.length === 0) continue;
+    lines.push(`### ${scenario.id} / ${scenario.trace_id}`);
+    lines.push("");
+    lines.push("```text");
+    lines.push(formatWaterfallText(waterfall));
+    lines.push("```");
+    lines.push("");
+    lines.push("```mermaid");
+    lines.push(formatWaterfallMermaid(waterfall));
+    lines.push("```");
+    lines.push("");
+  }
+  if (lines.length === 0) return [];
+  return [
+    "## Server Waterfall",
+    "",
+    "Per tool call: fantasy-mcp ingress and its hops, offset (ms from the trace's first event), duration and status. Gaps are ingress time with no hop running.",
+    "",
+    ...lines,
+  ];
+}
+
 function buildReportMarkdown(
   runId: string,
   runDir: string,
@@ -135,6 +267,7 @@ function buildReportMarkdown(
 ): string {
   const generatedAt = new Date().toISOString();
   const expectedToolsHit = summary.scenarios.filter((scenario) => scenario.expected_tools_hit).length;
+  const passedCount = summary.scenarios.filter(isPassed).length;
 
   const lines: string[] = [];
   lines.push("# Flaim Eval Report");
@@ -147,29 +280,141 @@ function buildReportMarkdown(
 
   lines.push("## Overview");
   lines.push("");
-  lines.push(`- Scenario completion: ${summary.completed}/${summary.total_scenarios} (errored: ${summary.errored})`);
-  lines.push(`- Expected-tools pass count: ${expectedToolsHit}/${summary.total_scenarios}`);
+  // With --trials, summary.scenarios holds one row per trial.
+  const totalRows = summary.scenarios.length;
+  lines.push(`- Scenario completion: ${summary.completed}/${totalRows} (errored: ${summary.errored})`);
+  lines.push(`- Expected-tools pass count: ${expectedToolsHit}/${totalRows}`);
+  lines.push(`- Overall pass count: ${passedCount}/${totalRows}`);
+  const answerGraded = summary.scenarios.filter((scenario) => scenario.answer_passed !== undefined);
+  if (answerGraded.length > 0) {
+    const answerPassed = answerGraded.filter((scenario) => scenario.answer_passed).length;
+    lines.push(`- Answer-quality pass count: ${answerPassed}/${answerGraded.length}`);
+  }
+  const groundingScore = meanGroundingScore(summary.scenarios);
+  if (groundingScore !== null) {
+    lines.push(`- Mean grounding score: ${groundingScore}`);
+  }
+  if (summary.trials && summary.scenario_stats) {
+    const flakyCount = summary.scenario_stats.filter((stats) => stats.flaky).length;
+    lines.push(`- Trials per scenario: ${summary.trials} (flaky scenarios: ${flakyCount})`);
+  }
   lines.push(
     `- Tokens: ${summary.total_tokens.total} (${summary.total_tokens.input} input / ${summary.total_tokens.output} output)`
   );
+  if (summary.cost) {
+    const judge = summary.cost.judge_usd !== undefined ? `, of which judge $${summary.cost.judge_usd.toFixed(4)}` : "";
+    lines.push(`- Cost: $${summary.cost.total_usd.toFixed(4)} (pricing ${summary.cost.pricing_version}${judge})`);
+  }
   lines.push(`- Total duration: ${summary.total_duration_ms} ms`);
   lines.push(`- Acceptance status: ${acceptance ? fmtStatus(acceptance.final_status) : "NOT GENERATED"}`);
   lines.push("");
 
   lines.push("## Scenario Results");
   lines.push("");
-  lines.push("| Scenario | Trace ID | Status | Expected Tools Hit | Tools Called | Duration (ms) | Error |");
-  lines.push("| --- | --- | --- | --- | --- | ---: | --- |");
+  lines.push(
+    "| Scenario | Trace ID | Status | Passed | Expected Tools Hit | Args Match | Answer | Tools Called | Duration (ms) | Error |"
+  );
+  lines.push("| --- | --- | --- | --- | --- | --- | --- | --- | ---: | --- |");
   for (const scenario of summary.scenarios) {
     const toolsCalled = scenario.tool_calls.length > 0 ? scenario.tool_calls.join(" -> ") : "(none)";
+    const argsMatch = scenario.args_match === undefined ? "n/a" : fmtBool(scenario.args_match);
+    const answer = scenario.answer_passed === undefined ? "n/a" : fmtBool(scenario.answer_passed);
     lines.push(
       `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${escapeCell(scenario.status)} | ${fmtBool(
-        scenario.expected_tools_hit
-      )} | ${escapeCell(toolsCalled)} | ${scenario.duration_ms} | ${escapeCell(scenario.error || "")} |`
+        isPassed(scenario)
+      )} | ${fmtBool(scenario.expected_tools_hit)} | ${argsMatch} | ${answer} | ${escapeCell(toolsCalled)} | ${
+        scenario.duration_ms
+      } | ${escapeCell(scenario.error || "")} |`
     );
   }
   lines.push("");
 
+  const routingFailures = summary.scenarios.filter((scenario) => (scenario.routing_violations ?? []).length > 0);
+  if (routingFailures.length > 0) {
+    lines.push("## Routing Violations");
+    lines.push("");
+    for (const scenario of routingFailures) {
+      const mode = scenario.match_mode ? ` (${scenario.match_mode})` : "";
+      lines.push(`- ${scenario.id} / ${scenario.trace_id}${mode}: ${(scenario.routing_violations ?? []).join("; ")}`);
+    }
+    lines.push("");
+  }
+
+  const failedAnswerChecks = summary.scenarios.flatMap((scenario) =>
+    (scenario.answer_checks ?? []).filter((check) => !check.passed).map((check) => ({ scenario, check }))
+  );
+  if (failedAnswerChecks.length > 0) {
+    lines.push("## Answer Check Failures");
+    lines.push("");
+    lines.push("| Scenario | Trace ID | Check | Expected | Detail |");
+    lines.push("| --- | --- | --- | --- | --- |");
+    for (const { scenario, check } of failedAnswerChecks) {
+      lines.push(
+        `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${check.check}${turnSuffix(check.turn)} | ${escapeCell(
+          check.expected
+        )} | ${escapeCell(check.detail || "")} |`
+      );
+    }
+    lines.push("");
+  }
+
+  const failedArgChecks = summary.scenarios.flatMap((scenario) =>
+    (scenario.arg_checks ?? []).filter((check) => !check.passed).map((check) => ({ scenario, check }))
+  );
+  if (failedArgChecks.length > 0) {
+    lines.push("## Argument Mismatches");
+    lines.push("");
+    lines.push("| Scenario | Trace ID | Tool | Argument | Expected | Actual |");
+    lines.push("| --- | --- | --- | --- | --- | --- |");
+    for (const { scenario, check } of failedArgChecks) {
+      if (check.call_index === null) {
+        lines.push(
+          `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${escapeCell(check.tool)}${turnSuffix(check.turn)} | - | call | not called |`
+        );
+      }
+      for (const mismatch of check.mismatches) {
+        lines.push(
+          `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${escapeCell(check.tool)}${turnSuffix(
+            check.turn
+          )} | ${escapeCell(mismatch.arg
+          )} | ${escapeCell(mismatch.expected)} | ${escapeCell(
+            mismatch.actual === undefined ? "(missing)" : JSON.stringify(mismatch.actual)
+          )} |`
+        );
+      }
+    }
+    lines.push("");
+  }
+
+  const groundingRows = summary.scenarios.filter((scenario) => scenario.grounding_score !== undefined);
+  if (groundingRows.length > 0) {
+    lines.push("## Grounding");
+    lines.push("");
+    lines.push("| Scenario | Trace ID | Score | Ungrounded |");
+    lines.push("| --- | --- | ---: | --- |");
+    for (const scenario of groundingRows) {
+      const ungrounded = (scenario.ungrounded_entities ?? []).map((entity) => `${entity.text} (${entity.kind})`);
+      lines.push(
+        `| ${escapeCell(scenario.id)} | ${escapeCell(scenario.trace_id)} | ${scenario.grounding_score} | ${escapeCell(
+          fmtList(ungrounded)
+        )} |`
+      );
+    }
+    lines.push("");
+  }
+
+  if (summary.judge) {
+    lines.push(...buildJudgeSection(summary));
+  }
+
+  if (summary.trials && summary.scenario_stats) {
+    lines.push(...buildTrialStatsSection(summary.trials, summary.scenario_stats));
+  }
+
+  if (summary.cost) {
+    lines.push(...buildCostSection(summary.cost, summary.scenarios));
+  }
+
   lines.push("## Acceptance");
   lines.push("");
   if (!acceptance) {
@@ -210,6 +455,8 @@ function buildReportMarkdown(
   }
   lines.push("");
 
+  lines.push(...buildWaterfallSection(runDir, summary));
+
   lines.push("## Artifact Paths");
   lines.push("");
   lines.push(`- Summary: \`${path.join(runDir, "summary.json")}\``);
@@ -224,9 +471,15 @@ function buildReportMarkdown(
 }
 
 export async function runCli() {
-  const [, , runId] = process.argv;
+  let runId: string | undefined;
+  let formats: ExportFormat[];
+  try {
+    ({ runId, formats } = parseExportArgs(process.argv.slice(2)));
+  } catch (error) {
+    fail((error as Error).message);
+  }
   if (!runId) {
-    fail("Usage: npm run report -- <run_id>");
+    fail("Usage: npm run report -- <run_id> [--format junit,tap]");
   }
 
   const runDir = getRunDir(runId);
@@ -249,8 +502,14 @@ export async function runCli() {
   const report = buildReportMarkdown(runId, runDir, summary, acceptance, traceRows);
   const outputPath = path.join(runDir, "report.md");
   fs.writeFileSync(outputPath, report);
+  const htmlPath = path.join(runDir, "report.html");
+  fs.writeFileSync(htmlPath, buildHtmlReport(loadHtmlReportInput(runDir, summary, acceptance)));
 
   console.log(`Wrote report: ${outputPath}`);
+  console.log(`Wrote report: ${htmlPath}`);
+  for (const exportPath of writeExports(runDir, formats, summary, acceptance)) {
+    console.log(`Wrote export: ${exportPath}`);
+  }
 }
 
 if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
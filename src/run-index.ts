@@ -0,0 +1,150 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { isPassed } from "./summary.js";
+import type { ProviderName, RunManifest, RunSummary, TraceArtifact } from "./types.js";
+
+/**
+ * Index of every finished run under runs/, written to runs/index.json by
+ * `npm run index` (and refreshed by `npm run trends`). One entry per run with
+ * a row per trace, so history can be queried without re-reading each run.
+ */
+
+const DEFAULT_RUNS_DIR = path.resolve(import.meta.dirname, "../runs");
+const INDEX_FILE = "index.json";
+
+export interface IndexedTrace {
+  scenario_id: string;
+  trace_id: string;
+  trial?: number;
+  status: "ok" | "error";
+  passed: boolean;
+  tool_calls: string[];
+  total_tokens: number;
+  duration_ms: number;
+  /** From trace.json enrichment; null when the trace was never enriched. */
+  enrichment_attempts: number | null;
+  missing_workers: string[];
+}
+
+export interface IndexedRun {
+  run_id: string;
+  timestamp_utc: string;
+  model: string;
+  provider?: ProviderName;
+  instructions_files: string[];
+  acceptance_status: "pass" | "fail" | null;
+  traces: IndexedTrace[];
+}
+
+export interface RunIndex {
+  generated_at: string;
+  /** Oldest first. */
+  runs: IndexedRun[];
+}
+
+export interface IndexQuery {
+  model?: string;
+  scenarioId?: string;
+  /** Keep only the most recent N runs after the other filters. */
+  last?: number;
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+function readOptionalJson<T>(filePath: string): T | null {
+  try {
+    return fs.existsSync(filePath) ? readJson<T>(filePath) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Index one run directory; null when it has no summary.json (still running,
+ * interrupted, or not a run).
+ */
+export function indexRun(runDir: string): IndexedRun | null {
+  const summary = readOptionalJson<RunSummary>(path.join(runDir, "summary.json"));
+  if (!summary?.scenarios) return null;
+  const manifest = readOptionalJson<RunManifest>(path.join(runDir, "manifest.json"));
+  const acceptance = readOptionalJson<{ final_status: "pass" | "fail" }>(path.join(runDir, "acceptance-summary.json"));
+
+  return {
+    run_id: summary.run_id,
+    timestamp_utc: manifest?.timestamp_utc ?? summary.run_id,
+    model: summary.model,
+    ...(summary.provider ? { provider: summary.provider } : {}),
+    instructions_files: manifest?.instructions_files ?? [],
+    acceptance_status: acceptance?.final_status ?? null,
+    traces: summary.scenarios.map((row) => {
+      const trace = readOptionalJson<TraceArtifact>(path.join(runDir, row.trace_id, "trace.json"));
+      return {
+        scenario_id: row.id,
+        trace_id: row.trace_id,
+        ...(row.trial !== undefined ? { trial: row.trial } : {}),
+        status: row.status,
+        passed: row.status === "ok" && isPassed(row),
+        tool_calls: row.tool_calls,
+        total_tokens: row.total_tokens ?? 0,
+        duration_ms: row.duration_ms,
+        enrichment_attempts: trace?.enrichment?.attempts ?? null,
+        missing_workers: trace?.enrichment?.missing_workers ?? [],
+      };
+    }),
+  };
+}
+
+export function buildRunIndex(runsDir = DEFAULT_RUNS_DIR): RunIndex {
+  const runs = fs.existsSync(runsDir)
+    ? fs
+        .readdirSync(runsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => indexRun(path.join(runsDir, entry.name)))
+        .filter((run): run is IndexedRun => run !== null)
+    : [];
+  runs.sort((a, b) => a.timestamp_utc.localeCompare(b.timestamp_utc) || a.run_id.localeCompare(b.run_id));
+  return { generated_at: new Date().toISOString(), runs };
+}
+
+export function writeRunIndex(index: RunIndex, runsDir = DEFAULT_RUNS_DIR): string {
+  const indexPath = path.join(runsDir, INDEX_FILE);
+  fs.mkdirSync(runsDir, { recursive: true });
+  fs.writeFileSync(indexPath, JSON.stringify(index, null, 2));
+  return indexPath;
+}
+
+export function readRunIndex(runsDir = DEFAULT_RUNS_DIR): RunIndex | null {
+  return readOptionalJson<RunIndex>(path.join(runsDir, INDEX_FILE));
+}
+
+/**
+ * Filter indexed runs by model and scenario; traces of other scenarios are
+ * dropped when `scenarioId` is set, as are runs left with no traces.
+ */
+export function queryRuns(index: RunIndex, query: IndexQuery = {}): IndexedRun[] {
+  const runs = index.runs
+    .filter((run) => !query.model || run.model === query.model)
+    .map((run) =>
+      query.scenarioId ? { ...run, traces: run.traces.filter((trace) => trace.scenario_id === query.scenarioId) } : run
+    )
+    .filter((run) => run.traces.length > 0);
+  return query.last ? runs.slice(-query.last) : runs;
+}
+
+export async function runCli() {
+  const index = buildRunIndex();
+  const indexPath = writeRunIndex(index);
+  const traces = index.runs.reduce((sum, run) => sum + run.traces.length, 0);
+  console.log(`Indexed ${index.runs.length} runs (${traces} traces): ${indexPath}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * CLI argument parsing for `npm run eval`.
+ */
+
+import { isProviderName, PROVIDER_NAMES } from "./provider.js";
+import type { EnrichmentMode, ProviderName, ReasoningEffort } from "./types.js";
+
+export interface RunOptions {
+  scenarioIds: string[];
+  record: boolean;
+  replayRunId: string | null;
+  provider: ProviderName | null;
+  /** Null means one trial (or, on replay, the recorded trial count). */
+  trials: number | null;
+  /** Null falls back to FLAIM_EVAL_CONCURRENCY, then 1. */
+  concurrency: number | null;
+  /** Null falls back to FLAIM_EVAL_ENRICHMENT (or, on replay, the recorded mode), then inline. */
+  enrichment: EnrichmentMode | null;
+  /** Grade answers of scenarios that declare a rubric (FLAIM_EVAL_JUDGE_MODEL picks the judge). */
+  judge: boolean;
+  /** Tag expressions, e.g. "happy-path and not sleeper" (see selection.ts). */
+  tags: string | null;
+  excludeTags: string | null;
+  /** Re-run only the scenarios that failed or errored in this earlier run. */
+  rerunFailedRunId: string | null;
+  /** Finish an interrupted run in place, reusing its manifest settings and trace ids. */
+  resumeRunId: string | null;
+  /** Model specs for a matrix run; null runs FLAIM_EVAL_MODEL alone. */
+  models: string[] | null;
+  /** One effort applies to the run; several make a matrix run (crossed with `models`). */
+  reasoningEfforts: ReasoningEffort[] | null;
+  /** Instruction variants for an experiment (`none` = no instructions); each overrides Scenario.instructions. */
+  instructionVariants: string[] | null;
+  /** Stop starting traces once the run's USD cost would exceed this (see pricing.ts). */
+  maxCost: number | null;
+}
+
+const ENRICHMENT_MODES: EnrichmentMode[] = ["inline", "deferred"];
+const REASONING_EFFORTS: ReasoningEffort[] = ["minimal", "low", "medium", "high"];
+
+export function isEnrichmentMode(value: string): value is EnrichmentMode {
+  return (ENRICHMENT_MODES as string[]).includes(value);
+}
+
+export const RUN_USAGE =
+  "Usage: npm run eval -- [scenario_id|glob...] [--tags <expr>] [--exclude-tags <expr>] [--rerun-failed <run_id>] [--provider <openai|anthropic|chat>] [--trials <n>] [--concurrency <n>] [--enrichment <inline|deferred>] [--judge] [--models <spec,...>] [--reasoning-effort <effort,...>] [--instructions <file|none,...>] [--max-cost <usd>] [--record | --replay <run_id>] [--resume <run_id>]";
+
+function takeValue(argv: string[], index: number, flag: string): string {
+  const value = argv[index + 1];
+  if (!value || value.startsWith("-")) {
+    throw new Error(`${flag} requires a value.\n${RUN_USAGE}`);
+  }
+  return value;
+}
+
+function takeList(argv: string[], index: number, flag: string): string[] {
+  const values = takeValue(argv, index, flag)
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (values.length === 0) {
+    throw new Error(`${flag} requires at least one value.\n${RUN_USAGE}`);
+  }
+  return [...new Set(values)];
+}
+
+function takePositiveInt(argv: string[], index: number, flag: string): number {
+  const value = takeValue(argv, index, flag);
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${flag} must be a positive integer (got ${value})`);
+  }
+  return parsed;
+}
+
+function takePositiveNumber(argv: string[], index: number, flag: string): number {
+  const value = takeValue(argv, index, flag);
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive number (got ${value})`);
+  }
+  return parsed;
+}
+
+export function parseRunArgs(argv: string[]): RunOptions {
+  const options: RunOptions = {
+    scenarioIds: [],
+    record: false,
+    replayRunId: null,
+    provider: null,
+    trials: null,
+    concurrency: null,
+    enrichment: null,
+    judge: false,
+    tags: null,
+    excludeTags: null,
+    rerunFailedRunId: null,
+    resumeRunId: null,
+    models: null,
+    reasoningEfforts: null,
+    instructionVariants: null,
+    maxCost: null,
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--record":
+        options.record = true;
+        break;
+      case "--judge":
+        options.judge = true;
+        break;
+      case "--replay":
+        options.replayRunId = takeValue(argv, i, arg);
+        i += 1;
+        break;
+      case "--tags":
+        options.tags = takeValue(argv, i, arg);
+        i += 1;
+        break;
+      case "--exclude-tags":
+        options.excludeTags = takeValue(argv, i, arg);
+        i += 1;
+        break;
+      case "--rerun-failed":
+        options.rerunFailedRunId = takeValue(argv, i, arg);
+        i += 1;
+        break;
+      case "--resume":
+        options.resumeRunId = takeValue(argv, i, arg);
+        i += 1;
+        break;
+      case "--provider": {
+        const value = takeValue(argv, i, arg);
+        if (!isProviderName(value)) {
+          throw new Error(`Unknown provider: ${value} (expected one of ${PROVIDER_NAMES.join(", ")})`);
+        }
+        options.provider = value;
+        i += 1;
+        break;
+      }
+      case "--models":
+        options.models = takeList(argv, i, arg);
+        i += 1;
+        break;
+      case "--instructions":
+        options.instructionVariants = takeList(argv, i, arg);
+        i += 1;
+        break;
+      case "--reasoning-effort": {
+        const values = takeList(argv, i, arg);
+        const unknown = values.filter((value) => !(REASONING_EFFORTS as string[]).includes(value));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown reasoning effort: ${unknown.join(", ")} (expected one of ${REASONING_EFFORTS.join(", ")})`);
+        }
+        options.reasoningEfforts = values as ReasoningEffort[];
+        i += 1;
+        break;
+      }
+      case "--trials":
+        options.trials = takePositiveInt(argv, i, arg);
+        i += 1;
+        break;
+      case "--max-cost":
+        options.maxCost = takePositiveNumber(argv, i, arg);
+        i += 1;
+        break;
+      case "--concurrency":
+        options.concurrency = takePositiveInt(argv, i, arg);
+        i += 1;
+        break;
+      case "--enrichment": {
+        const value = takeValue(argv, i, arg);
+        if (!isEnrichmentMode(value)) {
+          throw new Error(`Unknown enrichment mode: ${value} (expected one of ${ENRICHMENT_MODES.join(", ")})`);
+        }
+        options.enrichment = value;
+        i += 1;
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option: ${arg}\n${RUN_USAGE}`);
+        }
+        options.scenarioIds.push(arg);
+    }
+  }
+
+  if (options.record && options.replayRunId) {
+    throw new Error(`--record and --replay cannot be combined.\n${RUN_USAGE}`);
+  }
+  if (options.rerunFailedRunId && options.replayRunId) {
+    throw new Error(`--rerun-failed and --replay cannot be combined.\n${RUN_USAGE}`);
+  }
+  if ((options.models || options.reasoningEfforts || options.instructionVariants) && options.replayRunId) {
+    throw new Error(
+      `--models, --reasoning-effort and --instructions cannot be combined with --replay; a replay reuses the recorded settings.\n${RUN_USAGE}`
+    );
+  }
+
+  if (options.resumeRunId) {
+    const conflicting =
+      options.scenarioIds.length > 0 ||
+      options.record ||
+      options.replayRunId ||
+      options.rerunFailedRunId ||
+      options.provider ||
+      options.trials ||
+      options.enrichment ||
+      options.judge ||
+      options.tags ||
+      options.excludeTags ||
+      options.models ||
+      options.reasoningEfforts ||
+      options.instructionVariants;
+    if (conflicting) {
+      throw new Error(`--resume reuses the run's recorded settings; only --concurrency and --max-cost can be combined with it.\n${RUN_USAGE}`);
+    }
+  }
+
+  return options;
+}
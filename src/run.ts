@@ -1,39 +1,360 @@
 import "dotenv/config";
 import fs from "node:fs";
 import path from "node:path";
-import { loadScenarios } from "./scenarios.js";
-import { runScenario } from "./runner.js";
+import { getScenarioTurns, hashInstructionsFile, loadScenarios } from "./scenarios.js";
+import { resolveCloudflareConfig, runScenario } from "./runner.js";
+import { enrichTraces, getReenrichSchedule } from "./enrich.js";
 import { getEvalApiKey, refreshAccessToken } from "./auth.js";
 import { isCloudflareConfigured } from "./cloudflare-logs.js";
 import { createTraceId } from "./trace.js";
-import { writeTraceArtifact } from "./artifacts.js";
-import type { RunManifest, RunSummary, TraceArtifact } from "./types.js";
+import { appendProgress, getCassettePath, readCompleteTraceArtifact, writeTraceArtifact } from "./artifacts.js";
+import { createRecordingCassette, loadReplayCassette, type Cassette } from "./cassette.js";
+import { isEnrichmentMode, parseRunArgs, type RunOptions } from "./run-options.js";
+import { isProviderName, parseModelSpec } from "./provider.js";
+import { isPassed, summarizeError, summarizeTrace } from "./summary.js";
+import { meanGroundingScore } from "./grounding.js";
+import { aggregateTrials } from "./stats.js";
+import { runWithConcurrency } from "./pool.js";
+import { loadFailedScenarioIds, selectScenarios } from "./selection.js";
+import { buildMatrixVariants, resumeScenarios, withInstructions, writeMatrixComparison } from "./matrix.js";
+import {
+  createCostBudget,
+  findModelPrice,
+  loadPricingTable,
+  priceTrace,
+  summarizeCost,
+  type CostBudget,
+} from "./pricing.js";
+import {
+  applyJudgeResult,
+  createJudgeProvider,
+  DEFAULT_JUDGE_MODEL,
+  gradeTrace,
+  judgeError,
+  loadRubric,
+  summarizeJudgeResults,
+  type JudgeProvider,
+} from "./judge.js";
+import type {
+  EnrichmentMode,
+  MatrixManifest,
+  MatrixVariant,
+  ModelPrice,
+  PricingTable,
+  ProviderName,
+  ReasoningEffort,
+  Rubric,
+  RunManifest,
+  RunSummary,
+  Scenario,
+  ScenarioResult,
+  TraceArtifact,
+} from "./types.js";
+
+const RUNS_DIR = path.resolve(import.meta.dirname, "../runs");
 
 const MCP_URL = process.env.FLAIM_MCP_URL || "https://api.flaim.app/mcp";
 const MODEL = process.env.FLAIM_EVAL_MODEL || "gpt-5-mini-2025-08-07";
+const PROVIDER = process.env.FLAIM_EVAL_PROVIDER || "openai";
+const CONCURRENCY = process.env.FLAIM_EVAL_CONCURRENCY;
+const ENRICHMENT = process.env.FLAIM_EVAL_ENRICHMENT || "inline";
+const JUDGE_MODEL = process.env.FLAIM_EVAL_JUDGE_MODEL || DEFAULT_JUDGE_MODEL;
+const REPLAY_ACCESS_TOKEN = "flaim-eval-replay-token";
+const EXPERIMENT_TRIALS = 5;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  if (Number.isFinite(parsed) && parsed > 0) {
+    return Math.floor(parsed);
+  }
+  return fallback;
+}
+
+function readRunManifest(runId: string): RunManifest {
+  const manifestPath = path.join(RUNS_DIR, runId, "manifest.json");
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`manifest.json not found for run: ${runId}`);
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8")) as RunManifest;
+}
+
+/**
+ * Queue recorded cassette paths per scenario so repeated scenarios replay in order.
+ */
+function buildReplayQueue(runId: string, manifest: RunManifest): Map<string, string[]> {
+  const queue = new Map<string, string[]>();
+  for (const trace of manifest.traces) {
+    const paths = queue.get(trace.scenario_id) || [];
+    paths.push(getCassettePath(path.join(RUNS_DIR, runId), trace.trace_id));
+    queue.set(trace.scenario_id, paths);
+  }
+  return queue;
+}
+
+/**
+ * Batched enrichment for `--enrichment deferred`: runs once every scenario has
+ * finished, with one shared backoff across traces. Cassettes are saved again
+ * afterwards so recordings include the Cloudflare exchanges.
+ */
+async function runDeferredEnrichment(
+  runDir: string,
+  outcomes: Array<{ artifact: TraceArtifact | null; cassette?: Cassette }>,
+  replay: boolean
+): Promise<void> {
+  const configs = new Map(
+    outcomes.flatMap((outcome) => {
+      const config = outcome.artifact ? resolveCloudflareConfig(outcome.cassette) : null;
+      return outcome.artifact && config ? [[outcome.artifact.trace_id, config] as const] : [];
+    })
+  );
+  if (configs.size === 0) {
+    return;
+  }
+
+  console.log(`=== Deferred enrichment (${configs.size} traces) ===`);
+  const schedule = getReenrichSchedule();
+  await enrichTraces(runDir, [...configs.keys()], {
+    mode: "deferred",
+    schedule: replay ? { ...schedule, delayMs: 0 } : schedule,
+    resolveConfig: (artifact) => configs.get(artifact.trace_id),
+    onTraceDone: ({ traceId, result, error }) => {
+      const missing = result?.missingWorkers.length ? result.missingWorkers.join(",") : "none";
+      console.log(`  ${traceId}: ${result ? `attempts=${result.attempts}, missing=${missing}` : `failed (${error})`}`);
+    },
+  });
+  console.log();
+
+  for (const outcome of outcomes) {
+    outcome.cassette?.save();
+  }
+}
+
+/**
+ * Summary row for a finished trace, including any judge verdict and, when the
+ * model is priced, its cost (judge call included).
+ */
+function summarizeOutcome(
+  scenario: Scenario,
+  artifact: TraceArtifact,
+  price: ModelPrice | null,
+  judgePrice: ModelPrice | null,
+  trial?: number
+): ScenarioResult {
+  const result = summarizeTrace(scenario, artifact);
+  const graded = artifact.judge ? applyJudgeResult(result, artifact.judge) : result;
+  const priced = { ...graded, ...priceTrace(artifact, price, judgePrice) };
+  return trial === undefined ? priced : { ...priced, trial };
+}
+
+function newRunId(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19) + "Z";
+}
+
+/**
+ * Settings for one run; a matrix run executes one per variant.
+ */
+interface RunContext {
+  runId: string;
+  scenarios: Scenario[];
+  model: string;
+  provider: ProviderName;
+  reasoningEffort?: ReasoningEffort;
+  mcpUrl: string;
+  accessToken: string;
+  trials: number;
+  concurrency: number;
+  enrichment: EnrichmentMode;
+  judgeModel: string | null;
+  rubrics: Map<string, Rubric>;
+  record: boolean;
+  replayRunId: string | null;
+  replayQueue: Map<string, string[]> | null;
+  resumeManifest: RunManifest | null;
+  /** Instructions variant already applied to `scenarios`; recorded in the manifest. */
+  instructionsOverride?: string | null;
+  pricing: PricingTable;
+  /** Shared across the sub-runs of a matrix run. */
+  budget: CostBudget | null;
+  parentRunId?: string;
+}
 
 async function main() {
-  // Parse CLI args: optional scenario IDs to filter
-  const filterIds = process.argv.slice(2).filter((a) => !a.startsWith("-"));
+  let options: RunOptions;
+  try {
+    options = parseRunArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+
+  // --resume finishes an earlier run in place with the settings it started with.
+  const resumeManifest = options.resumeRunId ? readRunManifest(options.resumeRunId) : null;
+  const replayRunId =
+    options.replayRunId ?? (resumeManifest?.cassette_mode === "replay" ? (resumeManifest.replay_of ?? null) : null);
+  const record = options.record || resumeManifest?.cassette_mode === "record";
+
+  const defaultProvider: ProviderName = options.provider ?? (isProviderName(PROVIDER) ? PROVIDER : "openai");
+  let { provider, model } = parseModelSpec(MODEL, defaultProvider);
+  let mcpUrl = MCP_URL;
+  let replayQueue: Map<string, string[]> | null = null;
+  let scenarioIds = options.scenarioIds;
+  let trials = options.trials ?? 1;
+  const concurrency = options.concurrency ?? parsePositiveInt(CONCURRENCY, 1);
+  let enrichment: EnrichmentMode = options.enrichment ?? (isEnrichmentMode(ENRICHMENT) ? ENRICHMENT : "inline");
+  let judgeModel: string | null = options.judge ? JUDGE_MODEL : null;
+  // One effort without --models applies to the plain run; anything else is a matrix.
+  const matrix =
+    options.models !== null || options.instructionVariants !== null || (options.reasoningEfforts?.length ?? 0) > 1;
+  // Instruction experiments compare pass rates, which needs repeated trials.
+  if (options.instructionVariants && options.trials === null) {
+    trials = EXPERIMENT_TRIALS;
+  }
+  let reasoningEffort: ReasoningEffort | undefined = matrix ? undefined : options.reasoningEfforts?.[0];
+  if (replayRunId) {
+    const sourceManifest = readRunManifest(replayRunId);
+    replayQueue = buildReplayQueue(replayRunId, sourceManifest);
+    // Replays must send byte-identical requests, so pin the recorded model/MCP URL.
+    model = sourceManifest.model;
+    provider = sourceManifest.provider ?? "openai";
+    mcpUrl = sourceManifest.mcp_url;
+    if (scenarioIds.length === 0) {
+      scenarioIds = sourceManifest.scenarios;
+    }
+    trials = options.trials ?? sourceManifest.trials ?? 1;
+    // Inline and deferred phases issue different Cloudflare query sequences.
+    enrichment = sourceManifest.enrichment_mode ?? "inline";
+    judgeModel = sourceManifest.judge_model ?? null;
+    reasoningEffort = sourceManifest.reasoning_effort;
+  }
+  if (resumeManifest) {
+    model = resumeManifest.model;
+    provider = resumeManifest.provider ?? "openai";
+    mcpUrl = resumeManifest.mcp_url;
+    trials = resumeManifest.trials ?? 1;
+    enrichment = resumeManifest.enrichment_mode ?? "inline";
+    judgeModel = resumeManifest.judge_model ?? null;
+    reasoningEffort = resumeManifest.reasoning_effort;
+  }
 
   console.log("=== Flaim Eval Harness ===\n");
-  console.log(`Model:  ${MODEL}`);
-  console.log(`MCP:    ${MCP_URL}`);
-  console.log(`Server logs: ${isCloudflareConfigured() ? "enabled" : "disabled (set CLOUDFLARE_ACCOUNT_ID + CLOUDFLARE_API_TOKEN to enable)"}`);
+  const parentRunId = matrix ? newRunId() : null;
+  let matrixVariants: MatrixVariant[] | null = null;
+  if (parentRunId) {
+    try {
+      matrixVariants = buildMatrixVariants(
+        parentRunId,
+        {
+          modelSpecs: options.models ?? [MODEL],
+          efforts: options.reasoningEfforts ?? [undefined],
+          instructions: options.instructionVariants ?? [undefined],
+        },
+        defaultProvider
+      );
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  }
+  if (matrixVariants) {
+    console.log(`Variants: ${matrixVariants.map((variant) => variant.label).join(", ")}`);
+  } else {
+    console.log(`Model:  ${model} (${provider})${reasoningEffort ? ` [reasoning ${reasoningEffort}]` : ""}`);
+  }
+  console.log(`MCP:    ${mcpUrl}`);
+
+  let pricing: PricingTable;
+  try {
+    pricing = loadPricingTable();
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+  // The judge counts toward cost and the budget like the model under test.
+  const judgeId = judgeModel ? parseModelSpec(judgeModel).model : null;
+  const unpriced = [
+    ...new Set([...(matrixVariants ? matrixVariants.map((variant) => variant.model) : [model]), ...(judgeId ? [judgeId] : [])]),
+  ].filter((id) => !findModelPrice(pricing, id));
+  if (unpriced.length > 0 && options.maxCost !== null) {
+    console.error(`--max-cost needs a price for ${unpriced.join(", ")} in pricing ${pricing.version}`);
+    process.exit(1);
+  }
+  if (unpriced.length > 0) {
+    console.log(`Cost:   not tracked for ${unpriced.join(", ")} (no price in pricing ${pricing.version})`);
+  }
+  if (options.maxCost !== null) {
+    console.log(`Budget: $${options.maxCost} (pricing ${pricing.version})`);
+  }
+  if (resumeManifest) {
+    console.log(`Resume: ${resumeManifest.run_id}`);
+  }
+  if (replayRunId) {
+    console.log(`Replay: ${replayRunId} (offline, no network)`);
+  } else {
+    console.log(`Server logs: ${isCloudflareConfigured() ? `enabled (${enrichment})` : "disabled (set CLOUDFLARE_ACCOUNT_ID + CLOUDFLARE_API_TOKEN to enable)"}`);
+    if (record) {
+      console.log("Cassettes: recording");
+    }
+  }
 
-  // Load scenarios
-  const scenarios = loadScenarios(filterIds.length > 0 ? filterIds : undefined);
-  console.log(`Scenarios: ${scenarios.length}\n`);
+  // Load and select scenarios
+  let scenarios: Scenario[];
+  try {
+    if (resumeManifest) {
+      scenarios = resumeScenarios(resumeManifest, loadScenarios());
+    } else {
+      const failedIds = options.rerunFailedRunId
+        ? loadFailedScenarioIds(path.join(RUNS_DIR, options.rerunFailedRunId))
+        : null;
+      if (failedIds) {
+        console.log(`Rerun:  ${failedIds.length} failed scenario${failedIds.length === 1 ? "" : "s"} from ${options.rerunFailedRunId}`);
+        if (failedIds.length === 0) {
+          console.log("Nothing to rerun.");
+          process.exit(0);
+        }
+      }
+      scenarios = selectScenarios(loadScenarios(), {
+        ids: scenarioIds,
+        tags: options.tags,
+        excludeTags: options.excludeTags,
+        only: failedIds,
+      });
+    }
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+  console.log(`Scenarios: ${scenarios.length}${trials > 1 ? ` × ${trials} trials` : ""}\n`);
 
   if (scenarios.length === 0) {
-    console.log("No scenarios found. Check scenarios/ directory.");
+    console.log("No scenarios selected. Check the scenario ids, --tags/--exclude-tags, or scenarios/ directory.");
     process.exit(1);
   }
 
+  // Load rubrics and build the judge up front so a typo or an unsupported
+  // judge model fails before any model calls.
+  const rubrics = new Map<string, Rubric>();
+  if (judgeModel) {
+    try {
+      for (const id of new Set(scenarios.flatMap((s) => (s.rubric ? [s.rubric] : [])))) {
+        rubrics.set(id, loadRubric(id));
+      }
+      if (rubrics.size > 0) {
+        createJudgeProvider(judgeModel, { replay: replayRunId !== null });
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+    console.log(`Judge:  ${judgeModel} (${rubrics.size} rubric${rubrics.size === 1 ? "" : "s"})\n`);
+  }
+
   // Get access token
   const apiKey = getEvalApiKey();
   let accessToken: string;
-  if (apiKey) {
+  if (replayQueue) {
+    console.log("Replaying cassettes (no auth needed).\n");
+    accessToken = REPLAY_ACCESS_TOKEN;
+  } else if (apiKey) {
     console.log("Using eval API key (no OAuth needed).\n");
     accessToken = apiKey;
   } else {
@@ -47,135 +368,437 @@ async function main() {
     }
   }
 
-  // Create run directory
-  const runId = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19) + "Z";
-  const runDir = path.resolve(import.meta.dirname, "../runs", runId);
-  fs.mkdirSync(runDir, { recursive: true });
-  const scenarioTraces = scenarios.map((scenario, index) => ({
-    scenario_id: scenario.id,
-    trace_id: createTraceId(scenario.id, index, runId),
-  }));
+  const context = {
+    scenarios,
+    model,
+    provider,
+    reasoningEffort,
+    mcpUrl,
+    accessToken,
+    trials,
+    concurrency,
+    enrichment,
+    judgeModel,
+    rubrics,
+    record,
+    replayRunId,
+    replayQueue,
+    resumeManifest,
+    pricing,
+    budget: options.maxCost !== null ? createCostBudget(options.maxCost) : null,
+  };
+  if (!parentRunId || !matrixVariants) {
+    await executeRun({ ...context, runId: resumeManifest?.run_id ?? newRunId() });
+    return;
+  }
 
-  // Write manifest
-  const manifest: RunManifest = {
-    run_id: runId,
+  // Matrix: the parent run only holds matrix.json and comparison.md.
+  const parentDir = path.join(RUNS_DIR, parentRunId);
+  fs.mkdirSync(parentDir, { recursive: true });
+  const matrixManifest: MatrixManifest = {
+    run_id: parentRunId,
     timestamp_utc: new Date().toISOString(),
-    model: MODEL,
-    mcp_url: MCP_URL,
-    scenario_count: scenarios.length,
     scenarios: scenarios.map((s) => s.id),
-    traces: scenarioTraces,
-    instructions_files: [...new Set(scenarios.map((s) => s.instructions).filter(Boolean))] as string[],
+    ...(trials > 1 ? { trials } : {}),
+    variants: matrixVariants,
   };
+  fs.writeFileSync(path.join(parentDir, "matrix.json"), JSON.stringify(matrixManifest, null, 2));
+  console.log(`Matrix run: ${parentRunId} (${matrixVariants.length} variants)\n`);
+
+  for (const variant of matrixVariants) {
+    if (context.budget?.exhausted()) {
+      console.log(`Budget reached; ${variant.label} and later variants not run.\n`);
+      break;
+    }
+    console.log(`##### ${variant.label} → ${variant.run_id} #####\n`);
+    await executeRun({
+      ...context,
+      scenarios: withInstructions(scenarios, variant.instructions),
+      instructionsOverride: variant.instructions,
+      model: variant.model,
+      provider: variant.provider,
+      reasoningEffort: variant.reasoning_effort,
+      runId: variant.run_id,
+      parentRunId,
+    });
+    console.log();
+  }
+
+  console.log(`Comparison: ${writeMatrixComparison(parentRunId)}`);
+}
+
+/**
+ * Run every scenario of one run and write its manifest, traces and summary.
+ */
+async function executeRun(context: RunContext): Promise<RunSummary> {
+  const {
+    runId,
+    scenarios,
+    model,
+    provider,
+    reasoningEffort,
+    mcpUrl,
+    accessToken,
+    trials,
+    concurrency,
+    enrichment,
+    judgeModel,
+    rubrics,
+    record,
+    replayRunId,
+    replayQueue,
+    resumeManifest,
+    instructionsOverride,
+    pricing,
+    budget,
+    parentRunId,
+  } = context;
+  const price = findModelPrice(pricing, model);
+  const judgePrice = judgeModel ? findModelPrice(pricing, parseModelSpec(judgeModel).model) : null;
+
+  // Create run directory
+  const runDir = path.join(RUNS_DIR, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+  // Trials of one scenario are adjacent; the trace index is unique across the run.
+  // Replay cassettes are assigned up front so completion order cannot reshuffle them.
+  // A resumed run keeps the trace ids from its manifest.
+  const jobs = resumeManifest
+    ? resumeManifest.traces.map((trace) => ({
+        scenario: scenarios.find((scenario) => scenario.id === trace.scenario_id) as Scenario,
+        trial: trace.trial ?? 1,
+        traceId: trace.trace_id,
+        cassettePath: replayQueue?.get(trace.scenario_id)?.shift(),
+      }))
+    : scenarios.flatMap((scenario, scenarioIndex) =>
+        Array.from({ length: trials }, (_, trialIndex) => {
+          const index = scenarioIndex * trials + trialIndex;
+          return {
+            scenario,
+            trial: trialIndex + 1,
+            traceId: createTraceId(scenario.id, index, runId),
+            cassettePath: replayQueue?.get(scenario.id)?.shift(),
+          };
+        })
+      );
+  const scenarioTraces = jobs.map((job) => ({
+    scenario_id: job.scenario.id,
+    trace_id: job.traceId,
+    ...(trials > 1 ? { trial: job.trial } : {}),
+  }));
+
+  // Write manifest (a resumed run keeps its original one, plus a resume timestamp)
+  let manifest: RunManifest;
+  const instructionsFiles = [...new Set(scenarios.map((s) => s.instructions).filter(Boolean))] as string[];
+  if (resumeManifest) {
+    manifest = { ...resumeManifest, resumed_at: [...(resumeManifest.resumed_at ?? []), new Date().toISOString()] };
+  } else {
+    manifest = {
+      run_id: runId,
+      timestamp_utc: new Date().toISOString(),
+      model,
+      provider,
+      ...(reasoningEffort ? { reasoning_effort: reasoningEffort } : {}),
+      mcp_url: mcpUrl,
+      scenario_count: scenarios.length,
+      scenarios: scenarios.map((s) => s.id),
+      traces: scenarioTraces,
+      instructions_files: instructionsFiles,
+      instructions_hashes: Object.fromEntries(
+        instructionsFiles.flatMap((file) => {
+          const hash = hashInstructionsFile(file);
+          return hash ? [[file, hash]] : [];
+        })
+      ),
+    };
+    if (trials > 1) {
+      manifest.trials = trials;
+    }
+    if (enrichment === "deferred") {
+      manifest.enrichment_mode = enrichment;
+    }
+    if (judgeModel) {
+      manifest.judge_model = judgeModel;
+    }
+    if (record) {
+      manifest.cassette_mode = "record";
+    }
+    if (replayRunId) {
+      manifest.cassette_mode = "replay";
+      manifest.replay_of = replayRunId;
+    }
+    if (parentRunId) {
+      manifest.parent_run_id = parentRunId;
+    }
+    if (instructionsOverride !== undefined) {
+      manifest.instructions_override = instructionsOverride;
+    }
+  }
   fs.writeFileSync(
     path.join(runDir, "manifest.json"),
     JSON.stringify(manifest, null, 2)
   );
+  console.log(`Run ID: ${runId} (if interrupted: npm run eval -- --resume ${runId})\n`);
+
+  // Run scenarios through a bounded pool; each job owns its trace ID, headers
+  // and cassette, so concurrent scenarios stay isolated.
+  type JobOutcome = {
+    result: ScenarioResult;
+    artifact: TraceArtifact | null;
+    cassette?: Cassette;
+    resumed?: boolean;
+    skipped?: boolean;
+  };
+  if (concurrency > 1) {
+    console.log(`Concurrency: ${concurrency}\n`);
+  }
+  const runStart = Date.now();
 
-  // Run scenarios sequentially
-  const results: TraceArtifact[] = [];
-  const summaryScenarios: RunSummary["scenarios"] = [];
-  let totalTokens = { input: 0, output: 0, total: 0 };
+  const outcomes = await runWithConcurrency(jobs, concurrency, async (job): Promise<JobOutcome> => {
+    const { scenario, trial, traceId } = job;
+    const trialLabel = trials > 1 ? ` (trial ${trial}/${trials})` : "";
+    if (resumeManifest) {
+      const existing = readCompleteTraceArtifact(runDir, traceId);
+      if (existing) {
+        console.log(`--- ${scenario.id}${trialLabel} --- already complete (${traceId})\n`);
+        const result = summarizeOutcome(scenario, existing, price, judgePrice, trials > 1 ? trial : undefined);
+        budget?.add(result.cost_usd ?? 0);
+        return { result, artifact: existing, resumed: true };
+      }
+    }
+    // Skipped traces get no progress entry, so --resume with a higher --max-cost runs them.
+    if (budget && !budget.tryStart()) {
+      console.log(`--- ${scenario.id}${trialLabel} --- not run: --max-cost budget reached (${traceId})\n`);
+      return {
+        result: {
+          ...summarizeError(scenario, traceId, `Not run: --max-cost budget of $${budget.max_usd} reached`),
+          ...(trials > 1 ? { trial } : {}),
+        },
+        artifact: null,
+        skipped: true,
+      };
+    }
+    let costUsd = 0;
+    // Buffer output when jobs overlap so each scenario prints as one block.
+    const lines: string[] = [];
+    const log = concurrency > 1 ? (line = "") => lines.push(line) : (line = "") => console.log(line);
 
-  for (const [index, scenario] of scenarios.entries()) {
-    const traceId = scenarioTraces[index]?.trace_id || createTraceId(scenario.id, index, runId);
-    console.log(`--- ${scenario.id} ---`);
-    console.log(`  Trace:  ${traceId}`);
-    console.log(`  Prompt: "${scenario.prompt}"`);
+    log(`--- ${scenario.id}${trialLabel} ---`);
+    log(`  Trace:  ${traceId}`);
+    for (const [turnIndex, turn] of getScenarioTurns(scenario).entries()) {
+      log(`  ${scenario.turns ? `Turn ${turnIndex + 1}` : "Prompt"}: "${turn.prompt}"`);
+    }
     if (scenario.instructions) {
-      console.log(`  Instructions: ${scenario.instructions}`);
+      log(`  Instructions: ${scenario.instructions}`);
     }
 
+    let cassette: Cassette | undefined;
     try {
+      const cassetteContext = { scenarioId: scenario.id, runId, traceId, accessToken };
+      if (replayQueue) {
+        if (!job.cassettePath) {
+          throw new Error(`No recorded cassette for scenario ${scenario.id} in run ${replayRunId}`);
+        }
+        cassette = loadReplayCassette(job.cassettePath, cassetteContext);
+      } else if (record) {
+        cassette = createRecordingCassette(getCassettePath(runDir, traceId), cassetteContext, {
+          cloudflareEnabled: isCloudflareConfigured(),
+        });
+      }
+
       const artifact = await runScenario(scenario, {
-        model: MODEL,
-        mcpUrl: MCP_URL,
+        model,
+        provider,
+        reasoningEffort,
+        mcpUrl,
         accessToken,
         runId,
         traceId,
+        cassette,
+        enrichment,
       });
 
+      const rubric = scenario.rubric ? rubrics.get(scenario.rubric) : undefined;
+      if (judgeModel && rubric) {
+        // Built per trace so judge calls go through this trace's cassette. A
+        // failure here must not lose the trace that was already paid for.
+        let judge: JudgeProvider | null = null;
+        try {
+          judge = createJudgeProvider(judgeModel, {
+            fetch: cassette?.fetch,
+            replay: cassette?.mode === "replay",
+          });
+        } catch (err) {
+          artifact.judge = judgeError(judgeModel, rubric, err);
+        }
+        if (judge) {
+          artifact.judge = await gradeTrace(judge, rubric, scenario, artifact);
+        }
+      }
+
       writeTraceArtifact(runDir, artifact);
 
       // Log summary
-      const toolNames = artifact.llm_response.tool_calls.map(
-        (tc) => tc.tool_name
-      );
-      const toolsMatch =
-        JSON.stringify(toolNames) ===
-        JSON.stringify(scenario.expected_tools);
-      const expectedToolsHit = scenario.expected_tools.every(
-        (t) => toolNames.includes(t)
-      );
-
-      console.log(`  Tools called: ${toolNames.join(" → ") || "(none)"}`);
-      console.log(`  Expected:     ${scenario.expected_tools.join(" → ")}`);
-      console.log(`  Pass:         ${expectedToolsHit ? "✓" : "✗"}${expectedToolsHit && !toolsMatch ? "  (extra tools called)" : ""}`);
-      console.log(`  Tokens: ${artifact.llm_response.usage.total_tokens}`);
-      console.log(`  Duration: ${artifact.duration_ms}ms`);
-      console.log(`  Final: ${artifact.llm_response.final_text.slice(0, 100)}...`);
-      console.log();
-
-      results.push(artifact);
-      summaryScenarios.push({
-        id: scenario.id,
+      const result = summarizeOutcome(scenario, artifact, price, judgePrice, trials > 1 ? trial : undefined);
+      costUsd = result.cost_usd ?? 0;
+      appendProgress(runDir, {
         trace_id: traceId,
+        scenario_id: scenario.id,
+        ...(trials > 1 ? { trial } : {}),
         status: "ok",
-        tool_calls: toolNames,
-        expected_tools: scenario.expected_tools,
-        tools_match: toolsMatch,
-        expected_tools_hit: expectedToolsHit,
-        duration_ms: artifact.duration_ms,
+        finished_at: new Date().toISOString(),
       });
+      for (const turn of result.turns ?? []) {
+        log(`  Turn ${turn.index + 1}: ${turn.tool_calls.join(" → ") || "(none)"} (expected ${turn.expected_tools.join(" → ") || "none"}) ${turn.expected_tools_hit ? "✓" : "✗"}`);
+      }
+      log(`  Tools called: ${result.tool_calls.join(" → ") || "(none)"}`);
+      log(`  Expected:     ${scenario.expected_tools.join(" → ") || "(none)"} [${result.match_mode}]`);
+      for (const violation of result.routing_violations ?? []) {
+        log(`  Routing:      ${violation}`);
+      }
+      for (const check of result.arg_checks ?? []) {
+        const turnLabel = check.turn === undefined ? "" : `turn ${check.turn + 1}: `;
+        for (const mismatch of check.mismatches) {
+          log(`  Arg mismatch: ${turnLabel}${check.tool}.${mismatch.arg} expected ${mismatch.expected}, got ${mismatch.actual === undefined ? "(missing)" : JSON.stringify(mismatch.actual)}`);
+        }
+        if (!check.passed && check.call_index === null) {
+          log(`  Arg mismatch: ${turnLabel}${check.tool} was not called`);
+        }
+      }
+      log(`  Pass:         ${result.passed ? "✓" : "✗"}${result.passed && !result.tools_match ? "  (extra tools called)" : ""}`);
+      if (artifact.judge) {
+        log(
+          `  Judge:        ${artifact.judge.error ? `error (${artifact.judge.error})` : `${artifact.judge.score} ${artifact.judge.passed ? "✓" : "✗"}`}`
+        );
+      }
+      if (result.answer_checks) {
+        const failedChecks = result.answer_checks.filter((check) => !check.passed);
+        log(`  Answer:       ${result.answer_passed ? "✓" : "✗"}${failedChecks.map((check) => `  [${check.check}: ${check.detail ?? check.expected}]`).join("")}`);
+      }
+      if (result.grounding_score !== undefined) {
+        const ungrounded = result.ungrounded_entities ?? [];
+        log(`  Grounding:    ${result.grounding_score}${ungrounded.length > 0 ? `  (ungrounded: ${ungrounded.map((entity) => entity.text).join(", ")})` : ""}`);
+      }
+      log(`  Tokens: ${artifact.llm_response.usage.total_tokens}${result.cost_usd !== undefined ? ` ($${result.cost_usd})` : ""}`);
+      log(`  Duration: ${artifact.duration_ms}ms`);
+      log(`  Final: ${artifact.llm_response.final_text.slice(0, 100)}...`);
+      log();
 
-      totalTokens.input += artifact.llm_response.usage.input_tokens;
-      totalTokens.output += artifact.llm_response.usage.output_tokens;
-      totalTokens.total += artifact.llm_response.usage.total_tokens;
+      return { result, artifact, cassette };
     } catch (err) {
       const msg = (err as Error).message;
-      console.log(`  ERROR: ${msg}\n`);
-      summaryScenarios.push({
-        id: scenario.id,
+      log(`  ERROR: ${msg}\n`);
+      appendProgress(runDir, {
         trace_id: traceId,
+        scenario_id: scenario.id,
+        ...(trials > 1 ? { trial } : {}),
         status: "error",
-        tool_calls: [],
-        expected_tools: scenario.expected_tools,
-        tools_match: false,
-        expected_tools_hit: false,
-        duration_ms: 0,
         error: msg,
+        finished_at: new Date().toISOString(),
       });
+      return {
+        result: { ...summarizeError(scenario, traceId, msg), ...(trials > 1 ? { trial } : {}) },
+        artifact: null,
+        cassette,
+      };
+    } finally {
+      budget?.finish(costUsd);
+      // Keep partial cassettes too: a failed exchange is often what needs reproducing.
+      cassette?.save();
+      if (lines.length > 0) {
+        console.log(lines.join("\n"));
+      }
     }
+  });
+
+  if (enrichment === "deferred") {
+    // Traces finished before a resume still need enrichment if the run stopped before its deferred phase.
+    const pending = outcomes.filter((outcome) => !outcome.resumed || (!replayQueue && !outcome.artifact?.enrichment));
+    await runDeferredEnrichment(runDir, pending, Boolean(replayQueue));
   }
 
+  const wallTimeMs = Date.now() - runStart;
+  const results = outcomes.flatMap((outcome) => (outcome.artifact ? [outcome.artifact] : []));
+  const summaryScenarios = outcomes.map((outcome) => outcome.result);
+  const totalTokens = {
+    input: results.reduce((sum, r) => sum + r.llm_response.usage.input_tokens, 0),
+    output: results.reduce((sum, r) => sum + r.llm_response.usage.output_tokens, 0),
+    total: results.reduce((sum, r) => sum + r.llm_response.usage.total_tokens, 0),
+  };
+
   // Write summary
   const totalDuration = results.reduce((sum, r) => sum + r.duration_ms, 0);
   const summary: RunSummary = {
     run_id: runId,
-    model: MODEL,
+    model,
+    provider,
+    ...(reasoningEffort ? { reasoning_effort: reasoningEffort } : {}),
     total_scenarios: scenarios.length,
     completed: summaryScenarios.filter((s) => s.status === "ok").length,
     errored: summaryScenarios.filter((s) => s.status === "error").length,
     total_duration_ms: totalDuration,
+    wall_time_ms: wallTimeMs,
     total_tokens: totalTokens,
     scenarios: summaryScenarios,
   };
+  if (trials > 1) {
+    summary.trials = trials;
+    summary.scenario_stats = aggregateTrials(summaryScenarios);
+  }
+  const skipped = outcomes.filter((outcome) => outcome.skipped).length;
+  if (price) {
+    summary.cost = {
+      ...summarizeCost(pricing, summaryScenarios),
+      ...(budget ? { max_cost_usd: budget.max_usd } : {}),
+      ...(skipped > 0 ? { skipped_traces: skipped } : {}),
+    };
+  }
+  if (judgeModel) {
+    summary.judge = summarizeJudgeResults(
+      judgeModel,
+      results.flatMap((artifact) => (artifact.judge ? [artifact.judge] : []))
+    );
+  }
   fs.writeFileSync(
     path.join(runDir, "summary.json"),
     JSON.stringify(summary, null, 2)
   );
 
   // Final report
-  // Calculate pass rate (expected tools hit)
-  const passed = summaryScenarios.filter((s) => s.expected_tools_hit).length;
+  // Calculate pass rate (routing plus any argument assertions)
+  const passed = summaryScenarios.filter(isPassed).length;
 
   console.log("=== Run Complete ===");
   console.log(`Run ID:    ${runId}`);
   console.log(`Artifacts: ${runDir}/`);
-  console.log(`Passed:    ${passed}/${summary.total_scenarios}`);
+  console.log(`Passed:    ${passed}/${summaryScenarios.length}${trials > 1 ? " traces" : ""}`);
+  const flaky = summary.scenario_stats?.filter((stats) => stats.flaky) ?? [];
+  if (flaky.length > 0) {
+    console.log(`Flaky:     ${flaky.map((stats) => `${stats.id} (${stats.passed}/${stats.trials})`).join(", ")}`);
+  }
+  const answerGraded = summaryScenarios.filter((s) => s.answer_passed !== undefined);
+  if (answerGraded.length > 0) {
+    console.log(`Answers:   ${answerGraded.filter((s) => s.answer_passed).length}/${answerGraded.length}`);
+  }
+  const grounding = meanGroundingScore(summaryScenarios);
+  if (grounding !== null) {
+    console.log(`Grounding: mean ${grounding} over ${summaryScenarios.filter((s) => s.grounding_score !== undefined).length} traces`);
+  }
+  if (summary.judge) {
+    console.log(`Judge:     ${summary.judge.passed}/${summary.judge.graded} passed (mean ${summary.judge.mean_score ?? "n/a"})`);
+  }
   console.log(`Errored:   ${summary.errored}`);
   console.log(`Tokens:    ${totalTokens.total} (${totalTokens.input} in / ${totalTokens.output} out)`);
-  console.log(`Duration:  ${totalDuration}ms`);
+  if (summary.cost) {
+    console.log(`Cost:      $${summary.cost.total_usd} (pricing ${summary.cost.pricing_version})`);
+  }
+  if (skipped > 0) {
+    console.log(
+      `Budget:    $${budget?.max_usd} reached; ${skipped} trace${skipped === 1 ? "" : "s"} not run (raise it with: npm run eval -- --resume ${runId} --max-cost <usd>)`
+    );
+    process.exitCode = 1;
+  }
+  console.log(`Duration:  ${totalDuration}ms${concurrency > 1 ? ` (wall ${wallTimeMs}ms)` : ""}`);
+  return summary;
 }
 
 main().catch((err) => {
@@ -1,11 +1,25 @@
-import OpenAI from "openai";
 import type {
+  EnrichmentMode,
+  LlmResponse,
+  ProviderName,
+  ReasoningEffort,
   Scenario,
   TraceArtifact,
-  CapturedToolCall,
+  TraceTurn,
 } from "./types.js";
-import { loadInstructions } from "./scenarios.js";
-import { allowRunFallback, isCloudflareConfigured, fetchWorkerLogs } from "./cloudflare-logs.js";
+import { getScenarioTurns, loadInstructions } from "./scenarios.js";
+import {
+  allowRunFallback,
+  fetchWorkerLogs,
+  getCloudflareConfig,
+  isCloudflareConfigured,
+  type CloudflareConfig,
+} from "./cloudflare-logs.js";
+import type { Cassette } from "./cassette.js";
+import type { ModelProvider, ProviderOptions } from "./provider.js";
+import { createOpenAIResponsesProvider } from "./provider-openai.js";
+import { createAnthropicProvider } from "./provider-anthropic.js";
+import { createChatCompletionsProvider } from "./provider-chat.js";
 import { getActualWorkers, getMissingWorkers, inferExpectedWorkers } from "./coverage.js";
 import { mergeServerLogs } from "./logs-merge.js";
 
@@ -15,10 +29,15 @@ const LOG_ENRICHMENT_RETRY_DELAY_MS = 5000;
 
 interface RunnerConfig {
   model?: string;
+  provider?: ProviderName;
+  reasoningEffort?: ReasoningEffort;
   mcpUrl: string;
   accessToken: string;
   runId: string;
   traceId: string;
+  cassette?: Cassette;
+  /** `deferred` leaves server logs to the batched phase in enrich.ts. */
+  enrichment?: EnrichmentMode;
 }
 
 export function buildMcpHeaders(
@@ -34,137 +53,147 @@ export function buildMcpHeaders(
   };
 }
 
-/**
- * Truncate a string for artifact preview.
- */
-function previewText(text: string, maxLen = 200): string {
-  if (text.length <= maxLen) return text;
-  return text.slice(0, maxLen) + "...";
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/**
- * Extract tool calls from the OpenAI response output items.
- */
-function extractToolCalls(
-  output: OpenAI.Responses.ResponseOutputItem[]
-): CapturedToolCall[] {
-  const calls: CapturedToolCall[] = [];
-
-  for (const item of output) {
-    if (item.type === "mcp_call") {
-      const full = item.output ?? "";
-      calls.push({
-        tool_name: item.name,
-        args: JSON.parse(item.arguments ?? "{}"),
-        result_preview: full ? previewText(full) : "",
-        result_full: full,
-      });
-    }
+export function createProvider(name: ProviderName, options: ProviderOptions = {}): ModelProvider {
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider(options);
+    case "chat":
+      return createChatCompletionsProvider(options);
+    default:
+      return createOpenAIResponsesProvider(options);
   }
-
-  return calls;
 }
 
 /**
- * Extract final assistant text from response output.
+ * Collapse per-turn responses into the trace-level `llm_response`: every tool
+ * call in order, the last turn's answer, and summed token usage.
  */
-function extractFinalText(
-  output: OpenAI.Responses.ResponseOutputItem[]
-): string {
-  const textItems = output.filter(
-    (item): item is OpenAI.Responses.ResponseOutputMessage =>
-      item.type === "message" && item.role === "assistant"
-  );
-
-  return textItems
-    .flatMap((msg) =>
-      msg.content
-        .filter(
-          (c): c is OpenAI.Responses.ResponseOutputText =>
-            c.type === "output_text"
-        )
-        .map((c) => c.text)
-    )
-    .join("\n");
+export function combineTurnResponses(turns: TraceTurn[]): LlmResponse {
+  const last = turns[turns.length - 1]?.llm_response;
+  const sumDetail = (key: "cached_input_tokens" | "reasoning_tokens") =>
+    turns.some((turn) => turn.llm_response.usage[key] !== undefined)
+      ? { [key]: turns.reduce((sum, turn) => sum + (turn.llm_response.usage[key] ?? 0), 0) }
+      : {};
+  return {
+    response_id: last?.response_id ?? "",
+    tool_calls: turns.flatMap((turn) => turn.llm_response.tool_calls),
+    final_text: last?.final_text ?? "",
+    raw_output: turns.flatMap((turn) => turn.llm_response.raw_output),
+    usage: {
+      input_tokens: turns.reduce((sum, turn) => sum + turn.llm_response.usage.input_tokens, 0),
+      output_tokens: turns.reduce((sum, turn) => sum + turn.llm_response.usage.output_tokens, 0),
+      total_tokens: turns.reduce((sum, turn) => sum + turn.llm_response.usage.total_tokens, 0),
+      ...sumDetail("cached_input_tokens"),
+      ...sumDetail("reasoning_tokens"),
+    },
+    ...(turns.some((turn) => turn.llm_response.tool_rounds_exhausted) ? { tool_rounds_exhausted: true } : {}),
+  };
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Resolve Cloudflare query config for enrichment, or null when disabled.
+ * Replays follow whatever the recording saw, regardless of local env.
+ */
+export function resolveCloudflareConfig(cassette?: Cassette): CloudflareConfig | null {
+  if (cassette?.mode === "replay") {
+    return cassette.cloudflareEnabled
+      ? { accountId: "replay", apiToken: "replay", fetch: cassette.fetch }
+      : null;
+  }
+  if (!isCloudflareConfigured()) {
+    return null;
+  }
+  return { ...getCloudflareConfig(), fetch: cassette?.fetch };
 }
 
 /**
- * Run a single scenario against OpenAI with Flaim MCP tools.
+ * Run a single scenario against the configured model provider with Flaim MCP tools.
  */
 export async function runScenario(
   scenario: Scenario,
   config: RunnerConfig
 ): Promise<TraceArtifact> {
   const model = config.model || DEFAULT_MODEL;
-  const openai = new OpenAI();
-
-  // Build input messages
-  const input: OpenAI.Responses.ResponseInput = [];
+  const provider = createProvider(config.provider ?? "openai", {
+    fetch: config.cassette?.fetch,
+    replay: config.cassette?.mode === "replay",
+  });
 
-  // Optionally prepend instructions from a skill file
+  // Optionally load developer instructions from a skill file
   const instructions = loadInstructions(scenario);
-  if (instructions) {
-    input.push({ role: "developer", content: instructions });
-  }
-
-  input.push({ role: "user", content: scenario.prompt });
 
   const scenarioStart = new Date();
   const startTime = Date.now();
 
-  const response = await openai.responses.create({
-    model,
-    input,
-    tools: [
-      {
-        type: "mcp",
-        server_url: config.mcpUrl,
-        server_label: "flaim",
+  // Multi-turn scenarios chain each user turn onto the previous responses.
+  const scenarioTurns = getScenarioTurns(scenario);
+  const traceTurns: TraceTurn[] = [];
+  for (const [index, turn] of scenarioTurns.entries()) {
+    const turnStart = Date.now();
+    const llmResponse = await provider.respond({
+      model,
+      instructions,
+      prompt: turn.prompt,
+      history: traceTurns.map((t) => ({ prompt: t.prompt, response: t.llm_response })),
+      ...(config.reasoningEffort ? { reasoningEffort: config.reasoningEffort } : {}),
+      mcp: {
+        url: config.mcpUrl,
+        label: "flaim",
+        accessToken: config.accessToken,
         headers: buildMcpHeaders(config.accessToken, config.runId, config.traceId),
-        require_approval: "never",
       },
-    ],
-    store: true,
-    parallel_tool_calls: false,
-  });
+    });
+    traceTurns.push({
+      index,
+      prompt: turn.prompt,
+      expected_tools: turn.expected_tools,
+      llm_response: llmResponse,
+      duration_ms: Date.now() - turnStart,
+    });
+  }
 
   const durationMs = Date.now() - startTime;
 
-  // Extract structured data from response
-  const toolCalls = extractToolCalls(response.output);
-  const finalText = extractFinalText(response.output);
-
   const artifact: TraceArtifact = {
-    schema_version: "1.1",
+    schema_version: "1.2",
     run_id: config.runId,
     trace_id: config.traceId,
     scenario_id: scenario.id,
     timestamp_utc: new Date().toISOString(),
     model,
+    provider: provider.name,
+    ...(config.reasoningEffort ? { reasoning_effort: config.reasoningEffort } : {}),
     prompt: scenario.prompt,
     instructions_file: scenario.instructions || null,
     expected_tools: scenario.expected_tools,
-    llm_response: {
-      response_id: response.id,
-      tool_calls: toolCalls,
-      final_text: finalText,
-      raw_output: response.output as unknown[],
-      usage: {
-        input_tokens: response.usage?.input_tokens ?? 0,
-        output_tokens: response.usage?.output_tokens ?? 0,
-        total_tokens: response.usage?.total_tokens ?? 0,
-      },
-    },
+    llm_response: combineTurnResponses(traceTurns),
+    ...(traceTurns.length > 1 ? { turns: traceTurns } : {}),
     duration_ms: durationMs,
     notes: [],
   };
 
+  if (!provider.forwardsTraceHeaders) {
+    artifact.notes.push(
+      `Provider ${provider.name} cannot forward X-Flaim-Eval-* headers; server logs will not be trace-tagged.`
+    );
+  }
+  if (config.reasoningEffort && !provider.supportsReasoningEffort) {
+    artifact.notes.push(`Provider ${provider.name} has no reasoning-effort setting; ${config.reasoningEffort} was ignored.`);
+  }
+  if (artifact.llm_response.tool_rounds_exhausted) {
+    artifact.notes.push(
+      `Provider ${provider.name} stopped at its tool-round limit while the model was still calling tools; the final answer is empty.`
+    );
+  }
+
   // Optionally enrich with Cloudflare worker logs
-  if (isCloudflareConfigured()) {
+  const cloudflareConfig = config.enrichment === "deferred" ? null : resolveCloudflareConfig(config.cassette);
+  const retryDelayMs = config.cassette?.mode === "replay" ? 0 : LOG_ENRICHMENT_RETRY_DELAY_MS;
+  if (cloudflareConfig) {
     const scenarioEnd = new Date();
     let lastError: Error | null = null;
     let enrichmentAttempts = 0;
@@ -180,7 +209,8 @@ export async function runScenario(
           scenarioStart,
           scenarioEnd,
           config.runId,
-          config.traceId
+          config.traceId,
+          cloudflareConfig
         );
         mergedLogs = mergeServerLogs(mergedLogs, fetchedLogs);
         actualWorkers = Object.keys(mergedLogs).sort();
@@ -191,7 +221,7 @@ export async function runScenario(
       }
 
       if (attempt < LOG_ENRICHMENT_ATTEMPTS) {
-        await sleep(LOG_ENRICHMENT_RETRY_DELAY_MS);
+        await sleep(retryDelayMs);
       }
     }
 
@@ -0,0 +1,153 @@
+/**
+ * Scenario templates: one file that expands into a scenario per combination
+ * of matrix values.
+ *
+ * A template file holds `template` (a scenario without `id`), `matrix` (axis
+ * name → list of values) and an optional `exclude` list. Every combination of
+ * axis values, in axis order, becomes one scenario whose id is the file name
+ * followed by each value's id: `sleeper_public.json` with values `nfl` and
+ * `standings` yields `sleeper_public_nfl_standings`. Axis values are scalars
+ * or objects with an `id` field.
+ *
+ * Strings in the template may reference `{{axis}}` or `{{axis.field}}`. A
+ * string that is exactly one placeholder is replaced by the raw value (so
+ * objects, arrays and numbers survive); placeholders inside longer strings
+ * must resolve to scalars. An object key `$merge` whose value resolves to an
+ * object merges that object's keys in (explicit keys win), which lets an axis
+ * add optional arguments.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { validateSchema, type JsonSchema } from "./json-schema.js";
+
+export interface ScenarioTemplateFile {
+  template: Record<string, unknown>;
+  matrix: Record<string, unknown[]>;
+  exclude?: Array<Record<string, string | number | boolean>>;
+}
+
+export interface ExpandedScenario {
+  id: string;
+  value: Record<string, unknown>;
+}
+
+const TEMPLATE_SCHEMA_PATH = path.resolve(import.meta.dirname, "../schemas/scenario-template.schema.json");
+
+let cachedSchema: JsonSchema | null = null;
+
+function loadTemplateSchema(): JsonSchema {
+  cachedSchema ??= JSON.parse(fs.readFileSync(TEMPLATE_SCHEMA_PATH, "utf-8")) as JsonSchema;
+  return cachedSchema;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z0-9_.]+)\s*\}\}$/;
+
+export function isScenarioTemplate(value: unknown): boolean {
+  return typeof value === "object" && value !== null && "matrix" in value && "template" in value;
+}
+
+function valueId(value: unknown): string {
+  if (typeof value === "object" && value !== null) {
+    return String((value as { id: unknown }).id);
+  }
+  return String(value);
+}
+
+function lookup(variables: Record<string, unknown>, name: string): unknown {
+  let current: unknown = variables;
+  for (const part of name.split(".")) {
+    if (typeof current !== "object" || current === null || !(part in current)) {
+      throw new Error(`unknown template variable {{${name}}}`);
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function substitute(node: unknown, variables: Record<string, unknown>): unknown {
+  if (typeof node === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(node);
+    if (whole) {
+      return structuredClone(lookup(variables, whole[1]));
+    }
+    return node.replace(PLACEHOLDER, (_match, name: string) => {
+      const value = lookup(variables, name);
+      if (typeof value === "object" && value !== null) {
+        throw new Error(`{{${name}}} is not a scalar and cannot be embedded in a string`);
+      }
+      return String(value);
+    });
+  }
+  if (Array.isArray(node)) {
+    return node.map((item) => substitute(item, variables));
+  }
+  if (typeof node === "object" && node !== null) {
+    const result: Record<string, unknown> = {};
+    const entries = Object.entries(node as Record<string, unknown>);
+    const merge = entries.find(([key]) => key === "$merge");
+    if (merge) {
+      const merged = substitute(merge[1], variables);
+      if (typeof merged !== "object" || merged === null || Array.isArray(merged)) {
+        throw new Error("$merge must resolve to an object");
+      }
+      Object.assign(result, merged);
+    }
+    for (const [key, child] of entries) {
+      if (key !== "$merge") {
+        result[key] = substitute(child, variables);
+      }
+    }
+    return result;
+  }
+  return node;
+}
+
+function combinations(matrix: Record<string, unknown[]>): Array<Record<string, unknown>> {
+  let combos: Array<Record<string, unknown>> = [{}];
+  for (const [axis, values] of Object.entries(matrix)) {
+    combos = combos.flatMap((combo) => values.map((value) => ({ ...combo, [axis]: value })));
+  }
+  return combos;
+}
+
+function isExcluded(combo: Record<string, unknown>, exclude: ScenarioTemplateFile["exclude"]): boolean {
+  return (exclude ?? []).some((rule) =>
+    Object.entries(rule).every(([axis, id]) => axis in combo && valueId(combo[axis]) === String(id))
+  );
+}
+
+/**
+ * Expand a template file into concrete scenario values. Throws with a message
+ * naming the problem; callers attach the file name.
+ */
+export function expandScenarioTemplate(file: string, value: unknown): ExpandedScenario[] {
+  const schemaErrors = validateSchema(value, loadTemplateSchema());
+  if (schemaErrors.length > 0) {
+    throw new Error(schemaErrors.map((error) => `${error.path || "(root)"} ${error.message}`).join("; "));
+  }
+
+  const templateFile = value as ScenarioTemplateFile;
+  if ("id" in templateFile.template) {
+    throw new Error("template must not set id; ids are generated from the file name and matrix values");
+  }
+  for (const [index, rule] of (templateFile.exclude ?? []).entries()) {
+    const unknownAxes = Object.keys(rule).filter((name) => !(name in templateFile.matrix));
+    if (unknownAxes.length > 0) {
+      throw new Error(`exclude/${index} names unknown matrix axes: ${unknownAxes.join(", ")}`);
+    }
+  }
+
+  const prefix = path.basename(file, ".json");
+  return combinations(templateFile.matrix)
+    .filter((combo) => !isExcluded(combo, templateFile.exclude))
+    .map((combo) => {
+      const id = [prefix, ...Object.values(combo).map(valueId)].join("_");
+      try {
+        return { id, value: { id, ...(substitute(templateFile.template, combo) as Record<string, unknown>) } };
+      } catch (err) {
+        throw new Error(`${id}: ${(err as Error).message}`);
+      }
+    });
+}
@@ -0,0 +1,233 @@
+/**
+ * Static checks for scenario files and the instruction/rubric files they
+ * reference. Used on load by `loadScenarios` and by `npm run lint`; never
+ * calls an API.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { lintSchema, validateSchema, type JsonSchema } from "./json-schema.js";
+import { expandScenarioTemplate, isScenarioTemplate } from "./scenario-templates.js";
+
+const REPO_ROOT = path.resolve(import.meta.dirname, "..");
+const SCENARIO_SCHEMA_PATH = path.join(REPO_ROOT, "schemas/scenario.schema.json");
+
+export interface ScenarioIssue {
+  /** Repo-relative file the issue is in. */
+  file: string;
+  /** JSON pointer inside the file ("" for the file as a whole). */
+  path: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ScenarioFile {
+  file: string;
+  value: unknown;
+  /** Set when the scenario was expanded from a template file. */
+  generated?: boolean;
+}
+
+export interface ValidationDirs {
+  rootDir?: string;
+  scenariosDir?: string;
+}
+
+let cachedSchema: JsonSchema | null = null;
+
+export function loadScenarioSchema(): JsonSchema {
+  cachedSchema ??= JSON.parse(fs.readFileSync(SCENARIO_SCHEMA_PATH, "utf-8")) as JsonSchema;
+  return cachedSchema;
+}
+
+export function formatIssue(issue: ScenarioIssue): string {
+  const location = issue.path ? `${issue.file}#${issue.path}` : issue.file;
+  return `${issue.severity === "warning" ? "warning" : "error"}: ${location}: ${issue.message}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkRegex(source: unknown, flags: string): string | null {
+  if (typeof source !== "string") return null;
+  try {
+    new RegExp(source, flags);
+    return null;
+  } catch (err) {
+    return `invalid regex: ${(err as Error).message}`;
+  }
+}
+
+/**
+ * Schema and reference checks for one parsed scenario. `file` is only used
+ * in issue locations.
+ */
+export function validateScenarioValue(file: string, value: unknown, dirs: ValidationDirs = {}): ScenarioIssue[] {
+  const rootDir = dirs.rootDir ?? REPO_ROOT;
+  const issues: ScenarioIssue[] = [];
+  const error = (at: string, message: string) => issues.push({ file, path: at, severity: "error", message });
+
+  for (const schemaError of validateSchema(value, loadScenarioSchema())) {
+    // The root anyOf only fails when neither scenario shape is present.
+    const message =
+      schemaError.path === "" && schemaError.message === "does not match any allowed shape"
+        ? "needs either prompt and expected_tools, or turns"
+        : schemaError.message;
+    error(schemaError.path, message);
+  }
+  if (!isRecord(value)) {
+    return issues;
+  }
+
+  if (typeof value.instructions === "string") {
+    const instructionsPath = path.resolve(rootDir, value.instructions);
+    if (!fs.existsSync(instructionsPath)) {
+      error("/instructions", `file not found: ${value.instructions}`);
+    }
+  }
+
+  if (typeof value.rubric === "string" && !fs.existsSync(path.join(rootDir, "rubrics", `${value.rubric}.json`))) {
+    error("/rubric", `rubric not found: rubrics/${value.rubric}.json`);
+  }
+
+  // Turns carry their own answer_checks / expected_calls; lint them the same way.
+  const turns = Array.isArray(value.turns) ? value.turns.filter(isRecord) : [];
+  const checkSets: Array<{ at: string; owner: Record<string, unknown> }> = [
+    { at: "", owner: value },
+    ...turns.map((turn, index) => ({ at: `/turns/${index}`, owner: turn })),
+  ];
+
+  for (const { at: base, owner } of checkSets) {
+    const answerChecks = isRecord(owner.answer_checks) ? owner.answer_checks : {};
+    (Array.isArray(answerChecks.regex) ? answerChecks.regex : []).forEach((source, index) => {
+      const problem = checkRegex(source, "i");
+      if (problem) error(`${base}/answer_checks/regex/${index}`, problem);
+    });
+
+    (Array.isArray(owner.expected_calls) ? owner.expected_calls : []).forEach((call, callIndex) => {
+      const args = isRecord(call) && isRecord(call.args) ? call.args : {};
+      for (const [arg, matcher] of Object.entries(args)) {
+        const at = `${base}/expected_calls/${callIndex}/args/${arg}`;
+        const problem = isRecord(matcher) ? checkRegex(matcher.pattern, "") : null;
+        if (problem) error(`${at}/pattern`, problem);
+        if (isRecord(matcher) && isRecord(matcher.schema)) {
+          for (const schemaError of lintSchema(matcher.schema)) {
+            error(`${at}/schema${schemaError.path}`, schemaError.message);
+          }
+        }
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parse every scenarios/*.json file, expanding template files. Unparseable
+ * files and broken templates are reported as issues and left out.
+ */
+export function readScenarioFiles(dirs: ValidationDirs = {}): { files: ScenarioFile[]; issues: ScenarioIssue[] } {
+  const rootDir = dirs.rootDir ?? REPO_ROOT;
+  const scenariosDir = dirs.scenariosDir ?? path.join(rootDir, "scenarios");
+  const files: ScenarioFile[] = [];
+  const issues: ScenarioIssue[] = [];
+
+  for (const name of fs.readdirSync(scenariosDir).filter((f) => f.endsWith(".json")).sort()) {
+    const file = path.relative(rootDir, path.join(scenariosDir, name));
+    let value: unknown;
+    try {
+      value = JSON.parse(fs.readFileSync(path.join(scenariosDir, name), "utf-8"));
+    } catch (err) {
+      issues.push({ file, path: "", severity: "error", message: `invalid JSON: ${(err as Error).message}` });
+      continue;
+    }
+    if (!isScenarioTemplate(value)) {
+      files.push({ file, value });
+      continue;
+    }
+    try {
+      for (const expanded of expandScenarioTemplate(file, value)) {
+        files.push({ file, value: expanded.value, generated: true });
+      }
+    } catch (err) {
+      issues.push({ file, path: "", severity: "error", message: `invalid template: ${(err as Error).message}` });
+    }
+  }
+  return { files, issues };
+}
+
+/**
+ * Validate parsed scenario files individually and as a set: ids must match
+ * file names (templates generate theirs) and be unique. Issues in generated
+ * scenarios point into the template and name the generated id.
+ */
+export function validateScenarioFiles(files: ScenarioFile[], dirs: ValidationDirs = {}): ScenarioIssue[] {
+  const issues = files.flatMap(({ file, value, generated }) => {
+    const fileIssues = validateScenarioValue(file, value, dirs);
+    if (!generated) {
+      const expectedId = path.basename(file, ".json");
+      if (isRecord(value) && typeof value.id === "string" && value.id !== expectedId) {
+        fileIssues.push({
+          file,
+          path: "/id",
+          severity: "error",
+          message: `"${value.id}" does not match the file name (expected "${expectedId}")`,
+        });
+      }
+      return fileIssues;
+    }
+    const id = isRecord(value) ? String(value.id) : "";
+    return fileIssues.map((issue) => ({ ...issue, path: `/template${issue.path}`, message: `${id}: ${issue.message}` }));
+  });
+
+  const filesById = new Map<string, string[]>();
+  for (const { file, value } of files) {
+    if (isRecord(value) && typeof value.id === "string") {
+      filesById.set(value.id, [...(filesById.get(value.id) ?? []), file]);
+    }
+  }
+  for (const [id, idFiles] of filesById) {
+    if (idFiles.length > 1) {
+      for (const file of idFiles) {
+        issues.push({
+          file,
+          path: "/id",
+          severity: "error",
+          message: `duplicate id "${id}" (also in ${idFiles.filter((other) => other !== file).join(", ")})`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Instruction files must be non-empty; files no scenario references are
+ * reported as warnings.
+ */
+export function lintInstructionFiles(files: ScenarioFile[], dirs: ValidationDirs = {}): ScenarioIssue[] {
+  const rootDir = dirs.rootDir ?? REPO_ROOT;
+  const instructionsDir = path.join(rootDir, "instructions");
+  if (!fs.existsSync(instructionsDir)) return [];
+
+  const referenced = new Set(
+    files.flatMap(({ value }) =>
+      isRecord(value) && typeof value.instructions === "string" ? [path.resolve(rootDir, value.instructions)] : []
+    )
+  );
+
+  const issues: ScenarioIssue[] = [];
+  for (const name of fs.readdirSync(instructionsDir).filter((f) => f.endsWith(".md")).sort()) {
+    const fullPath = path.join(instructionsDir, name);
+    const file = path.relative(rootDir, fullPath);
+    if (fs.readFileSync(fullPath, "utf-8").trim().length === 0) {
+      issues.push({ file, path: "", severity: "error", message: "instruction file is empty" });
+    }
+    if (!referenced.has(fullPath)) {
+      issues.push({ file, path: "", severity: "warning", message: "not referenced by any scenario" });
+    }
+  }
+  return issues;
+}
@@ -1,21 +1,21 @@
+import crypto from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import type { Scenario } from "./types.js";
-
-const SCENARIOS_DIR = path.resolve(import.meta.dirname, "../scenarios");
+import { formatIssue, readScenarioFiles, validateScenarioFiles } from "./scenario-validation.js";
+import type { Scenario, ScenarioTurn } from "./types.js";
 
 /**
- * Load all scenario JSON files from scenarios/
+ * Load all scenario JSON files from scenarios/, validating every file first.
+ * Throws one error listing each problem (file + JSON pointer) if any are invalid.
  */
 export function loadScenarios(filter?: string[]): Scenario[] {
-  const files = fs
-    .readdirSync(SCENARIOS_DIR)
-    .filter((f) => f.endsWith(".json"));
+  const { files, issues } = readScenarioFiles();
+  const errors = [...issues, ...validateScenarioFiles(files)].filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(`Invalid scenario files:\n${errors.map((issue) => `  ${formatIssue(issue)}`).join("\n")}`);
+  }
 
-  const scenarios: Scenario[] = files.map((f) => {
-    const raw = fs.readFileSync(path.join(SCENARIOS_DIR, f), "utf-8");
-    return JSON.parse(raw) as Scenario;
-  });
+  const scenarios = files.map(({ value }) => normalizeScenario(value as Scenario));
 
   if (filter && filter.length > 0) {
     return scenarios.filter((s) => filter.includes(s.id));
@@ -24,6 +24,31 @@ export function loadScenarios(filter?: string[]): Scenario[] {
   return scenarios;
 }
 
+/**
+ * Fill single-turn fields from `turns` so multi-turn scenarios can be handled
+ * anywhere a plain scenario is expected.
+ */
+export function normalizeScenario(scenario: Scenario): Scenario {
+  if (!scenario.turns || scenario.turns.length === 0) {
+    return scenario;
+  }
+  return {
+    ...scenario,
+    prompt: scenario.turns[0].prompt,
+    expected_tools: scenario.turns.flatMap((turn) => turn.expected_tools),
+  };
+}
+
+/**
+ * Return the user turns of a scenario (a single turn for plain scenarios).
+ */
+export function getScenarioTurns(scenario: Scenario): ScenarioTurn[] {
+  if (scenario.turns && scenario.turns.length > 0) {
+    return scenario.turns;
+  }
+  return [{ prompt: scenario.prompt, expected_tools: scenario.expected_tools }];
+}
+
 /**
  * Load instruction file contents if specified by scenario.
  * Returns null if no instructions.
@@ -39,3 +64,13 @@ export function loadInstructions(scenario: Scenario): string | null {
 
   return fs.readFileSync(instrPath, "utf-8");
 }
+
+/**
+ * sha256 of an instructions file (repo-relative path), or null if it is missing.
+ * Recorded in the manifest so runs can tell which revision of a file they used.
+ */
+export function hashInstructionsFile(file: string): string | null {
+  const instrPath = path.resolve(import.meta.dirname, "..", file);
+  if (!fs.existsSync(instrPath)) return null;
+  return crypto.createHash("sha256").update(fs.readFileSync(instrPath)).digest("hex");
+}
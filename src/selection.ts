@@ -0,0 +1,181 @@
+/**
+ * Scenario selection for `npm run eval`: id globs, tag expressions and
+ * re-running the failures of an earlier run.
+ *
+ * Tag expressions combine tags with `and`, `or`, `not` and parentheses,
+ * e.g. `happy-path and (sleeper or espn) and not multi-turn`. `and` binds
+ * tighter than `or`.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { isPassed } from "./summary.js";
+import type { RunSummary, Scenario } from "./types.js";
+
+export type TagExpression =
+  | { kind: "tag"; tag: string }
+  | { kind: "not"; operand: TagExpression }
+  | { kind: "and" | "or"; left: TagExpression; right: TagExpression };
+
+export interface ScenarioSelection {
+  /** Exact ids or globs (`*`, `?`); empty selects everything. */
+  ids: string[];
+  tags: string | null;
+  excludeTags: string | null;
+  /** Restrict to these ids (e.g. failures from `--rerun-failed`). */
+  only?: string[] | null;
+}
+
+const TOKEN = /\s*(\(|\)|[A-Za-z0-9_:.-]+)/y;
+const KEYWORDS = new Set(["and", "or", "not"]);
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN.lastIndex))) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      throw new Error(`Invalid tag expression "${source}": unexpected "${source.slice(start).trim()[0]}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+export function parseTagExpression(source: string): TagExpression {
+  const tokens = tokenize(source);
+  let position = 0;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid tag expression "${source}": ${message}`);
+  };
+
+  const parseOr = (): TagExpression => {
+    let left = parseAnd();
+    while (tokens[position]?.toLowerCase() === "or") {
+      position += 1;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): TagExpression => {
+    let left = parseNot();
+    while (tokens[position]?.toLowerCase() === "and") {
+      position += 1;
+      left = { kind: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): TagExpression => {
+    if (tokens[position]?.toLowerCase() === "not") {
+      position += 1;
+      return { kind: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): TagExpression => {
+    const token = tokens[position];
+    if (token === undefined) return fail("expected a tag");
+    if (token === "(") {
+      position += 1;
+      const inner = parseOr();
+      if (tokens[position] !== ")") fail('missing ")"');
+      position += 1;
+      return inner;
+    }
+    if (token === ")" || KEYWORDS.has(token.toLowerCase())) {
+      return fail(`expected a tag, got "${token}"`);
+    }
+    position += 1;
+    return { kind: "tag", tag: token };
+  };
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+  return expression;
+}
+
+export function matchesTagExpression(expression: TagExpression, tags: string[]): boolean {
+  switch (expression.kind) {
+    case "tag":
+      return tags.includes(expression.tag);
+    case "not":
+      return !matchesTagExpression(expression.operand, tags);
+    case "and":
+      return matchesTagExpression(expression.left, tags) && matchesTagExpression(expression.right, tags);
+    case "or":
+      return matchesTagExpression(expression.left, tags) || matchesTagExpression(expression.right, tags);
+  }
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[\\^$.+()[\]{}|]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Apply id patterns, tag filters and `only` in that order, keeping the
+ * scenarios' load order. Throws when an id or glob matches no scenario, so
+ * typos don't silently shrink a run.
+ */
+export function selectScenarios(scenarios: Scenario[], selection: ScenarioSelection): Scenario[] {
+  const include = selection.tags ? parseTagExpression(selection.tags) : null;
+  const exclude = selection.excludeTags ? parseTagExpression(selection.excludeTags) : null;
+
+  const matchers = selection.ids.map((pattern) => ({
+    pattern,
+    test: isGlob(pattern) ? (id: string) => globToRegExp(pattern).test(id) : (id: string) => id === pattern,
+  }));
+  const unmatched = matchers.filter((matcher) => !scenarios.some((scenario) => matcher.test(scenario.id)));
+  if (unmatched.length > 0) {
+    throw new Error(`No scenario matches: ${unmatched.map((matcher) => matcher.pattern).join(", ")}`);
+  }
+
+  const only = selection.only ? new Set(selection.only) : null;
+  return scenarios.filter(
+    (scenario) =>
+      (matchers.length === 0 || matchers.some((matcher) => matcher.test(scenario.id))) &&
+      (!include || matchesTagExpression(include, scenario.tags)) &&
+      (!exclude || !matchesTagExpression(exclude, scenario.tags)) &&
+      (!only || only.has(scenario.id))
+  );
+}
+
+/**
+ * Scenario ids that failed or errored in an earlier run: any summary row that
+ * did not pass, plus traces named in acceptance fail reasons.
+ */
+export function loadFailedScenarioIds(runDir: string): string[] {
+  const summaryPath = path.join(runDir, "summary.json");
+  if (!fs.existsSync(summaryPath)) {
+    throw new Error(`summary.json not found for run: ${path.basename(runDir)}`);
+  }
+  const summary = JSON.parse(fs.readFileSync(summaryPath, "utf8")) as RunSummary;
+  const failed = new Set(summary.scenarios.filter((row) => row.status === "error" || !isPassed(row)).map((row) => row.id));
+
+  const acceptancePath = path.join(runDir, "acceptance-summary.json");
+  if (fs.existsSync(acceptancePath)) {
+    const acceptance = JSON.parse(fs.readFileSync(acceptancePath, "utf8")) as {
+      fail_reasons?: Array<{ trace_ids?: string[] }>;
+    };
+    const scenarioByTrace = new Map(summary.scenarios.map((row) => [row.trace_id, row.id]));
+    for (const reason of acceptance.fail_reasons ?? []) {
+      for (const traceId of reason.trace_ids ?? []) {
+        const scenarioId = scenarioByTrace.get(traceId);
+        if (scenarioId) failed.add(scenarioId);
+      }
+    }
+  }
+
+  return summary.scenarios.map((row) => row.id).filter((id, index, ids) => failed.has(id) && ids.indexOf(id) === index);
+}
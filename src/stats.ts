@@ -0,0 +1,141 @@
+/**
+ * Aggregate statistics for repeated trials of the same scenario.
+ */
+
+import { isPassed } from "./summary.js";
+import type { Distribution, ScenarioResult, ScenarioTrialStats } from "./types.js";
+
+/**
+ * Unbiased pass@k estimator: probability that at least one of k samples drawn
+ * without replacement from n trials (c of which passed) passes.
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (k > n) {
+    throw new Error(`pass@${k} needs at least ${k} trials (got ${n})`);
+  }
+  if (n - c < k) return 1;
+  let missAll = 1;
+  for (let i = n - c + 1; i <= n; i += 1) {
+    missAll *= 1 - k / i;
+  }
+  return 1 - missAll;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+}
+
+/**
+ * Nearest-rank distribution summary. Empty input yields all zeros.
+ */
+export function summarizeDistribution(values: number[]): Distribution {
+  if (values.length === 0) {
+    return { min: 0, p50: 0, p90: 0, max: 0, mean: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  return {
+    min: sorted[0],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    max: sorted[sorted.length - 1],
+    mean: Math.round(mean * 100) / 100,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Roll per-trial summary rows up into one stats entry per scenario, in the
+ * order scenarios first appear. Errored trials count as failures; a scenario
+ * is flaky when its trials disagree on pass/fail.
+ */
+export function aggregateTrials(results: ScenarioResult[]): ScenarioTrialStats[] {
+  const byScenario = new Map<string, ScenarioResult[]>();
+  for (const result of results) {
+    const rows = byScenario.get(result.id) || [];
+    rows.push(result);
+    byScenario.set(result.id, rows);
+  }
+
+  return [...byScenario.entries()].map(([id, rows]) => {
+    const passed = rows.filter(isPassed).length;
+    const completed = rows.filter((row) => row.status === "ok");
+
+    const sequenceCounts = new Map<string, { sequence: string[]; count: number }>();
+    for (const row of completed) {
+      const key = JSON.stringify(row.tool_calls);
+      const entry = sequenceCounts.get(key) || { sequence: row.tool_calls, count: 0 };
+      entry.count += 1;
+      sequenceCounts.set(key, entry);
+    }
+
+    const passAt: Record<string, number> = {};
+    for (let k = 1; k <= rows.length; k += 1) {
+      passAt[String(k)] = round(passAtK(rows.length, passed, k));
+    }
+
+    return {
+      id,
+      trials: rows.length,
+      passed,
+      errored: rows.length - completed.length,
+      pass_rate: round(passed / rows.length),
+      pass_at_k: passAt,
+      flaky: passed > 0 && passed < rows.length,
+      tool_sequences: [...sequenceCounts.values()].sort((a, b) => b.count - a.count),
+      duration_ms: summarizeDistribution(completed.map((row) => row.duration_ms)),
+      total_tokens: summarizeDistribution(completed.map((row) => row.total_tokens ?? 0)),
+    };
+  });
+}
+
+/**
+ * Wilson score interval for a pass rate; better behaved than the normal
+ * approximation at small n and at 0% or 100%. Defaults to 95%.
+ */
+export function wilsonInterval(passed: number, n: number, z = 1.96): { low: number; high: number } {
+  if (n === 0) return { low: 0, high: 1 };
+  const p = passed / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return { low: round(Math.max(0, center - margin)), high: round(Math.min(1, center + margin)) };
+}
+
+/**
+ * Standard normal CDF via the Abramowitz–Stegun erf approximation (error < 1.5e-7).
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided pooled two-proportion z-test of B's pass rate against A's. The
+ * normal approximation is rough below ~10 passes and failures per arm, so
+ * treat p-values from a handful of trials as a hint, not a verdict.
+ */
+export function twoProportionTest(
+  passedA: number,
+  nA: number,
+  passedB: number,
+  nB: number
+): { difference: number; z: number; p_value: number } {
+  if (nA === 0 || nB === 0) {
+    return { difference: 0, z: 0, p_value: 1 };
+  }
+  const difference = passedB / nB - passedA / nA;
+  const pooled = (passedA + passedB) / (nA + nB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (standardError === 0) {
+    return { difference: round(difference), z: 0, p_value: 1 };
+  }
+  const z = difference / standardError;
+  return { difference: round(difference), z: round(z), p_value: round(2 * (1 - normalCdf(Math.abs(z)))) };
+}
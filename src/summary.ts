@@ -0,0 +1,146 @@
+import { checkAnswer, hasAnswerChecks } from "./answer-checks.js";
+import { checkExpectedCalls } from "./arg-checks.js";
+import { checkGrounding } from "./grounding.js";
+import { checkToolLimits, checkToolSequence, DEFAULT_TOOL_MATCH_MODE } from "./tool-match.js";
+import type {
+  Scenario,
+  ScenarioResult,
+  ScenarioTurn,
+  ToolMatchMode,
+  TraceArtifact,
+  TurnResult,
+} from "./types.js";
+
+/**
+ * Score each turn of a multi-turn trace against that turn's expected tools,
+ * plus any `expected_calls` / `answer_checks` the scenario declares on it.
+ */
+export function summarizeTurns(
+  artifact: TraceArtifact,
+  mode: ToolMatchMode = DEFAULT_TOOL_MATCH_MODE,
+  scenarioTurns: ScenarioTurn[] = []
+): TurnResult[] {
+  return (artifact.turns ?? []).map((turn) => {
+    const toolNames = turn.llm_response.tool_calls.map((tc) => tc.tool_name);
+    const declared = scenarioTurns[turn.index];
+    const argChecks = declared?.expected_calls
+      ? checkExpectedCalls(declared.expected_calls, turn.llm_response.tool_calls).map((check) => ({
+          ...check,
+          turn: turn.index,
+        }))
+      : null;
+    const answerChecks = hasAnswerChecks(declared?.answer_checks)
+      ? checkAnswer(turn.llm_response.final_text, declared.answer_checks).map((check) => ({
+          ...check,
+          turn: turn.index,
+        }))
+      : null;
+    return {
+      index: turn.index,
+      tool_calls: toolNames,
+      expected_tools: turn.expected_tools,
+      tools_match: JSON.stringify(toolNames) === JSON.stringify(turn.expected_tools),
+      expected_tools_hit: checkToolSequence(toolNames, turn.expected_tools, mode) === null,
+      final_text: turn.llm_response.final_text,
+      ...(argChecks ? { args_match: argChecks.every((check) => check.passed), arg_checks: argChecks } : {}),
+      ...(answerChecks
+        ? { answer_passed: answerChecks.every((check) => check.passed), answer_checks: answerChecks }
+        : {}),
+    };
+  });
+}
+
+/**
+ * Build the summary.json row for a completed trace.
+ */
+export function summarizeTrace(scenario: Scenario, artifact: TraceArtifact): ScenarioResult {
+  const toolNames = artifact.llm_response.tool_calls.map((tc) => tc.tool_name);
+  const mode = scenario.tool_match?.mode ?? DEFAULT_TOOL_MATCH_MODE;
+  const turns = summarizeTurns(artifact, mode, scenario.turns);
+
+  // Multi-turn traces match each turn on its own; limits span the whole conversation.
+  const violations =
+    turns.length > 0
+      ? turns.flatMap((turn) => {
+          const violation = checkToolSequence(turn.tool_calls, turn.expected_tools, mode);
+          return violation ? [`turn ${turn.index + 1}: ${violation}`] : [];
+        })
+      : [checkToolSequence(toolNames, scenario.expected_tools, mode)].filter((v): v is string => v !== null);
+  violations.push(...checkToolLimits(toolNames, scenario.tool_match));
+
+  const routing = {
+    tools_match:
+      turns.length > 0
+        ? turns.every((turn) => turn.tools_match)
+        : JSON.stringify(toolNames) === JSON.stringify(scenario.expected_tools),
+    expected_tools_hit: violations.length === 0,
+    match_mode: mode,
+    ...(violations.length > 0 ? { routing_violations: violations } : {}),
+  };
+
+  // Per-turn checks are listed alongside the scenario-level ones (tagged with `turn`).
+  const turnArgChecks = turns.flatMap((turn) => turn.arg_checks ?? []);
+  const argChecks =
+    scenario.expected_calls || turnArgChecks.length > 0
+      ? [...checkExpectedCalls(scenario.expected_calls ?? [], artifact.llm_response.tool_calls), ...turnArgChecks]
+      : null;
+  const argsMatch = argChecks ? argChecks.every((check) => check.passed) : null;
+  const grounding = checkGrounding(scenario, artifact);
+  const turnAnswerChecks = turns.flatMap((turn) => turn.answer_checks ?? []);
+  const answerChecks =
+    hasAnswerChecks(scenario.answer_checks) || turnAnswerChecks.length > 0
+      ? [
+          ...(hasAnswerChecks(scenario.answer_checks)
+            ? checkAnswer(artifact.llm_response.final_text, scenario.answer_checks)
+            : []),
+          ...turnAnswerChecks,
+        ]
+      : null;
+
+  return {
+    id: scenario.id,
+    trace_id: artifact.trace_id,
+    status: "ok",
+    tool_calls: toolNames,
+    expected_tools: scenario.expected_tools,
+    ...routing,
+    duration_ms: artifact.duration_ms,
+    total_tokens: artifact.llm_response.usage.total_tokens,
+    ...(turns.length > 0 ? { turns } : {}),
+    ...(argChecks ? { args_match: argsMatch ?? true, arg_checks: argChecks } : {}),
+    ...(answerChecks
+      ? { answer_passed: answerChecks.every((check) => check.passed), answer_checks: answerChecks }
+      : {}),
+    ...(grounding ? { grounding_score: grounding.score, ungrounded_entities: grounding.ungrounded } : {}),
+    passed: routing.expected_tools_hit && argsMatch !== false,
+  };
+}
+
+/**
+ * Overall verdict for a summary row. Summaries written before `passed`
+ * existed fall back to expected-tools routing.
+ */
+export function isPassed(result: ScenarioResult): boolean {
+  return result.passed ?? result.expected_tools_hit;
+}
+
+/**
+ * Build the summary.json row for a scenario that threw before producing a trace.
+ */
+export function summarizeError(scenario: Scenario, traceId: string, message: string): ScenarioResult {
+  return {
+    id: scenario.id,
+    trace_id: traceId,
+    status: "error",
+    tool_calls: [],
+    expected_tools: scenario.expected_tools,
+    tools_match: false,
+    expected_tools_hit: false,
+    duration_ms: 0,
+    passed: false,
+    ...(hasAnswerChecks(scenario.answer_checks) || (scenario.turns ?? []).some((turn) => hasAnswerChecks(turn.answer_checks))
+      ? { answer_passed: false }
+      : {}),
+    error: message,
+  };
+}
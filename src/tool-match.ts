@@ -0,0 +1,68 @@
+/**
+ * Tool-routing checks for scenario `expected_tools` under a `tool_match` rule.
+ */
+
+import type { ToolMatchMode, ToolMatchRule } from "./types.js";
+
+export const TOOL_MATCH_MODES: ToolMatchMode[] = ["exact", "in_order", "unordered", "contains"];
+export const DEFAULT_TOOL_MATCH_MODE: ToolMatchMode = "contains";
+
+function countTools(tools: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const tool of tools) {
+    counts.set(tool, (counts.get(tool) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function isSubsequence(expected: string[], called: string[]): boolean {
+  let next = 0;
+  for (const tool of called) {
+    if (tool === expected[next]) next += 1;
+  }
+  return next === expected.length;
+}
+
+/**
+ * Compare called tool names to the expected list. Returns a violation message,
+ * or null when they match. An empty expected list always means "call nothing".
+ */
+export function checkToolSequence(called: string[], expected: string[], mode: ToolMatchMode): string | null {
+  const fmt = (tools: string[]) => tools.join(" → ");
+
+  if (expected.length === 0) {
+    return called.length === 0 ? null : `expected no tool calls, got ${fmt(called)}`;
+  }
+
+  switch (mode) {
+    case "exact":
+      return JSON.stringify(called) === JSON.stringify(expected) ? null : `expected exactly ${fmt(expected)}`;
+    case "in_order":
+      return isSubsequence(expected, called) ? null : `expected ${fmt(expected)} in order`;
+    case "unordered": {
+      const want = countTools(expected);
+      const got = countTools(called);
+      const same = want.size === got.size && [...want].every(([tool, count]) => got.get(tool) === count);
+      return same ? null : `expected exactly {${expected.join(", ")}} in any order`;
+    }
+    case "contains": {
+      const missing = expected.filter((tool) => !called.includes(tool));
+      return missing.length === 0 ? null : `missing ${missing.join(", ")}`;
+    }
+  }
+}
+
+/**
+ * Conversation-wide limits: forbidden tools and the total call budget.
+ */
+export function checkToolLimits(called: string[], rule: ToolMatchRule = {}): string[] {
+  const violations: string[] = [];
+  const forbidden = (rule.forbidden_tools ?? []).filter((tool) => called.includes(tool));
+  if (forbidden.length > 0) {
+    violations.push(`forbidden tool called: ${forbidden.join(", ")}`);
+  }
+  if (rule.max_calls !== undefined && called.length > rule.max_calls) {
+    violations.push(`${called.length} tool calls exceeds max_calls ${rule.max_calls}`);
+  }
+  return violations;
+}
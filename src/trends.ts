@@ -0,0 +1,342 @@
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { buildRunIndex, queryRuns, writeRunIndex, type IndexQuery, type IndexedRun, type IndexedTrace } from "./run-index.js";
+
+/**
+ * `npm run trends` — re-index runs/ and write runs/trends.md and
+ * runs/trends.html with per-model and per-scenario time series.
+ *
+ * Options: --model <model>, --scenario <id>, --last <n> (most recent runs).
+ */
+
+const RUNS_DIR = path.resolve(import.meta.dirname, "../runs");
+
+export interface TrendPoint {
+  run_id: string;
+  timestamp_utc: string;
+  model: string;
+  traces: number;
+  pass_rate: number;
+  mean_tokens: number;
+  mean_duration_ms: number;
+  /** Null when no trace in the run was enriched. */
+  mean_enrichment_attempts: number | null;
+  /** Traces with at least one missing worker. */
+  missing_worker_traces: number;
+  missing_workers: string[];
+  /**
+   * Scenario series: the most common tool sequence in this run. Model series:
+   * empty.
+   */
+  tool_sequence: string;
+  /**
+   * Scenario series: 1 when the tool sequence differs from the previous run's.
+   * Model series: number of scenarios whose sequence changed since the
+   * previous run of that model.
+   */
+  routing_changes: number;
+}
+
+export interface TrendReport {
+  generated_at: string;
+  query: IndexQuery;
+  models: Array<{ model: string; points: TrendPoint[] }>;
+  scenarios: Array<{ scenario_id: string; points: TrendPoint[] }>;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+function dominantSequence(traces: IndexedTrace[]): string {
+  const counts = new Map<string, number>();
+  for (const trace of traces) {
+    const sequence = trace.tool_calls.join(" → ") || "(none)";
+    counts.set(sequence, (counts.get(sequence) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0] ?? "(none)";
+}
+
+function summarizePoint(run: IndexedRun, traces: IndexedTrace[]): TrendPoint {
+  const attempts = traces.flatMap((trace) => (trace.enrichment_attempts === null ? [] : [trace.enrichment_attempts]));
+  return {
+    run_id: run.run_id,
+    timestamp_utc: run.timestamp_utc,
+    model: run.model,
+    traces: traces.length,
+    pass_rate: mean(traces.map((trace) => (trace.passed ? 1 : 0))),
+    mean_tokens: mean(traces.map((trace) => trace.total_tokens)),
+    mean_duration_ms: mean(traces.map((trace) => trace.duration_ms)),
+    mean_enrichment_attempts: attempts.length > 0 ? mean(attempts) : null,
+    missing_worker_traces: traces.filter((trace) => trace.missing_workers.length > 0).length,
+    missing_workers: [...new Set(traces.flatMap((trace) => trace.missing_workers))].sort(),
+    tool_sequence: dominantSequence(traces),
+    routing_changes: 0,
+  };
+}
+
+function groupByScenario(traces: IndexedTrace[]): Map<string, IndexedTrace[]> {
+  const groups = new Map<string, IndexedTrace[]>();
+  for (const trace of traces) {
+    groups.set(trace.scenario_id, [...(groups.get(trace.scenario_id) ?? []), trace]);
+  }
+  return groups;
+}
+
+/**
+ * Build both series from indexed runs (oldest first). A scenario's routing
+ * change is counted against the previous run of the same model, so switching
+ * models does not register as a change.
+ */
+export function buildTrends(runs: IndexedRun[], query: IndexQuery = {}): TrendReport {
+  const scenarioSeries = new Map<string, TrendPoint[]>();
+  const modelSeries = new Map<string, TrendPoint[]>();
+  const lastSequence = new Map<string, string>();
+
+  for (const run of runs) {
+    let routingChanges = 0;
+    for (const [scenarioId, traces] of groupByScenario(run.traces)) {
+      const point = summarizePoint(run, traces);
+      const key = `${run.model}\u0000${scenarioId}`;
+      const previous = lastSequence.get(key);
+      if (previous !== undefined && previous !== point.tool_sequence) {
+        point.routing_changes = 1;
+        routingChanges += 1;
+      }
+      lastSequence.set(key, point.tool_sequence);
+      scenarioSeries.set(scenarioId, [...(scenarioSeries.get(scenarioId) ?? []), point]);
+    }
+    const modelPoint = { ...summarizePoint(run, run.traces), tool_sequence: "", routing_changes: routingChanges };
+    modelSeries.set(run.model, [...(modelSeries.get(run.model) ?? []), modelPoint]);
+  }
+
+  return {
+    generated_at: new Date().toISOString(),
+    query,
+    models: [...modelSeries].sort((a, b) => a[0].localeCompare(b[0])).map(([model, points]) => ({ model, points })),
+    scenarios: [...scenarioSeries]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([scenario_id, points]) => ({ scenario_id, points })),
+  };
+}
+
+const SPARK = "▁▂▃▄▅▆▇█";
+
+export function sparkline(values: number[]): string {
+  return values.map((value) => SPARK[Math.min(SPARK.length - 1, Math.round(Math.max(0, Math.min(1, value)) * (SPARK.length - 1)))]).join("");
+}
+
+interface Section {
+  level: 2 | 3;
+  title: string;
+  note?: string;
+  headers?: string[];
+  rows?: string[][];
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function sections(report: TrendReport): Section[] {
+  const result: Section[] = [];
+  const pointRow = (point: TrendPoint, includeModel: boolean, includeSequence: boolean) => [
+    point.timestamp_utc,
+    point.run_id,
+    ...(includeModel ? [point.model] : []),
+    String(point.traces),
+    pct(point.pass_rate),
+    String(point.mean_tokens),
+    String(point.mean_duration_ms),
+    point.mean_enrichment_attempts === null ? "-" : String(point.mean_enrichment_attempts),
+    point.missing_workers.length > 0 ? `${point.missing_worker_traces} (${point.missing_workers.join(", ")})` : "0",
+    ...(includeSequence
+      ? [point.routing_changes > 0 ? `**changed:** ${point.tool_sequence}` : point.tool_sequence]
+      : [String(point.routing_changes)]),
+  ];
+  const baseHeaders = ["Time (UTC)", "Run", "Traces", "Pass rate", "Mean tokens", "Mean duration (ms)", "Enrich attempts", "Missing workers"];
+
+  result.push({ level: 2, title: "By model" });
+  for (const { model, points } of report.models) {
+    result.push({
+      level: 3,
+      title: model,
+      note: `Pass rate: ${sparkline(points.map((point) => point.pass_rate))}`,
+      headers: [...baseHeaders, "Routing changes"],
+      rows: points.map((point) => pointRow(point, false, false)),
+    });
+  }
+
+  result.push({ level: 2, title: "By scenario" });
+  for (const { scenario_id, points } of report.scenarios) {
+    const changes = points.filter((point) => point.routing_changes > 0).length;
+    result.push({
+      level: 3,
+      title: scenario_id,
+      note: `Pass rate: ${sparkline(points.map((point) => point.pass_rate))}${changes > 0 ? ` · routing changed in ${changes} run(s)` : ""}`,
+      headers: [...baseHeaders.slice(0, 2), "Model", ...baseHeaders.slice(2), "Tool sequence"],
+      rows: points.map((point) => pointRow(point, true, true)),
+    });
+  }
+  return result;
+}
+
+function filterLine(report: TrendReport): string {
+  const parts = [
+    report.query.model ? `model ${report.query.model}` : null,
+    report.query.scenarioId ? `scenario ${report.query.scenarioId}` : null,
+    report.query.last ? `last ${report.query.last} runs` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "all runs";
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ").trim();
+}
+
+export function buildTrendsMarkdown(report: TrendReport): string {
+  const lines: string[] = [];
+  lines.push("# Flaim Eval Trends");
+  lines.push("");
+  lines.push(`- Generated at: ${report.generated_at}`);
+  lines.push(`- Filter: ${filterLine(report)}`);
+  lines.push(`- Runs: ${new Set(report.models.flatMap((entry) => entry.points.map((point) => point.run_id))).size}`);
+  lines.push("");
+  for (const section of sections(report)) {
+    lines.push(`${"#".repeat(section.level)} ${section.title}`);
+    lines.push("");
+    if (section.note) {
+      lines.push(section.note);
+      lines.push("");
+    }
+    if (section.headers && section.rows) {
+      lines.push(`| ${section.headers.join(" | ")} |`);
+      lines.push(`| ${section.headers.map(() => "---").join(" | ")} |`);
+      for (const row of section.rows) {
+        lines.push(`| ${row.map(escapeCell).join(" | ")} |`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function buildTrendsHtml(report: TrendReport): string {
+  const body: string[] = [];
+  body.push("<h1>Flaim Eval Trends</h1>");
+  body.push(`<p>Generated at ${escapeHtml(report.generated_at)} · ${escapeHtml(filterLine(report))}</p>`);
+  for (const section of sections(report)) {
+    body.push(`<h${section.level}>${escapeHtml(section.title)}</h${section.level}>`);
+    if (section.note) body.push(`<p class="note">${escapeHtml(section.note)}</p>`);
+    if (section.headers && section.rows) {
+      body.push("<table>");
+      body.push(`<tr>${section.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr>`);
+      for (const row of section.rows) {
+        const cells = row.map((cell) =>
+          cell.startsWith("**changed:** ")
+            ? `<td class="changed">${escapeHtml(cell.slice("**changed:** ".length))}</td>`
+            : `<td>${escapeHtml(cell)}</td>`
+        );
+        body.push(`<tr>${cells.join("")}</tr>`);
+      }
+      body.push("</table>");
+    }
+  }
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    "<title>Flaim Eval Trends</title>",
+    "<style>",
+    "body { font-family: system-ui, sans-serif; margin: 2rem; }",
+    "table { border-collapse: collapse; margin-bottom: 1.5rem; }",
+    "th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; font-size: 0.9rem; }",
+    "td.changed { background: #fff3cd; }",
+    ".note { font-family: monospace; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export function parseTrendsArgs(argv: string[]): IndexQuery {
+  const query: IndexQuery = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (arg === "--model" || arg === "--scenario" || arg === "--last") {
+      if (!value) throw new Error(`${arg} requires a value`);
+      i += 1;
+    }
+    if (arg === "--model") {
+      query.model = value;
+    } else if (arg === "--scenario") {
+      query.scenarioId = value;
+    } else if (arg === "--last") {
+      const last = Number(value);
+      if (!Number.isInteger(last) || last < 1) throw new Error("--last requires a positive integer");
+      query.last = last;
+    } else {
+      throw new Error(`Unknown option: ${arg}\nUsage: npm run trends -- [--model <model>] [--scenario <id>] [--last <n>]`);
+    }
+  }
+  return query;
+}
+
+export async function runCli() {
+  let query: IndexQuery;
+  try {
+    query = parseTrendsArgs(process.argv.slice(2));
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const index = buildRunIndex(RUNS_DIR);
+  writeRunIndex(index, RUNS_DIR);
+  const runs = queryRuns(index, query);
+  if (runs.length === 0) {
+    fail("No indexed runs match. Runs need a summary.json to be indexed.");
+  }
+
+  const report = buildTrends(runs, query);
+  const markdownPath = path.join(RUNS_DIR, "trends.md");
+  const htmlPath = path.join(RUNS_DIR, "trends.html");
+  fs.writeFileSync(markdownPath, buildTrendsMarkdown(report));
+  fs.writeFileSync(htmlPath, buildTrendsHtml(report));
+
+  for (const { model, points } of report.models) {
+    const changes = points.reduce((sum, point) => sum + point.routing_changes, 0);
+    console.log(
+      `${model}: ${points.length} runs, pass rate ${sparkline(points.map((point) => point.pass_rate))} (latest ${pct(points[points.length - 1].pass_rate)}), ${changes} routing change(s)`
+    );
+  }
+  console.log(`Wrote trends: ${markdownPath}`);
+  console.log(`Wrote trends: ${htmlPath}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error("Fatal:", error);
+    process.exit(1);
+  });
+}
@@ -1,5 +1,22 @@
+import type { JsonSchema } from "./json-schema.js";
+
+/**
+ * One user turn of a multi-turn scenario.
+ */
+export interface ScenarioTurn {
+  prompt: string;
+  expected_tools: string[];
+  /** Checked against this turn's tool calls only. */
+  expected_calls?: ExpectedCall[];
+  /** Checked against this turn's final text only. */
+  answer_checks?: AnswerChecks;
+}
+
 /**
  * Scenario definition — loaded from scenarios/*.json
+ *
+ * Multi-turn scenarios list every user turn in `turns`; on load, `prompt` is
+ * filled from the first turn and `expected_tools` from all turns in order.
  */
 export interface Scenario {
   id: string;
@@ -8,10 +25,127 @@ export interface Scenario {
   expected_tools: string[];
   instructions?: string; // relative path to .md file in repo root
   tags: string[];
+  turns?: ScenarioTurn[];
+  expected_calls?: ExpectedCall[];
+  tool_match?: ToolMatchRule;
+  answer_checks?: AnswerChecks;
+  /** Rubric id under rubrics/ for LLM-as-judge grading (`--judge`). */
+  rubric?: string;
 }
 
 /**
- * Tool call captured from OpenAI response
+ * Judge rubric — loaded from rubrics/<id>.json
+ */
+export interface Rubric {
+  id: string;
+  description: string;
+  /** Instruction file the criteria were taken from, for reference. */
+  source?: string;
+  /** Weighted score (0-1) at or above which the answer passes. */
+  pass_threshold: number;
+  criteria: RubricCriterion[];
+}
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  /** Relative weight in the overall score (default 1). */
+  weight?: number;
+}
+
+export interface JudgeCriterionScore {
+  id: string;
+  /** 0 (fails the criterion) to 1 (fully meets it). */
+  score: number;
+  weight: number;
+  rationale: string;
+}
+
+/**
+ * Judge verdict stored on the trace artifact. `error` is set (and scores are
+ * empty) when the judge call or its output failed.
+ */
+export interface JudgeResult {
+  rubric_id: string;
+  judge_model: string;
+  score: number | null;
+  passed: boolean | null;
+  criteria: JudgeCriterionScore[];
+  rationale: string;
+  graded_at: string;
+  error?: string;
+  /** Tokens the judge call used; absent when the call failed before a reply. */
+  usage?: LlmResponse["usage"];
+}
+
+/**
+ * Checks on the final answer text, graded separately from tool routing.
+ * Matching is case-insensitive.
+ */
+export interface AnswerChecks {
+  must_contain?: string[];
+  must_not_contain?: string[];
+  /** Regex sources that must each match somewhere in the answer. */
+  regex?: string[];
+  /** Every listed platform name must be mentioned (e.g. the supported-platform list). */
+  mentions_platforms?: string[];
+  /** true: the answer must decline/explain a limitation; false: it must not. */
+  refusal?: boolean;
+}
+
+/**
+ * How called tool names are compared to `expected_tools`:
+ * - `exact`: same tools in the same order, nothing else
+ * - `in_order`: expected tools appear in order; other calls may be interleaved
+ * - `unordered`: same tools (with multiplicity) in any order, nothing else
+ * - `contains`: every expected tool appears at least once (default)
+ *
+ * Whatever the mode, an empty `expected_tools` list requires zero tool calls.
+ */
+export type ToolMatchMode = "exact" | "in_order" | "unordered" | "contains";
+
+export interface ToolMatchRule {
+  mode?: ToolMatchMode;
+  /** Tools that must never be called anywhere in the conversation. */
+  forbidden_tools?: string[];
+  /** Upper bound on total tool calls across all turns. */
+  max_calls?: number;
+}
+
+/**
+ * Argument constraint for an expected call. Bare values must match exactly;
+ * wrap objects/arrays in `equals`. `pattern` is tested against the value as a
+ * string, so `{ "pattern": "^2025$" }` accepts both 2025 and "2025".
+ */
+export type ArgMatcher =
+  | string
+  | number
+  | boolean
+  | null
+  | { equals: unknown }
+  | { pattern: string }
+  | { schema: JsonSchema };
+
+/**
+ * A tool call the model must make, with optional argument constraints.
+ */
+export interface ExpectedCall {
+  tool: string;
+  args?: Record<string, ArgMatcher>;
+}
+
+/**
+ * Model backend used to run a scenario.
+ */
+export type ProviderName = "openai" | "anthropic" | "chat";
+
+/**
+ * Reasoning effort passed to providers that support it (`--reasoning-effort`).
+ */
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+/**
+ * Tool call captured from the model response
  */
 export interface CapturedToolCall {
   tool_name: string;
@@ -24,7 +158,7 @@ export interface CapturedToolCall {
  * Enriched per-trace coverage metadata.
  */
 export interface EnrichmentMetadata {
-  mode: "initial" | "reenrich";
+  mode: "initial" | "deferred" | "reenrich";
   attempts: number;
   strict_trace_isolation: boolean;
   expected_workers: string[];
@@ -67,33 +201,60 @@ export type ServerLogs = {
   [workerName: string]: ServerLogEvent[];
 };
 
+/**
+ * Captured model response for one turn (or the aggregate of all turns).
+ */
+export interface LlmResponse {
+  response_id: string;
+  tool_calls: CapturedToolCall[];
+  final_text: string;
+  raw_output: unknown[];
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    /** Part of input_tokens served from the prompt cache; absent when the provider did not report it. */
+    cached_input_tokens?: number;
+    /** Part of output_tokens spent on reasoning; absent when the provider did not report it. */
+    reasoning_tokens?: number;
+  };
+  /** Set when the provider hit its tool-round limit while the model was still calling tools (final_text is then empty). */
+  tool_rounds_exhausted?: boolean;
+}
+
+export interface TraceTurn {
+  index: number;
+  prompt: string;
+  expected_tools: string[];
+  llm_response: LlmResponse;
+  duration_ms: number;
+}
+
 /**
  * Per-scenario trace artifact — written to runs/<run_id>/<trace_id>/trace.json
+ *
+ * For multi-turn scenarios `llm_response` aggregates every turn (all tool
+ * calls in order, last turn's final text, summed usage) and `turns` keeps the
+ * per-turn breakdown.
  */
 export interface TraceArtifact {
-  schema_version: "1.0" | "1.1";
+  schema_version: "1.0" | "1.1" | "1.2";
   run_id: string;
   trace_id: string;
   scenario_id: string;
   timestamp_utc: string;
   model: string;
+  provider?: ProviderName;
+  reasoning_effort?: ReasoningEffort;
   prompt: string;
   instructions_file: string | null;
   expected_tools: string[];
-  llm_response: {
-    response_id: string;
-    tool_calls: CapturedToolCall[];
-    final_text: string;
-    raw_output: unknown[];
-    usage: {
-      input_tokens: number;
-      output_tokens: number;
-      total_tokens: number;
-    };
-  };
+  llm_response: LlmResponse;
+  turns?: TraceTurn[];
   duration_ms: number;
   server_logs?: ServerLogs;
   enrichment?: EnrichmentMetadata;
+  judge?: JudgeResult;
   notes: string[];
 }
 
@@ -104,11 +265,58 @@ export interface RunManifest {
   run_id: string;
   timestamp_utc: string;
   model: string;
+  provider?: ProviderName;
+  reasoning_effort?: ReasoningEffort;
   mcp_url: string;
   scenario_count: number;
   scenarios: string[];
-  traces: Array<{ scenario_id: string; trace_id: string }>;
+  traces: Array<{ scenario_id: string; trace_id: string; trial?: number }>;
   instructions_files: string[];
+  /** sha256 of each instructions file's content when the run started. */
+  instructions_hashes?: Record<string, string>;
+  trials?: number;
+  cassette_mode?: CassetteMode;
+  replay_of?: string;
+  enrichment_mode?: EnrichmentMode;
+  judge_model?: string;
+  /** Times `--resume` continued this run. */
+  resumed_at?: string[];
+  /** Set on the per-model sub-runs of a `--models` matrix run. */
+  parent_run_id?: string;
+  /**
+   * Instructions variant that replaced every scenario's own (`--instructions`);
+   * null ran without instructions. Reapplied on `--resume`.
+   */
+  instructions_override?: string | null;
+}
+
+/**
+ * One model (and reasoning effort) of a matrix run.
+ */
+export interface MatrixVariant {
+  label: string;
+  model: string;
+  provider: ProviderName;
+  reasoning_effort?: ReasoningEffort;
+  /**
+   * Instructions file replacing every scenario's own (`--instructions`); null
+   * runs without instructions. Absent when scenarios keep their own.
+   */
+  instructions?: string | null;
+  instructions_sha256?: string;
+  /** Sub-run holding this variant's traces, under runs/<run_id>/. */
+  run_id: string;
+}
+
+/**
+ * Matrix run manifest — written to runs/<parent_run_id>/matrix.json
+ */
+export interface MatrixManifest {
+  run_id: string;
+  timestamp_utc: string;
+  scenarios: string[];
+  trials?: number;
+  variants: MatrixVariant[];
 }
 
 /**
@@ -117,20 +325,236 @@ export interface RunManifest {
 export interface RunSummary {
   run_id: string;
   model: string;
+  provider?: ProviderName;
+  reasoning_effort?: ReasoningEffort;
   total_scenarios: number;
   completed: number;
   errored: number;
+  /** Sum of per-trace durations. */
   total_duration_ms: number;
+  /** Elapsed time for scenarios plus any deferred enrichment; below the sum when scenarios overlap. */
+  wall_time_ms?: number;
   total_tokens: { input: number; output: number; total: number };
-  scenarios: Array<{
-    id: string;
-    trace_id: string;
-    status: "ok" | "error";
-    tool_calls: string[];
-    expected_tools: string[];
-    tools_match: boolean;
-    expected_tools_hit: boolean;
-    duration_ms: number;
-    error?: string;
-  }>;
+  scenarios: ScenarioResult[];
+  /** Present when the run used `--trials N` with N > 1. */
+  trials?: number;
+  scenario_stats?: ScenarioTrialStats[];
+  /** Present when the run used `--judge`. */
+  judge?: JudgeSummary;
+  /** Present when pricing/pricing.json has a price for the model. */
+  cost?: RunCost;
+}
+
+/**
+ * USD per million tokens for one model. Reasoning tokens are billed as output
+ * unless `reasoning` is set.
+ */
+export interface ModelPrice {
+  input: number;
+  cached_input?: number;
+  output: number;
+  reasoning?: number;
+}
+
+/**
+ * pricing/pricing.json: bump `version` whenever a rate changes so summaries
+ * record which prices their costs were computed with.
+ */
+export interface PricingTable {
+  version: string;
+  currency: "USD";
+  /** Keyed by model id without a date suffix, e.g. "gpt-5-mini". */
+  models: Record<string, ModelPrice>;
+}
+
+/**
+ * Run-level cost of the model under test plus any priced judge calls (see judge_usd).
+ */
+export interface RunCost {
+  pricing_version: string;
+  currency: "USD";
+  total_usd: number;
+  /** Summed over trials. */
+  by_scenario: Record<string, number>;
+  /** Part of total_usd spent on `--judge` calls; present when any judge call was priced. */
+  judge_usd?: number;
+  /** Present when the run used `--max-cost`. */
+  max_cost_usd?: number;
+  /** Traces not started because the budget would have been exceeded. */
+  skipped_traces?: number;
+}
+
+/**
+ * Run-level aggregate of judge scores.
+ */
+export interface JudgeSummary {
+  model: string;
+  graded: number;
+  errored: number;
+  passed: number;
+  mean_score: number | null;
+  /** Mean score per rubric criterion id. */
+  criteria: Record<string, number>;
+}
+
+/**
+ * Per-turn routing result for multi-turn scenarios.
+ */
+export interface TurnResult {
+  index: number;
+  tool_calls: string[];
+  expected_tools: string[];
+  tools_match: boolean;
+  expected_tools_hit: boolean;
+  final_text: string;
+  /** Present when the turn declares `expected_calls`. */
+  args_match?: boolean;
+  arg_checks?: ArgCheckResult[];
+  /** Present when the turn declares `answer_checks`. */
+  answer_passed?: boolean;
+  answer_checks?: AnswerCheckResult[];
+}
+
+/**
+ * One row of RunSummary.scenarios.
+ */
+export interface ScenarioResult {
+  id: string;
+  trace_id: string;
+  status: "ok" | "error";
+  tool_calls: string[];
+  expected_tools: string[];
+  tools_match: boolean;
+  /** Routing verdict under the scenario's tool_match rule. */
+  expected_tools_hit: boolean;
+  match_mode?: ToolMatchMode;
+  routing_violations?: string[];
+  duration_ms: number;
+  total_tokens?: number;
+  /** Present when the run's model has a price in pricing/pricing.json. Includes judge_cost_usd. */
+  cost_usd?: number;
+  /** Part of cost_usd spent on the `--judge` call, when the judge model has a price. */
+  judge_cost_usd?: number;
+  trial?: number;
+  turns?: TurnResult[];
+  /** Present when the scenario declares `expected_calls`. */
+  args_match?: boolean;
+  arg_checks?: ArgCheckResult[];
+  /** Present when the scenario declares `answer_checks`; not part of `passed`. */
+  answer_passed?: boolean;
+  answer_checks?: AnswerCheckResult[];
+  /** Present when the trace was graded by the judge (null score on judge error). */
+  judge_score?: number | null;
+  judge_passed?: boolean | null;
+  /** Share of names/numbers in the answer found in tool output; absent when no tool returned data. */
+  grounding_score?: number;
+  ungrounded_entities?: GroundingEntity[];
+  /** Routing and argument verdict; older summaries lack it (see isPassed in summary.ts). */
+  passed?: boolean;
+  error?: string;
+}
+
+/**
+ * Name or number in the final answer, as checked by the grounding pass.
+ */
+export interface GroundingEntity {
+  kind: "name" | "number" | "record";
+  text: string;
+}
+
+export interface AnswerCheckResult {
+  check: "must_contain" | "must_not_contain" | "regex" | "mentions_platforms" | "refusal";
+  expected: string;
+  passed: boolean;
+  detail?: string;
+  /** Index of the turn that declared the check; absent for scenario-level checks. */
+  turn?: number;
+}
+
+export interface ArgMismatch {
+  arg: string;
+  expected: string;
+  actual?: unknown;
+}
+
+/**
+ * Outcome of one `expected_calls` entry. `call_index` points into
+ * llm_response.tool_calls (the matched call, or the closest failing one),
+ * or into that turn's tool calls when `turn` is set.
+ */
+export interface ArgCheckResult {
+  tool: string;
+  passed: boolean;
+  call_index: number | null;
+  mismatches: ArgMismatch[];
+  /** Index of the turn that declared the call; absent for scenario-level calls. */
+  turn?: number;
+}
+
+/**
+ * Nearest-rank summary of a per-trial measurement.
+ */
+export interface Distribution {
+  min: number;
+  p50: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Per-scenario aggregate across repeated trials.
+ */
+export interface ScenarioTrialStats {
+  id: string;
+  trials: number;
+  passed: number;
+  errored: number;
+  pass_rate: number;
+  /** Keyed by k (1..trials). */
+  pass_at_k: Record<string, number>;
+  /** True when some trials passed and others failed. */
+  flaky: boolean;
+  /** Distinct tool-call sequences across completed trials, most common first. */
+  tool_sequences: Array<{ sequence: string[]; count: number }>;
+  duration_ms: Distribution;
+  total_tokens: Distribution;
+}
+
+export type CassetteMode = "record" | "replay";
+
+/**
+ * When `npm run eval` queries worker logs: after each scenario (`inline`) or
+ * in one batched phase after all scenarios finish (`deferred`).
+ */
+export type EnrichmentMode = "inline" | "deferred";
+
+/**
+ * Single recorded HTTP exchange. Run/trace IDs and the MCP access token are
+ * stored as placeholders so a cassette can be replayed under fresh IDs.
+ */
+export interface CassetteInteraction {
+  kind: "openai" | "anthropic" | "cloudflare" | "http";
+  key: string;
+  request: {
+    method: string;
+    url: string;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * Per-trace cassette — written to runs/<run_id>/<trace_id>/cassette.json
+ */
+export interface CassetteFile {
+  schema_version: "1.0";
+  scenario_id: string;
+  recorded_at: string;
+  cloudflare_enabled: boolean;
+  interactions: CassetteInteraction[];
 }
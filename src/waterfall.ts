@@ -0,0 +1,242 @@
+import type { ServerLogEvent, TraceArtifact } from "./types.js";
+
+/**
+ * Server-side waterfall for one trace: the `server_logs` of every worker
+ * stitched into one span tree per tool call. Events sharing a
+ * `correlation_id` form a tree with the fantasy-mcp ingress at the root and
+ * the auth-worker / platform client hops as children. Trees are aligned with
+ * the model's `tool_calls` by tool name in call order.
+ *
+ * Workers log an event when its work finishes, so an event covers
+ * [timestamp − duration_ms, timestamp] (wall_time_ms when duration_ms is
+ * absent). All offsets are milliseconds after the trace's first span starts.
+ */
+
+const INGRESS_SERVICE = "fantasy-mcp";
+const BAR_WIDTH = 40;
+
+export interface WaterfallSpan {
+  service: string;
+  /** Distinct phases of the events merged into this span, e.g. "tool_start/tool_end". */
+  phase: string;
+  start_ms: number;
+  end_ms: number;
+  duration_ms: number;
+  /** Highest status among the span's events; null when none reported one. */
+  status: number | null;
+  children: WaterfallSpan[];
+}
+
+/**
+ * Ingress time in which no hop was running.
+ */
+export interface WaterfallGap {
+  after: string;
+  before: string;
+  duration_ms: number;
+}
+
+export interface ToolWaterfall {
+  tool: string | null;
+  /** Index into llm_response.tool_calls; null when no call matched. */
+  call_index: number | null;
+  correlation_id: string;
+  span: WaterfallSpan;
+  gaps: WaterfallGap[];
+  /** Ingress time not covered by any hop (sum of gaps). */
+  self_ms: number;
+}
+
+export interface TraceWaterfall {
+  trace_id: string;
+  tools: ToolWaterfall[];
+  /** Tool calls with no correlated server events. */
+  unmatched_calls: Array<{ call_index: number; tool: string }>;
+  /** Events without a correlation id (directly or through their request id). */
+  uncorrelated_events: number;
+}
+
+interface TimedEvent {
+  service: string;
+  event: ServerLogEvent;
+  start: number;
+  end: number;
+}
+
+function toTimedEvent(worker: string, event: ServerLogEvent): TimedEvent | null {
+  const end = Date.parse(event.timestamp);
+  if (!Number.isFinite(end)) return null;
+  const duration = event.duration_ms ?? event.wall_time_ms ?? 0;
+  return { service: event.service ?? worker, event, start: end - Math.max(duration, 0), end };
+}
+
+/**
+ * Merge events into one span. Hop events are merged per worker invocation
+ * (request id); ingress events for one correlation id always form one span.
+ */
+function toSpan(events: TimedEvent[], origin: number, service: string): WaterfallSpan {
+  const start = Math.min(...events.map((entry) => entry.start));
+  const end = Math.max(...events.map((entry) => entry.end));
+  const statuses = events.map((entry) => entry.event.status).filter((status): status is number => status !== null);
+  return {
+    service,
+    phase: [...new Set(events.map((entry) => entry.event.phase).filter(Boolean))].join("/") || "(no phase)",
+    start_ms: start - origin,
+    end_ms: end - origin,
+    duration_ms: end - start,
+    status: statuses.length > 0 ? Math.max(...statuses) : null,
+    children: [],
+  };
+}
+
+function hopLabel(span: WaterfallSpan): string {
+  return `${span.service} ${span.phase}`;
+}
+
+function computeGaps(root: WaterfallSpan): { gaps: WaterfallGap[]; selfMs: number } {
+  const gaps: WaterfallGap[] = [];
+  let coveredUntil = root.start_ms;
+  let previous = "ingress start";
+  for (const child of root.children) {
+    const gap = Math.min(child.start_ms, root.end_ms) - coveredUntil;
+    if (gap > 0) {
+      gaps.push({ after: previous, before: hopLabel(child), duration_ms: gap });
+    }
+    if (child.end_ms >= coveredUntil) {
+      coveredUntil = child.end_ms;
+      previous = hopLabel(child);
+    }
+  }
+  if (root.end_ms - coveredUntil > 0) {
+    gaps.push({ after: previous, before: "ingress end", duration_ms: root.end_ms - coveredUntil });
+  }
+  return { gaps, selfMs: gaps.reduce((sum, gap) => sum + gap.duration_ms, 0) };
+}
+
+export function buildWaterfall(artifact: TraceArtifact): TraceWaterfall {
+  const events = Object.entries(artifact.server_logs ?? {}).flatMap(([worker, workerEvents]) =>
+    workerEvents.flatMap((event) => {
+      const timed = toTimedEvent(worker, event);
+      return timed ? [timed] : [];
+    })
+  );
+
+  // Events without a correlation id join the group of another event from the same invocation.
+  const correlationByRequest = new Map<string, string>();
+  for (const entry of events) {
+    if (entry.event.correlation_id && entry.event.request_id) {
+      correlationByRequest.set(entry.event.request_id, entry.event.correlation_id);
+    }
+  }
+  const groups = new Map<string, TimedEvent[]>();
+  let uncorrelated = 0;
+  for (const entry of events) {
+    const correlationId =
+      entry.event.correlation_id ?? (entry.event.request_id ? correlationByRequest.get(entry.event.request_id) : undefined);
+    if (!correlationId) {
+      uncorrelated += 1;
+      continue;
+    }
+    groups.set(correlationId, [...(groups.get(correlationId) ?? []), entry]);
+  }
+
+  const origin = events.length > 0 ? Math.min(...events.map((entry) => entry.start)) : 0;
+  const trees = [...groups.entries()].map(([correlationId, groupEvents]) => {
+    const ingress = groupEvents.filter((entry) => entry.service === INGRESS_SERVICE);
+    const hopEvents = groupEvents.filter((entry) => entry.service !== INGRESS_SERVICE);
+    const invocations = new Map<string, TimedEvent[]>();
+    hopEvents.forEach((entry, index) => {
+      const key = `${entry.service}|${entry.event.request_id ?? `#${index}`}`;
+      invocations.set(key, [...(invocations.get(key) ?? []), entry]);
+    });
+    const children = [...invocations.values()]
+      .map((invocation) => toSpan(invocation, origin, invocation[0].service))
+      .sort((a, b) => a.start_ms - b.start_ms || a.service.localeCompare(b.service));
+    const root = toSpan(ingress.length > 0 ? ingress : groupEvents, origin, ingress.length > 0 ? INGRESS_SERVICE : "(no ingress event)");
+    // Hops can outlive the ingress events that were logged; the root spans them all.
+    root.start_ms = Math.min(root.start_ms, ...children.map((child) => child.start_ms));
+    root.end_ms = Math.max(root.end_ms, ...children.map((child) => child.end_ms));
+    root.duration_ms = root.end_ms - root.start_ms;
+    root.children = children;
+    const { gaps, selfMs } = computeGaps(root);
+    const tool = groupEvents.find((entry) => entry.event.tool)?.event.tool ?? null;
+    return { tool, call_index: null as number | null, correlation_id: correlationId, span: root, gaps, self_ms: selfMs };
+  });
+  trees.sort((a, b) => a.span.start_ms - b.span.start_ms);
+
+  // Align with the model's calls: each call takes the earliest unclaimed tree for its tool.
+  const unmatched: TraceWaterfall["unmatched_calls"] = [];
+  artifact.llm_response.tool_calls.forEach((call, callIndex) => {
+    const tree = trees.find((candidate) => candidate.call_index === null && candidate.tool === call.tool_name);
+    if (tree) {
+      tree.call_index = callIndex;
+    } else {
+      unmatched.push({ call_index: callIndex, tool: call.tool_name });
+    }
+  });
+
+  return { trace_id: artifact.trace_id, tools: trees, unmatched_calls: unmatched, uncorrelated_events: uncorrelated };
+}
+
+function bar(span: WaterfallSpan, root: WaterfallSpan): string {
+  const scale = BAR_WIDTH / Math.max(root.duration_ms, 1);
+  const offset = Math.min(Math.round((span.start_ms - root.start_ms) * scale), BAR_WIDTH - 1);
+  const width = Math.min(Math.max(Math.round(span.duration_ms * scale), 1), BAR_WIDTH - offset);
+  return `|${" ".repeat(offset)}${"█".repeat(width)}${" ".repeat(BAR_WIDTH - offset - width)}|`;
+}
+
+function toolTitle(tool: ToolWaterfall): string {
+  return `${tool.tool ?? "(unknown tool)"}${tool.call_index !== null ? ` (call ${tool.call_index + 1})` : " (no matching call)"}`;
+}
+
+/**
+ * Plain-text waterfall: one block per tool call, bars scaled to the ingress
+ * span, then the gaps where the ingress ran without a hop.
+ */
+export function formatWaterfallText(waterfall: TraceWaterfall): string {
+  const lines: string[] = [];
+  for (const tool of waterfall.tools) {
+    const { span } = tool;
+    lines.push(`${toolTitle(tool)} · ${span.duration_ms} ms · correlation ${tool.correlation_id}`);
+    const rows = [{ depth: 0, entry: span }, ...span.children.map((entry) => ({ depth: 1, entry }))];
+    for (const { depth, entry } of rows) {
+      const label = `${"  ".repeat(depth)}${entry.service} ${entry.phase}`;
+      const status = entry.status !== null ? ` ${entry.status}` : "";
+      lines.push(`  ${label.padEnd(36)} +${String(entry.start_ms).padEnd(6)} ${`${entry.duration_ms}ms`.padStart(7)}${status.padEnd(4)} ${bar(entry, span)}`);
+    }
+    if (tool.gaps.length > 0) {
+      lines.push(
+        `  gaps: ${tool.gaps.map((gap) => `${gap.duration_ms}ms ${gap.after} → ${gap.before}`).join("; ")} (ingress self time ${tool.self_ms}ms)`
+      );
+    }
+    lines.push("");
+  }
+  for (const call of waterfall.unmatched_calls) {
+    lines.push(`${call.tool} (call ${call.call_index + 1}): no server events`);
+  }
+  if (waterfall.uncorrelated_events > 0) {
+    lines.push(`${waterfall.uncorrelated_events} event(s) without a correlation id not shown`);
+  }
+  return lines.join("\n").trimEnd();
+}
+
+function mermaidLabel(value: string): string {
+  return value.replace(/[:#;]/g, " ").trim();
+}
+
+/**
+ * Mermaid gantt chart: one section per tool call, times in ms from trace start.
+ */
+export function formatWaterfallMermaid(waterfall: TraceWaterfall): string {
+  const lines = ["gantt", `  title ${mermaidLabel(waterfall.trace_id)}`, "  dateFormat x", "  axisFormat %S.%L s"];
+  for (const tool of waterfall.tools) {
+    lines.push(`  section ${mermaidLabel(toolTitle(tool))}`);
+    for (const entry of [tool.span, ...tool.span.children]) {
+      // Zero-length tasks do not render; give them 1 ms.
+      const end = Math.max(entry.end_ms, entry.start_ms + 1);
+      const crit = entry.status !== null && entry.status >= 400 ? "crit, " : "";
+      lines.push(`  ${mermaidLabel(`${entry.service} ${entry.phase}`)} :${crit}${entry.start_ms}, ${end}`);
+    }
+  }
+  return lines.join("\n");
+}